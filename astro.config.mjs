@@ -2,10 +2,12 @@
 import { defineConfig } from 'astro/config';
 
 import react from '@astrojs/react';
+import { v86Relay } from './scripts/v86-relay.mjs';
 
 // https://astro.build/config
 export default defineConfig({
-  integrations: [react()],
+  // v86Relay: WebSocket relay for network={{ mode: "relay" }} during astro dev
+  integrations: [react(), v86Relay()],
   vite: {
     optimizeDeps: {
       // v86 uses dynamic imports and wasm, exclude from pre-bundling
@@ -0,0 +1,242 @@
+#!/usr/bin/env node
+
+/**
+ * Boots the image presets headless in Node, runs their login/bootstrap and saves
+ * the machine state to public/v86/states, so pages start at a shell prompt.
+ *
+ * Presets with "state": true in src/components/v86-wrapper/v86-assets.json are
+ * built. The state only works for the exact hardware it was saved on, so
+ * states/manifest.json records that config and the browser falls back to a
+ * normal boot when a Terminal asks for something different.
+ *
+ * Usage:
+ *   node scripts/build-v86-states.mjs [preset...]
+ *
+ * Options:
+ *   --dir <dir>       asset directory (default: public/v86)
+ *   --timeout <ms>    maximum time for each boot step (default: 300000)
+ */
+
+import { execFileSync } from 'node:child_process';
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import zlib from 'node:zlib';
+
+import { createLoader } from './vite-loader.mjs';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = join(__dirname, '..');
+const PUBLIC_DIR = join(ROOT_DIR, 'public', 'v86');
+const MANIFEST_PATH = join(ROOT_DIR, 'src', 'components', 'v86-wrapper', 'v86-assets.json');
+
+// Must match DEFAULT_CONFIG in emulatorOptions.ts
+const DEFAULT_MEMORY_MB = 128;
+const DEFAULT_VGA_MEMORY_MB = 8;
+const DEFAULT_SERIAL_PORTS = 4;
+const DEFAULT_TIMEOUT_MS = 300000;
+
+// ============================================
+// BOOTSTRAP
+// ============================================
+
+/**
+ * Runs the preset's login and bootstrap with runBootstrap (bootstrap.ts), the
+ * same code as the browser and the headless runner: a command that exits with
+ * a non-zero status fails the build instead of being baked into the state
+ */
+async function bootstrap(loader, emulator, name, timeout) {
+  const [{ V86Controller }, { runBootstrap }, { getPreset }] = await Promise.all([
+    loader.ssrLoadModule('/src/components/v86-wrapper/V86Controller.ts'),
+    loader.ssrLoadModule('/src/components/v86-wrapper/bootstrap.ts'),
+    loader.ssrLoadModule('/src/components/v86-wrapper/presets.ts'),
+  ]);
+  const preset = getPreset(name);
+  const config = preset.bootstrap ?? {};
+
+  const controller = new V86Controller();
+  controller.attach(emulator);
+  try {
+    await runBootstrap(
+      controller,
+      {
+        ...config,
+        login: config.login ?? preset.login,
+        prompt: config.prompt ?? preset.prompt,
+        timeout: config.timeout ?? timeout,
+      },
+      'serial'
+    );
+  } catch (error) {
+    throw new Error(`${name}: bootstrap failed at ${error.step ?? 'boot'}: ${error.message}`);
+  } finally {
+    controller.detach();
+  }
+}
+
+// ============================================
+// STATE
+// ============================================
+
+/**
+ * zstd is what v86 restores natively; plain state files are the fallback
+ */
+function compress(state) {
+  const buffer = Buffer.from(state);
+  if (zlib.zstdCompressSync) {
+    return { data: zlib.zstdCompressSync(buffer), extension: '.bin.zst' };
+  }
+  try {
+    const data = execFileSync('zstd', ['-q', '-19', '-c'], {
+      input: buffer,
+      maxBuffer: buffer.length * 2,
+    });
+    return { data, extension: '.bin.zst' };
+  } catch {
+    console.log('[??] zstd not available, writing an uncompressed state');
+    return { data: buffer, extension: '.bin' };
+  }
+}
+
+/**
+ * Resolved emulator config the state was saved with (see applyPrebuiltState)
+ */
+function describeConfig(manifest, preset) {
+  const assetUrl = (name) => (name ? `${manifest.baseUrl}/${manifest.assets[name].path}` : '');
+
+  return {
+    memorySize: (preset.memoryMB ?? DEFAULT_MEMORY_MB) * 1024 * 1024,
+    vgaMemorySize: DEFAULT_VGA_MEMORY_MB * 1024 * 1024,
+    biosUrl: assetUrl('seabios'),
+    vgaBiosUrl: assetUrl('vgabios'),
+    cdromUrl: assetUrl(preset.cdrom),
+    bzimageUrl: assetUrl(preset.bzimage),
+    initrdUrl: assetUrl(preset.initrd),
+    hdaUrl: '',
+    hdbUrl: '',
+    fdaUrl: '',
+    fdbUrl: '',
+    cmdline: preset.cmdline ?? '',
+    acpi: false,
+    virtioConsole: false,
+    virtioBalloon: false,
+    bzimageInitrdFromFilesystem: false,
+    bootOrder: 0,
+    serialPorts: DEFAULT_SERIAL_PORTS,
+    network: null,
+    filesystem: null,
+    bootstrap: preset.bootstrap ?? null,
+  };
+}
+
+async function buildState(loader, manifest, name, dir, timeout) {
+  const preset = manifest.presets[name];
+  const localPath = (assetName) => {
+    const path = join(dir, manifest.assets[assetName].path);
+    return stat(path).then(
+      () => ({ url: path }),
+      () => {
+        throw new Error(`${name}: missing ${path} (run "npm run download-v86" first)`);
+      }
+    );
+  };
+
+  const options = {
+    wasm_path: createRequire(import.meta.url).resolve('v86/build/v86.wasm'),
+    memory_size: (preset.memoryMB ?? DEFAULT_MEMORY_MB) * 1024 * 1024,
+    vga_memory_size: DEFAULT_VGA_MEMORY_MB * 1024 * 1024,
+    bios: await localPath('seabios'),
+    vga_bios: await localPath('vgabios'),
+    autostart: true,
+    disable_speaker: true,
+    acpi: false,
+    // serial0 always exists; the other UARTs must match the browser's serialPorts
+    uart1: DEFAULT_SERIAL_PORTS > 1,
+    uart2: DEFAULT_SERIAL_PORTS > 2,
+    uart3: DEFAULT_SERIAL_PORTS > 3,
+  };
+  if (preset.bzimage) {
+    options.bzimage = await localPath(preset.bzimage);
+    if (preset.cmdline) options.cmdline = preset.cmdline;
+    options.filesystem = {};
+  } else if (preset.cdrom) {
+    options.cdrom = await localPath(preset.cdrom);
+  }
+  if (preset.initrd) {
+    options.initrd = await localPath(preset.initrd);
+  }
+
+  const { V86 } = await import('v86');
+  const emulator = new V86(options);
+  try {
+    await new Promise((resolve) => emulator.add_listener('emulator-ready', resolve));
+    console.log(`[..] ${name}: booting`);
+    await bootstrap(loader, emulator, name, timeout);
+
+    await emulator.stop();
+    const { data, extension } = compress(await emulator.save_state());
+    const file = `${name}${extension}`;
+    await mkdir(join(dir, 'states'), { recursive: true });
+    await writeFile(join(dir, 'states', file), data);
+    console.log(`[ok] states/${file} (${(data.length / 1024 / 1024).toFixed(1)} MB)`);
+
+    return {
+      file,
+      createdAt: new Date().toISOString(),
+      size: data.length,
+      config: describeConfig(manifest, preset),
+    };
+  } finally {
+    await emulator.destroy();
+  }
+}
+
+// ============================================
+// COMMANDS
+// ============================================
+
+function parseArgs(argv) {
+  const args = { presets: [], dir: PUBLIC_DIR, timeout: DEFAULT_TIMEOUT_MS };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dir' && argv[i + 1]) args.dir = resolve(argv[++i]);
+    else if (arg === '--timeout' && argv[i + 1]) args.timeout = Number(argv[++i]);
+    else if (!arg.startsWith('-')) args.presets.push(arg);
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const manifest = JSON.parse(await readFile(MANIFEST_PATH, 'utf8'));
+
+  const names = args.presets.length
+    ? args.presets
+    : Object.keys(manifest.presets).filter((name) => manifest.presets[name].state);
+  for (const name of names) {
+    if (!manifest.presets[name]) throw new Error(`Unknown preset: ${name}`);
+  }
+
+  // Existing entries of presets not rebuilt now are kept
+  const statesManifestPath = join(args.dir, 'states', 'manifest.json');
+  const states = await readFile(statesManifestPath, 'utf8').then(JSON.parse, () => ({}));
+
+  const loader = await createLoader();
+  try {
+    for (const name of names) {
+      states[name] = await buildState(loader, manifest, name, args.dir, args.timeout);
+      await writeFile(statesManifestPath, `${JSON.stringify(states, null, 2)}\n`);
+    }
+  } finally {
+    await loader.close();
+  }
+  console.log('[ok] done');
+}
+
+await main().catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
@@ -1,46 +1,353 @@
 #!/usr/bin/env node
 
-import { mkdir, writeFile, access } from 'node:fs/promises';
-import { dirname, join } from 'node:path';
+/**
+ * Downloads and verifies the v86 BIOS and images listed in the asset manifest
+ * (src/components/v86-wrapper/v86-assets.json, shared with the image presets).
+ *
+ * Usage:
+ *   node scripts/download-v86-assets.mjs                     download missing or corrupted assets
+ *   node scripts/download-v86-assets.mjs verify              check local assets, fail if any is bad
+ *   node scripts/download-v86-assets.mjs pin <asset> [sha256]
+ *                                                            pin an asset to a published checksum
+ *   node scripts/download-v86-assets.mjs --offline           validate public/v86 without network
+ *   node scripts/download-v86-assets.mjs --offline --mirror <dir>
+ *                                                            validate a local mirror and copy it
+ *
+ * Options:
+ *   --dir <dir>   asset directory (default: public/v86)
+ *
+ * Assets are checked against the sha256 and size pinned in the manifest.
+ * "verify" and --offline fail on unpinned entries; a download (postinstall)
+ * only warns and checks their structure, so installing never fails on them.
+ * Pin against versioned URLs only: a moving URL (a branch, an unversioned
+ * image) changes under the pin. "pin" takes the checksum from the upstream release
+ * (argument, or the asset's sha256Url) and only records it after the
+ * downloaded file matches, so the first download is never trusted blindly.
+ */
+
+import { createHash } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { copyFile, mkdir, open, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { setTimeout as sleep } from 'node:timers/promises';
 import { fileURLToPath } from 'node:url';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PUBLIC_DIR = join(__dirname, '..', 'public', 'v86');
+const MANIFEST_PATH = join(__dirname, '..', 'src', 'components', 'v86-wrapper', 'v86-assets.json');
+
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Enough to read the ISO 9660 primary volume descriptor (sector 16)
+const HEADER_LENGTH = 0x8800;
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+async function readHeader(path) {
+  const file = await open(path);
+  try {
+    const buffer = Buffer.alloc(HEADER_LENGTH);
+    const { bytesRead } = await file.read(buffer, 0, HEADER_LENGTH, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Minimum size declared by the file's own headers, so truncated downloads are
+ * reported as such instead of only as a sha256 mismatch.
+ */
+function checkStructure(format, header) {
+  if (format === 'iso') {
+    // Primary volume descriptor: "CD001", volume space size (LE u32 @80), block size (LE u16 @128)
+    const pvd = header.subarray(0x8000);
+    if (pvd.length < 130) return { error: 'truncated before the ISO 9660 volume descriptor' };
+    if (pvd.toString('latin1', 1, 6) !== 'CD001') return { error: 'not an ISO 9660 image' };
+    return { minSize: pvd.readUInt32LE(80) * pvd.readUInt16LE(128) };
+  }
 
-const ASSETS = [
-  { url: 'https://github.com/copy/v86/raw/master/bios/seabios.bin', dest: 'bios/seabios.bin' },
-  { url: 'https://github.com/copy/v86/raw/master/bios/vgabios.bin', dest: 'bios/vgabios.bin' },
-  { url: 'https://i.copy.sh/buildroot-bzimage68.bin', dest: 'images/buildroot-bzimage68.bin' },
-  { url: 'https://i.copy.sh/linux4.iso', dest: 'images/linux4.iso' },
-  {
-    url: 'https://dl-cdn.alpinelinux.org/alpine/v3.19/releases/x86/alpine-virt-3.19.9-x86.iso',
-    dest: 'images/alpine-virt-3.19.9-x86.iso',
-  },
-];
+  if (format === 'bzimage') {
+    // Linux boot protocol: "HdrS" @0x202, setup_sects @0x1f1, syssize in 16-byte units @0x1f4
+    if (header.length < 0x206) return { error: 'truncated before the Linux boot header' };
+    if (header.toString('latin1', 0x202, 0x206) !== 'HdrS') return { error: 'not a Linux bzImage' };
+    const setupSectors = header[0x1f1] || 4;
+    return { minSize: (setupSectors + 1) * 512 + header.readUInt32LE(0x1f4) * 16 };
+  }
 
-async function downloadFile({ url, dest }) {
-  const fullPath = join(PUBLIC_DIR, dest);
+  return { minSize: 1 };
+}
 
+async function sha256File(path) {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * @returns a description of the problem, or null if the file is valid
+ */
+async function verifyAsset(asset, path) {
+  let info;
   try {
-    await access(fullPath);
-    console.log(`[ok] ${dest}`);
-    return;
+    info = await stat(path);
   } catch {
-    // File does not exist, proceed with download
+    return 'missing';
+  }
+
+  const pinned = isPinned(asset);
+  if (pinned && info.size !== asset.size) {
+    return `size is ${info.size} bytes, expected ${asset.size}`;
   }
 
-  console.log(`[..] ${dest}`);
-  await mkdir(dirname(fullPath), { recursive: true });
+  const { error, minSize } = checkStructure(asset.format, await readHeader(path));
+  if (error) return error;
+  if (info.size < minSize) return `truncated (${info.size} of ${minSize} bytes)`;
+  if (!pinned) return null;
 
-  const response = await fetch(url, { redirect: 'follow' });
-  if (!response.ok) throw new Error(`${response.status}`);
+  const digest = await sha256File(path);
+  if (digest !== asset.sha256) return `sha256 mismatch (got ${digest})`;
+  return null;
+}
 
-  await writeFile(fullPath, Buffer.from(await response.arrayBuffer()));
+function isPinned(asset) {
+  return /^[0-9a-f]{64}$/.test(asset.sha256 ?? '') && Number.isInteger(asset.size);
+}
+
+const PIN_HINT =
+  'Pin each one to its published checksum: node scripts/download-v86-assets.mjs pin <asset> <sha256>';
+
+function listUnpinned(manifest) {
+  return Object.entries(manifest.assets)
+    .filter(([, asset]) => !isPinned(asset))
+    .map(([name]) => name);
+}
+
+/**
+ * Unpinned assets are still downloaded, but only their structure is checked
+ */
+function warnUnpinned(manifest) {
+  const unpinned = listUnpinned(manifest);
+  if (unpinned.length) {
+    console.warn(
+      `[!!] Unpinned asset(s), sha256 not verified: ${unpinned.join(', ')}\n     ${PIN_HINT}`
+    );
+  }
+}
+
+/**
+ * verify and --offline exist to check integrity: a structural check is not enough
+ */
+function assertPinned(manifest) {
+  const unpinned = listUnpinned(manifest);
+  if (unpinned.length) {
+    throw new Error(`Unpinned asset(s) in the manifest: ${unpinned.join(', ')}\n${PIN_HINT}`);
+  }
+}
+
+// ============================================
+// DOWNLOAD
+// ============================================
+
+/**
+ * Downloads into `partPath`, resuming from its current size when the server
+ * supports range requests
+ */
+async function fetchToFile(url, partPath) {
+  const offset = await stat(partPath).then(
+    (info) => info.size,
+    () => 0
+  );
+
+  const headers = offset > 0 ? { Range: `bytes=${offset}-` } : {};
+  const response = await fetch(url, { redirect: 'follow', headers });
+  // Range past the end: the partial file is already complete
+  if (response.status === 416) return;
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+  // 206 continues the partial file; 200 means the server ignored the range
+  const append = response.status === 206;
+  const expected = Number(response.headers.get('content-length')) || 0;
+  let received = 0;
+
+  await pipeline(
+    Readable.fromWeb(response.body),
+    async function* (source) {
+      for await (const chunk of source) {
+        received += chunk.length;
+        yield chunk;
+      }
+    },
+    createWriteStream(partPath, { flags: append ? 'a' : 'w' })
+  );
+
+  if (expected && received !== expected) {
+    throw new Error(`incomplete download (${received} of ${expected} bytes)`);
+  }
+}
+
+async function downloadAsset(asset, path) {
+  const partPath = `${path}.part`;
+  await mkdir(dirname(path), { recursive: true });
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await fetchToFile(asset.url, partPath);
+      const problem = await verifyAsset(asset, partPath);
+      if (problem) {
+        // Corrupted data cannot be resumed
+        await rm(partPath, { force: true });
+        throw new Error(problem);
+      }
+      await rename(partPath, path);
+      return;
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) {
+        throw new Error(`${asset.path}: ${error.message}`);
+      }
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      console.log(`[..] ${asset.path}: ${error.message}, retrying in ${delay / 1000}s`);
+      await sleep(delay);
+    }
+  }
+}
+
+// ============================================
+// COMMANDS
+// ============================================
+
+async function download(assets, dir) {
+  await mkdir(dir, { recursive: true });
+
+  for (const asset of assets) {
+    const path = join(dir, asset.path);
+    const problem = await verifyAsset(asset, path);
+    if (!problem) {
+      console.log(`[ok] ${asset.path}`);
+      continue;
+    }
+
+    if (problem !== 'missing') {
+      console.log(`[!!] ${asset.path}: ${problem}, downloading again`);
+      await rm(path, { force: true });
+    }
+    console.log(`[..] ${asset.path}`);
+    await downloadAsset(asset, path);
+  }
+}
+
+/**
+ * Validates every asset in `source`; copies them into `dir` when they differ
+ */
+async function check(assets, source, dir) {
+  let failed = 0;
+
+  for (const asset of assets) {
+    const path = join(source, asset.path);
+    const problem = await verifyAsset(asset, path);
+    if (problem) {
+      console.error(`[!!] ${asset.path}: ${problem}`);
+      failed++;
+      continue;
+    }
+
+    if (source !== dir) {
+      await mkdir(dirname(join(dir, asset.path)), { recursive: true });
+      await copyFile(path, join(dir, asset.path));
+    }
+    console.log(`[ok] ${asset.path}`);
+  }
+
+  if (failed) {
+    throw new Error(`${failed} asset(s) missing or corrupted in ${source}`);
+  }
+}
+
+/**
+ * Checksum published upstream (e.g. Alpine's <iso>.sha256), never the download itself
+ */
+async function fetchPublishedChecksum(asset) {
+  if (!asset.sha256Url) return null;
+  const response = await fetch(asset.sha256Url, { redirect: 'follow' });
+  if (!response.ok) throw new Error(`${asset.sha256Url}: HTTP ${response.status}`);
+  return (await response.text()).trim().split(/\s+/)[0].toLowerCase();
+}
+
+/**
+ * Downloads the asset and records sha256/size only if it matches the expected checksum
+ */
+async function pin(manifest, dir, name, expectedSha256) {
+  const asset = manifest.assets[name];
+  if (!asset) {
+    throw new Error(`Unknown asset: ${name} (known: ${Object.keys(manifest.assets).join(', ')})`);
+  }
+
+  const sha256 = (expectedSha256 ?? (await fetchPublishedChecksum(asset)))?.toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(sha256 ?? '')) {
+    throw new Error(`${name}: pass the sha256 published upstream (no sha256Url in the manifest)`);
+  }
+
+  const path = join(dir, asset.path);
+  const partPath = `${path}.part`;
+  await mkdir(dirname(path), { recursive: true });
+  await rm(partPath, { force: true });
+  await fetchToFile(asset.url, partPath);
+
+  const size = (await stat(partPath)).size;
+  const problem = await verifyAsset({ ...asset, sha256, size }, partPath);
+  if (problem) {
+    await rm(partPath, { force: true });
+    throw new Error(`${asset.path}: ${problem}, expected ${sha256}`);
+  }
+  await rename(partPath, path);
+
+  asset.sha256 = sha256;
+  asset.size = size;
+  await writeFile(MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`[ok] ${asset.path} ${sha256} (${size} bytes)`);
+}
+
+function parseArgs(argv) {
+  const args = { command: 'download', offline: false, dir: PUBLIC_DIR, mirror: null, pin: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === 'download' || arg === 'verify' || arg === 'pin') args.command = arg;
+    else if (args.command === 'pin' && !arg.startsWith('--') && args.pin.length < 2) {
+      args.pin.push(arg);
+    } else if (arg === '--offline') args.offline = true;
+    else if (arg === '--dir' && argv[i + 1]) args.dir = resolve(argv[++i]);
+    else if (arg === '--mirror' && argv[i + 1]) args.mirror = resolve(argv[++i]);
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return args;
 }
 
 async function main() {
-  await mkdir(PUBLIC_DIR, { recursive: true });
-  for (const asset of ASSETS) await downloadFile(asset);
+  const args = parseArgs(process.argv.slice(2));
+  const manifest = JSON.parse(await readFile(MANIFEST_PATH, 'utf8'));
+  const assets = Object.values(manifest.assets);
+
+  if (args.command === 'pin') {
+    const [name, sha256] = args.pin;
+    if (!name) throw new Error('Usage: download-v86-assets.mjs pin <asset> [sha256]');
+    await pin(manifest, args.dir, name, sha256);
+  } else {
+    if (args.command === 'verify' || args.offline) {
+      assertPinned(manifest);
+      await check(assets, args.mirror ?? args.dir, args.dir);
+    } else {
+      warnUnpinned(manifest);
+      await download(assets, args.dir);
+    }
+  }
   console.log('[ok] done');
 }
 
@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+
+/**
+ * Runs lesson command scripts (*.lesson.ts) against the shipped v86 images in
+ * Node and fails when a command no longer works or prints something unexpected.
+ *
+ * A lesson file default-exports defineLesson({...}) (or an array of them) from
+ * src/components/v86-wrapper/lessons.ts. The modules are loaded through Vite,
+ * which resolves the wrapper's TypeScript and asset imports.
+ *
+ * Usage:
+ *   node scripts/test-lessons.mjs [file...]    default: every *.lesson.ts under src/
+ *
+ * Options:
+ *   --dir <dir>       asset directory (default: public/v86)
+ *   --timeout <ms>    maximum time for each boot step (default: 300000)
+ */
+
+import { readdir } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { dirname, join, relative, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { createLoader } from './vite-loader.mjs';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = join(__dirname, '..');
+const PUBLIC_DIR = join(ROOT_DIR, 'public', 'v86');
+const LESSON_SUFFIX = '.lesson.ts';
+
+// ============================================
+// LOADING
+// ============================================
+
+async function findLessons(dir) {
+  const files = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await findLessons(path)));
+    else if (entry.name.endsWith(LESSON_SUFFIX)) files.push(path);
+  }
+  return files.sort();
+}
+
+// ============================================
+// REPORTING
+// ============================================
+
+function printStep({ step, result, failures, passed }) {
+  if (passed) {
+    console.log(`  [ok] ${step.command}`);
+    return;
+  }
+  console.error(`  [!!] ${step.command}`);
+  for (const failure of failures) console.error(`       ${failure}`);
+  if (result.stdout) console.error(`       stdout: ${JSON.stringify(result.stdout.slice(-500))}`);
+  if (result.stderr) console.error(`       stderr: ${JSON.stringify(result.stderr.slice(-500))}`);
+}
+
+// ============================================
+// COMMANDS
+// ============================================
+
+function parseArgs(argv) {
+  const args = { files: [], dir: PUBLIC_DIR, timeout: undefined };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dir' && argv[i + 1]) args.dir = resolve(argv[++i]);
+    else if (arg === '--timeout' && argv[i + 1]) args.timeout = Number(argv[++i]);
+    else if (!arg.startsWith('-')) args.files.push(resolve(arg));
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const files = args.files.length ? args.files : await findLessons(join(ROOT_DIR, 'src'));
+  if (!files.length) {
+    console.log(`[??] no *${LESSON_SUFFIX} files found`);
+    return;
+  }
+
+  const loader = await createLoader();
+  let failed = 0;
+  try {
+    const { runLesson } = await loader.ssrLoadModule('/src/components/v86-wrapper/lessons.ts');
+    const options = {
+      assetsDir: args.dir,
+      wasmPath: createRequire(import.meta.url).resolve('v86/build/v86.wasm'),
+      bootTimeout: args.timeout,
+      onStep: printStep,
+    };
+
+    for (const file of files) {
+      const module = await loader.ssrLoadModule(`/${relative(ROOT_DIR, file)}`);
+      const lessons = [module.default].flat();
+
+      for (const lesson of lessons) {
+        console.log(`[..] ${lesson.name} (${relative(ROOT_DIR, file)})`);
+        try {
+          const result = await runLesson(lesson, options);
+          if (!result.passed) failed++;
+          console.log(`${result.passed ? '[ok]' : '[!!]'} ${lesson.name} ${result.durationMs}ms`);
+        } catch (error) {
+          failed++;
+          console.error(`[!!] ${lesson.name}: ${error.message}`);
+        }
+      }
+    }
+  } finally {
+    await loader.close();
+  }
+
+  if (failed) throw new Error(`${failed} lesson(s) failed`);
+  console.log('[ok] done');
+}
+
+await main().catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
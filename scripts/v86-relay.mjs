@@ -0,0 +1,286 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for a v86 network relay: a WebSocket Ethernet switch.
+ *
+ * Every VM connected with network mode "relay" sends raw Ethernet frames over
+ * a WebSocket (the websockproxy protocol v86 speaks). Frames are switched
+ * between the VMs of the same segment (ws://host/v86-relay/<segment>); there is
+ * no Internet access, DHCP or DNS, so guests use static addresses.
+ *
+ * `astro dev` serves it through the integration exported here (astro.config.mjs).
+ * It can also run on its own, e.g. for VMs on different machines of a classroom:
+ *
+ * Usage:
+ *   node scripts/v86-relay.mjs [--port 8086] [--host 127.0.0.1]
+ *
+ * The page then needs network={{ mode: "relay", relay_url: "ws://<host>:8086/v86-relay/<segment>" }}.
+ */
+
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// Same path as RELAY_PATH in src/components/v86-wrapper/network.ts
+export const RELAY_PATH = '/v86-relay';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const DEFAULT_SEGMENT = 'default';
+const DEFAULT_PORT = 8086;
+// Largest virtio-net frame plus headroom; anything bigger is not Ethernet
+const MAX_MESSAGE_BYTES = 70000;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// ============================================
+// WEBSOCKET
+// ============================================
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header.writeUInt16BE(length, 2);
+    header[1] = 126;
+  } else {
+    header = Buffer.alloc(10);
+    header.writeBigUInt64BE(BigInt(length), 2);
+    header[1] = 127;
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * One connected VM: parses client frames and hands complete messages to the segment
+ */
+class Peer {
+  constructor(socket, segment) {
+    this.socket = socket;
+    this.segment = segment;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+    this.closed = false;
+
+    socket.on('data', (chunk) => this.handleData(chunk));
+    socket.on('close', () => this.close());
+    socket.on('error', () => this.close());
+  }
+
+  send(frame) {
+    if (!this.closed) this.socket.write(encodeFrame(OPCODE_BINARY, frame));
+  }
+
+  close(code) {
+    if (this.closed) return;
+    this.closed = true;
+    this.segment.leave(this);
+    if (code && !this.socket.destroyed) {
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code);
+      this.socket.end(encodeFrame(OPCODE_CLOSE, payload));
+    } else {
+      this.socket.destroy();
+    }
+  }
+
+  handleData(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 2 && !this.closed) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // Clients must mask their frames (RFC 6455 5.1)
+      if (!masked) return this.close(1002);
+      if (length > MAX_MESSAGE_BYTES) return this.close(1009);
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      if (opcode === OPCODE_CLOSE) return this.close(1000);
+      if (opcode === OPCODE_PING) {
+        this.socket.write(encodeFrame(OPCODE_PONG, payload));
+      } else if (opcode === OPCODE_BINARY || opcode === OPCODE_CONTINUATION) {
+        this.fragments.push(payload);
+        if (fin) {
+          const message = Buffer.concat(this.fragments);
+          this.fragments = [];
+          this.segment.forward(this, message);
+        }
+      }
+    }
+  }
+}
+
+// ============================================
+// SWITCH
+// ============================================
+
+const segments = new Map();
+
+function macKey(frame, offset) {
+  return frame.subarray(offset, offset + 6).toString('hex');
+}
+
+/**
+ * Learning switch, same behaviour as the in-page loopback segment
+ */
+class Segment {
+  constructor(name) {
+    this.name = name;
+    this.peers = new Set();
+    this.macTable = new Map();
+  }
+
+  join(peer) {
+    this.peers.add(peer);
+  }
+
+  leave(peer) {
+    this.peers.delete(peer);
+    for (const [mac, owner] of this.macTable) {
+      if (owner === peer) this.macTable.delete(mac);
+    }
+    if (this.peers.size === 0) segments.delete(this.name);
+  }
+
+  forward(from, frame) {
+    if (frame.length < 14) return;
+    this.macTable.set(macKey(frame, 6), from);
+
+    // Known unicast goes straight to its port; broadcast, multicast and unknown are flooded
+    const target = frame[0] & 1 ? undefined : this.macTable.get(macKey(frame, 0));
+    for (const peer of target ? [target] : this.peers) {
+      if (peer !== from) peer.send(frame);
+    }
+  }
+}
+
+function getSegment(name) {
+  let segment = segments.get(name);
+  if (!segment) {
+    segment = new Segment(name);
+    segments.set(name, segment);
+  }
+  return segment;
+}
+
+// ============================================
+// SERVER
+// ============================================
+
+/**
+ * Serves the relay on `path` of an existing HTTP server; other upgrade requests
+ * (e.g. Vite HMR) are left alone
+ */
+export function attachRelay(server, { path = RELAY_PATH } = {}) {
+  server.on('upgrade', (request, socket, head) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    if (pathname !== path && !pathname.startsWith(`${path}/`)) return;
+
+    const key = request.headers['sec-websocket-key'];
+    let name;
+    try {
+      name = decodeURIComponent(pathname.slice(path.length + 1)) || DEFAULT_SEGMENT;
+    } catch {
+      name = null;
+    }
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key || !name) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(`${key}${WS_GUID}`).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+        'Upgrade: websocket\r\n' +
+        'Connection: Upgrade\r\n' +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    socket.setNoDelay(true);
+
+    const segment = getSegment(name);
+    const peer = new Peer(socket, segment);
+    segment.join(peer);
+    if (head?.length) peer.handleData(head);
+  });
+}
+
+/**
+ * Astro integration: relay on /v86-relay of the `astro dev` server
+ */
+export function v86Relay(options = {}) {
+  return {
+    name: 'v86-relay',
+    hooks: {
+      'astro:server:setup': ({ server, logger }) => {
+        if (!server.httpServer) return;
+        attachRelay(server.httpServer, options);
+        logger.info(`v86 network relay on ${options.path ?? RELAY_PATH}/<segment>`);
+      },
+    },
+  };
+}
+
+// ============================================
+// COMMANDS
+// ============================================
+
+function parseArgs(argv) {
+  const args = { port: DEFAULT_PORT, host: '127.0.0.1' };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--port' && argv[i + 1]) args.port = Number(argv[++i]);
+    else if (arg === '--host' && argv[i + 1]) args.host = argv[++i];
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const server = createServer((request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('v86 relay: connect with a WebSocket\n');
+  });
+  attachRelay(server);
+
+  await new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(args.port, args.host, resolve);
+  });
+  console.log(`[ok] relay on ws://${args.host}:${args.port}${RELAY_PATH}/<segment>`);
+}
+
+// Imported by astro.config.mjs; runs only when executed directly
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  await main().catch((e) => {
+    console.error(e.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,28 @@
+/**
+ * Shared Vite loader for the Node scripts (test-lessons.mjs,
+ * build-v86-states.mjs): ssrLoadModule resolves the wrapper's TypeScript and
+ * asset imports the same way the site build does.
+ */
+
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+/**
+ * Vite is a dependency of Astro rather than of this package, so it is resolved
+ * from Astro's own location. Close the returned server when done.
+ */
+export async function createLoader() {
+  const require = createRequire(import.meta.resolve('astro/package.json'));
+  const { createServer } = await import(require.resolve('vite'));
+  return createServer({
+    root: ROOT_DIR,
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false, ws: false },
+    optimizeDeps: { noDiscovery: true, include: [] },
+  });
+}
@@ -0,0 +1,271 @@
+import {
+  useCallback,
+  useEffect,
+  useId,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  type CSSProperties,
+  type ReactNode,
+} from 'react';
+import type { V86Controller } from '../v86-wrapper/V86Controller';
+import {
+  runExerciseChecks,
+  assertUniqueCheckLabels,
+  loadExerciseProgress,
+  saveExerciseProgress,
+  clearExerciseProgress,
+  type ExerciseCheck,
+  type ExerciseCheckResult,
+  type ExerciseProgress,
+} from '../v86-wrapper/exercises';
+import { Terminal, type TerminalProps } from './Terminal';
+
+// ============================================
+// TIPOS
+// ============================================
+
+export interface ExerciseProps {
+  /** Identificador unico do exercicio (chave do progresso salvo) */
+  id: string;
+  /** Titulo exibido acima do enunciado */
+  title?: ReactNode;
+  /** Enunciado da tarefa */
+  task: ReactNode;
+  /** Verificacoes, na ordem exibida ao aluno (labels unicos) */
+  checks: ExerciseCheck[];
+  /** Props do Terminal (preset, bootstrap, display, ...) */
+  terminal?: TerminalProps;
+  /** Salvar o progresso no localStorage (padrao: true) */
+  persist?: boolean;
+  /** Chamado ao fim de cada verificacao */
+  onCheck?: (results: ExerciseCheckResult[]) => void;
+  /** Chamado quando todas as verificacoes passam */
+  onComplete?: () => void;
+  className?: string;
+  style?: CSSProperties;
+}
+
+type CheckStatus = 'pending' | 'passed' | 'failed' | 'saved';
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  pending: '○',
+  passed: '✓',
+  saved: '✓',
+  failed: '✗',
+};
+
+// Texto do icone para leitores de tela
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  pending: 'Pendente',
+  passed: 'Passou',
+  saved: 'Passou',
+  failed: 'Falhou',
+};
+
+const STATUS_COLORS: Record<CheckStatus, string> = {
+  pending: '#888',
+  passed: '#2e7d32',
+  saved: '#2e7d32',
+  failed: '#c62828',
+};
+
+const BUTTON_STYLE: CSSProperties = {
+  padding: '4px 12px',
+  backgroundColor: '#333',
+  color: '#fff',
+  border: '1px solid #555',
+  borderRadius: 4,
+  cursor: 'pointer',
+  fontSize: 14,
+};
+
+// ============================================
+// COMPONENTE
+// ============================================
+
+/**
+ * Exercicio com enunciado, terminal e verificacoes automaticas
+ * O botao "Verificar" roda as verificacoes pelo controller (arquivo com
+ * conteudo, output de comando, processo rodando, exit status) e mostra o
+ * resultado de cada uma, com a dica nas que falharam. O progresso fica no
+ * localStorage (veja loadExerciseProgress).
+ *
+ * @example
+ * <Exercise
+ *   id="cap03-permissoes"
+ *   title="Permissoes"
+ *   task={<p>Crie o script /root/ola.sh e torne-o executavel.</p>}
+ *   terminal={{ preset: "buildroot" }}
+ *   checks={[
+ *     { type: "file", label: "ola.sh existe", path: "/root/ola.sh", content: "echo" },
+ *     {
+ *       type: "exitCode",
+ *       label: "ola.sh e executavel",
+ *       command: "test -x /root/ola.sh",
+ *       hint: "Use chmod +x",
+ *     },
+ *     { type: "output", label: "Imprime ola", command: "/root/ola.sh", stdout: /ola/i },
+ *   ]}
+ * />
+ */
+export function Exercise({
+  id,
+  title,
+  task,
+  checks,
+  terminal = {},
+  persist = true,
+  onCheck,
+  onComplete,
+  className,
+  style,
+}: ExerciseProps) {
+  const [controller, setController] = useState<V86Controller | null>(null);
+  const [running, setRunning] = useState(false);
+  const [results, setResults] = useState<ExerciseCheckResult[] | null>(null);
+  const [progress, setProgress] = useState<ExerciseProgress | null>(null);
+  const titleId = useId();
+
+  // O progresso salvo e indexado pelo label: repetidos sao erro de autoria,
+  // exibido no lugar do exercicio (sem derrubar o resto da pagina)
+  const authoringError = useMemo(() => {
+    try {
+      assertUniqueCheckLabels(checks);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }, [checks]);
+
+  // Refs para callbacks (evita stale closures)
+  const onReadyRef = useRef(terminal.onReady);
+  const onCheckRef = useRef(onCheck);
+  const onCompleteRef = useRef(onComplete);
+  useLayoutEffect(() => {
+    onReadyRef.current = terminal.onReady;
+    onCheckRef.current = onCheck;
+    onCompleteRef.current = onComplete;
+  });
+
+  // Progresso salvo (lido no cliente: nao existe no SSR)
+  useEffect(() => {
+    setResults(null);
+    setProgress(persist ? loadExerciseProgress(id) : null);
+  }, [id, persist]);
+
+  const handleReady = useCallback((ready: V86Controller) => {
+    setController(ready);
+    onReadyRef.current?.(ready);
+  }, []);
+
+  const handleCheck = async () => {
+    if (!controller || running) return;
+    setRunning(true);
+    try {
+      const checkResults = await runExerciseChecks(controller, checks);
+      setResults(checkResults);
+      if (persist) setProgress(saveExerciseProgress(id, checkResults));
+      onCheckRef.current?.(checkResults);
+      if (checkResults.every((result) => result.passed)) onCompleteRef.current?.();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleReset = () => {
+    clearExerciseProgress(id);
+    setProgress(null);
+    setResults(null);
+  };
+
+  // Resultado da ultima verificacao; sem ela, o que ja passou em visitas anteriores
+  const getStatus = (index: number): CheckStatus => {
+    const result = results?.[index];
+    if (result) return result.passed ? 'passed' : 'failed';
+    return progress?.passed.includes(checks[index].label) ? 'saved' : 'pending';
+  };
+
+  const statuses = checks.map((_, index) => getStatus(index));
+  const passedCount = statuses.filter((status) => status === 'passed' || status === 'saved').length;
+  const completed = progress?.completed || passedCount === checks.length;
+
+  if (authoringError) {
+    return (
+      <section className={className} style={style}>
+        <p role="alert" style={{ margin: 0, color: STATUS_COLORS.failed }}>
+          Exercicio {id} mal configurado: {authoringError}
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <section
+      className={className}
+      aria-labelledby={title ? titleId : undefined}
+      style={{ display: 'flex', flexDirection: 'column', gap: 12, ...style }}
+    >
+      {title && (
+        <h3 id={titleId} style={{ margin: 0 }}>
+          {title}
+        </h3>
+      )}
+      <div>{task}</div>
+
+      <Terminal {...terminal} onReady={handleReady} />
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <button
+          type="button"
+          onClick={handleCheck}
+          disabled={!controller || running}
+          style={{ ...BUTTON_STYLE, opacity: !controller || running ? 0.6 : 1 }}
+        >
+          {running ? 'Verificando...' : 'Verificar'}
+        </button>
+        <span style={{ fontSize: 14 }}>
+          {passedCount} de {checks.length}
+        </span>
+        {persist && progress && (
+          <button type="button" onClick={handleReset} style={BUTTON_STYLE}>
+            Recomecar
+          </button>
+        )}
+      </div>
+
+      <ul aria-live="polite" style={{ margin: 0, padding: 0, listStyle: 'none' }}>
+        {checks.map((check, index) => {
+          const status = statuses[index];
+          const result = results?.[index];
+          return (
+            <li key={check.label} style={{ marginBottom: 6 }}>
+              <span
+                role="img"
+                aria-label={STATUS_LABELS[status]}
+                style={{ color: STATUS_COLORS[status], marginRight: 8, fontWeight: 'bold' }}
+              >
+                {STATUS_ICONS[status]}
+              </span>
+              <span>{check.label}</span>
+              {status === 'saved' && <span style={{ color: '#888' }}> (concluida antes)</span>}
+              {status === 'failed' && (
+                <div style={{ marginLeft: 20, fontSize: 14 }}>
+                  <div style={{ color: STATUS_COLORS.failed }}>{result?.message}</div>
+                  {check.hint && <div>Dica: {check.hint}</div>}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {completed && (
+        <p role="status" style={{ margin: 0, color: STATUS_COLORS.passed, fontWeight: 'bold' }}>
+          Exercicio concluido!
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useLayoutEffect, useRef, type CSSProperties } from 'react';
+import type { Terminal as XTerm, ITheme } from '@xterm/xterm';
+import '@xterm/xterm/css/xterm.css';
+import type { V86Controller } from '../v86-wrapper/V86Controller';
+import type { TerminalDisplayConfig } from './Terminal';
+
+// ============================================
+// TIPOS
+// ============================================
+
+export interface SerialTerminalProps {
+  /** Controller da VM (a porta serial e lida e escrita por ele) */
+  controller: V86Controller | null;
+  /** Porta serial conectada ao terminal (padrao: 0) */
+  port?: number;
+  /** Configuracao visual (cores, fonte, colunas/linhas) */
+  display?: TerminalDisplayConfig;
+  /** Linhas de scrollback (padrao: 5000) */
+  scrollback?: number;
+  /**
+   * Ajustar o tty do guest ao tamanho do terminal (padrao: false)
+   * Usa o guest agent (veja V86Controller.resizeSerialTty); sem agente pronto,
+   * nada e feito. Nenhum texto e enviado ao shell da porta.
+   */
+  syncGuestSize?: boolean;
+  /** Chamado quando o numero de colunas/linhas muda */
+  onResize?: (size: { cols: number; rows: number }) => void;
+  className?: string;
+  style?: CSSProperties;
+}
+
+function buildTheme(display: TerminalDisplayConfig): ITheme {
+  return {
+    background: display.backgroundColor ?? '#000',
+    foreground: display.textColor ?? '#fff',
+    cursor: display.cursorColor ?? display.textColor ?? '#fff',
+    selectionBackground: display.selectionColor ?? 'rgba(255, 255, 255, 0.3)',
+  };
+}
+
+// Contraste minimo do xterm (WCAG AAA com display.highContrast)
+function toContrastRatio(highContrast: TerminalDisplayConfig['highContrast']): number {
+  return highContrast ? 7 : 1;
+}
+
+function toFontSize(fontSize: TerminalDisplayConfig['fontSize']): number {
+  return typeof fontSize === 'number' ? fontSize : parseInt(fontSize ?? '14', 10) || 14;
+}
+
+// Carrega o xterm sob demanda (apenas browser)
+async function loadXterm() {
+  const [{ Terminal }, { FitAddon }] = await Promise.all([
+    import('@xterm/xterm'),
+    import('@xterm/addon-fit'),
+  ]);
+  return { Terminal, FitAddon };
+}
+
+// Espera o redimensionamento parar antes de mandar o stty ao guest
+const GUEST_RESIZE_DELAY_MS = 250;
+
+// ============================================
+// COMPONENTE
+// ============================================
+
+/**
+ * Terminal ANSI/VT100 (xterm.js) conectado a uma porta serial da VM
+ * Alternativa a tela VGA: redimensionavel, com selecao, copiar/colar
+ * (Ctrl+Shift+C / Ctrl+Shift+V), scrollback e tema configuravel.
+ *
+ * @example
+ * const { controller, handleReady } = useTerminal();
+ *
+ * <Terminal preset="buildroot" displayMode="serial" onReady={handleReady} />
+ *
+ * // Ou manualmente, com um controller ja existente:
+ * <SerialTerminal controller={controller} display={{ textColor: "#0f0" }} />
+ */
+export function SerialTerminal({
+  controller,
+  port = 0,
+  display = {},
+  scrollback = 5000,
+  syncGuestSize = false,
+  onResize,
+  className,
+  style,
+}: SerialTerminalProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const termRef = useRef<XTerm | null>(null);
+  const displayRef = useRef(display);
+  const onResizeRef = useRef(onResize);
+  const syncGuestSizeRef = useRef(syncGuestSize);
+
+  useLayoutEffect(() => {
+    displayRef.current = display;
+    onResizeRef.current = onResize;
+    syncGuestSizeRef.current = syncGuestSize;
+  });
+
+  // Cria o xterm e conecta a porta serial
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!controller || !container) return;
+
+    let disposed = false;
+    const cleanups: (() => void)[] = [];
+
+    loadXterm()
+      .then(({ Terminal, FitAddon }) => {
+        if (disposed) return;
+
+        const initial = displayRef.current;
+        const term = new Terminal({
+          scrollback,
+          cursorBlink: true,
+          fontFamily: initial.fontFamily ?? 'monospace',
+          fontSize: toFontSize(initial.fontSize),
+          theme: buildTheme(initial),
+          minimumContrastRatio: toContrastRatio(initial.highContrast),
+        });
+        const fit = new FitAddon();
+        term.loadAddon(fit);
+        term.open(container);
+        termRef.current = term;
+        cleanups.push(() => {
+          termRef.current = null;
+          term.dispose();
+        });
+
+        // Tamanho fixo ou ajustado ao container
+        const resize = () => {
+          const { cols, rows } = displayRef.current;
+          if (cols && rows) {
+            term.resize(cols, rows);
+          } else {
+            fit.fit();
+          }
+        };
+        const observer = new ResizeObserver(resize);
+        observer.observe(container);
+        cleanups.push(() => observer.disconnect());
+        resize();
+
+        // A serial nao transporta o tamanho da janela: o guest so sabe via stty
+        let guestResizeTimer: ReturnType<typeof setTimeout> | undefined;
+        const syncGuest = (cols: number, rows: number) => {
+          clearTimeout(guestResizeTimer);
+          if (!syncGuestSizeRef.current) return;
+          guestResizeTimer = setTimeout(() => {
+            controller
+              .resizeSerialTty(port, cols, rows)
+              .catch((error) => console.warn('Failed to resize guest tty:', error));
+          }, GUEST_RESIZE_DELAY_MS);
+        };
+        cleanups.push(() => clearTimeout(guestResizeTimer));
+
+        const resizeListener = term.onResize(({ cols, rows }) => {
+          // A gravacao de sessao acompanha apenas a serial0
+          if (port === 0) controller.getRecorder()?.recordResize(cols, rows);
+          syncGuest(cols, rows);
+          onResizeRef.current?.({ cols, rows });
+        });
+        cleanups.push(() => resizeListener.dispose());
+
+        // Output: a serial entrega um byte por evento; agrupa antes de escrever
+        let pending: number[] = [];
+        const flush = () => {
+          const bytes = new Uint8Array(pending);
+          pending = [];
+          term.write(bytes);
+        };
+        cleanups.push(
+          controller.onSerialPortOutput(port, (char) => {
+            if (pending.length === 0) queueMicrotask(flush);
+            pending.push(char.charCodeAt(0));
+          })
+        );
+
+        // Input: teclas e colagens vao para a porta
+        const dataListener = term.onData((data) => controller.sendSerialTo(port, data));
+        const binaryListener = term.onBinary((data) => {
+          controller.sendSerialBytes(
+            port,
+            Uint8Array.from(data, (char) => char.charCodeAt(0))
+          );
+        });
+        cleanups.push(
+          () => dataListener.dispose(),
+          () => binaryListener.dispose()
+        );
+
+        // Ctrl+Shift+C / Ctrl+Shift+V (Ctrl+C continua enviando SIGINT)
+        term.attachCustomKeyEventHandler((event) => {
+          if (event.type !== 'keydown' || !event.ctrlKey || !event.shiftKey) return true;
+          if (event.code === 'KeyC') {
+            const selection = term.getSelection();
+            if (selection) navigator.clipboard?.writeText(selection).catch(() => {});
+            return false;
+          }
+          if (event.code === 'KeyV') {
+            navigator.clipboard
+              ?.readText()
+              .then((text) => term.paste(text))
+              .catch(() => {});
+            return false;
+          }
+          return true;
+        });
+      })
+      .catch((error) => console.error('Failed to load xterm:', error));
+
+    return () => {
+      disposed = true;
+      cleanups.forEach((cleanup) => cleanup());
+    };
+  }, [controller, port, scrollback]);
+
+  // Aplica mudancas de tema/fonte sem recriar o terminal
+  const {
+    backgroundColor,
+    textColor,
+    cursorColor,
+    selectionColor,
+    fontFamily,
+    fontSize,
+    highContrast,
+  } = display;
+  useEffect(() => {
+    const term = termRef.current;
+    if (!term) return;
+    term.options.theme = buildTheme({ backgroundColor, textColor, cursorColor, selectionColor });
+    term.options.fontFamily = fontFamily ?? 'monospace';
+    term.options.fontSize = toFontSize(fontSize);
+    term.options.minimumContrastRatio = toContrastRatio(highContrast);
+  }, [backgroundColor, textColor, cursorColor, selectionColor, fontFamily, fontSize, highContrast]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      style={{
+        width: '100%',
+        height: '100%',
+        padding: 4,
+        boxSizing: 'border-box',
+        backgroundColor: backgroundColor ?? '#000',
+        ...style,
+      }}
+    />
+  );
+}
+
+export default SerialTerminal;
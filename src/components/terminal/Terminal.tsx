@@ -4,7 +4,10 @@ import {
   useLayoutEffect,
   useRef,
   useCallback,
+  useSyncExternalStore,
+  useId,
   type ReactNode,
+  type RefObject,
   type CSSProperties,
 } from 'react';
 import {
@@ -18,7 +21,33 @@ import {
   V86Controller,
   type WaitForScreenOptions,
   type ExecuteCommandOptions,
+  type StreamCommandOptions,
+  type CommandOutputChunk,
+  type WithCheckpointOptions,
 } from '../v86-wrapper/V86Controller';
+import type { CommandQueueState } from '../v86-wrapper/CommandQueue';
+import type { KeyboardLayout, KeyboardLayoutName } from '../v86-wrapper/keyboard';
+import {
+  DEFAULT_GUEST_EVENT_CHANNEL,
+  type GuestEvent,
+  type GuestEventChannel,
+} from '../v86-wrapper/guestEvents';
+import { V86Error } from '../v86-wrapper/errors';
+import { bindControllerToPort } from '../v86-wrapper/VMPool';
+import { getPreset, performLogin } from '../v86-wrapper/presets';
+import { runBootstrap, getBootstrapCacheKey, type BootstrapConfig } from '../v86-wrapper/bootstrap';
+import { getEmulatorConfigKey, type ResolvedEmulatorConfig } from '../v86-wrapper/emulatorOptions';
+import type { SnapshotMetadata } from '../v86-wrapper/SnapshotManager';
+import {
+  BootLifecycle,
+  IDLE_LIFECYCLE,
+  type LifecycleSnapshot,
+} from '../v86-wrapper/BootLifecycle';
+import { SerialTerminal } from './SerialTerminal';
+import { TerminalKeyboard } from './TerminalKeyboard';
+import { TerminalClipboard, type TerminalClipboardConfig } from './TerminalClipboard';
+import { TerminalAccessibility } from './TerminalAccessibility';
+import { useTerminalPool } from './TerminalProvider';
 import type { V86 } from '../../types/v86';
 
 // ============================================
@@ -50,8 +79,34 @@ export interface TerminalDisplayConfig {
   showBorder?: boolean;
   /** Border radius */
   borderRadius?: string | number;
+  /** Cor do cursor (modo serial) */
+  cursorColor?: string;
+  /** Cor da selecao (modo serial) */
+  selectionColor?: string;
+  /** Colunas fixas do terminal serial (padrao: ajusta ao container) */
+  cols?: number;
+  /** Linhas fixas do terminal serial (padrao: ajusta ao container) */
+  rows?: number;
+  /**
+   * Alto contraste: branco sobre preto, cursor e foco em amarelo, contraste
+   * minimo 7:1 no modo serial e tela VGA em tons de cinza clareados
+   */
+  highContrast?: boolean;
 }
 
+/**
+ * Modo de exibicao: tela VGA do v86 ou terminal ANSI ligado a serial0
+ */
+export type TerminalDisplayMode = 'vga' | 'serial';
+
+/**
+ * Quando o emulador inicia:
+ * - "eager": ao montar
+ * - "visible": quando o terminal entra na viewport
+ * - "interaction": no primeiro clique
+ */
+export type TerminalBootStrategy = 'eager' | 'visible' | 'interaction';
+
 export interface TerminalConfig {
   /** Preset de imagem (alpine, buildroot, linux4) */
   preset?: TerminalPreset;
@@ -75,30 +130,104 @@ export interface TerminalConfig {
   initialStateUrl?: string;
   /** Preservar MAC do state */
   preserveMacFromState?: boolean;
+  /**
+   * Usar o estado pre-gerado do preset (npm run build-v86-states), se compativel
+   * com a configuracao (padrao: true). Pula o boot e o bootstrap do preset.
+   */
+  prebuiltState?: boolean;
 
   // Recursos
-  /** Tamanho da memoria em MB (padrao: 128) */
+  /** Tamanho da memoria em MB (padrao: do preset ou 128) */
   memoryMB?: number;
-  /** Tamanho da memoria VGA em MB (padrao: 8) */
+  /** Tamanho da memoria VGA em MB (padrao: do preset ou 8) */
   vgaMemoryMB?: number;
 
   // Comportamento
   /** Iniciar automaticamente (padrao: true) */
   autostart?: boolean;
+  /** Quando criar o emulador (padrao: "eager") */
+  bootStrategy?: TerminalBootStrategy;
+  /**
+   * Pausar a VM (stop) quando o terminal sai da viewport e retomar (run) ao voltar
+   * Padrao: true quando bootStrategy nao e "eager".
+   */
+  suspendWhenHidden?: boolean;
+  /**
+   * Prompt que indica o fim do boot (estado "ready"), testado no fim do output
+   * serial e na linha do cursor da tela (padrao: readyPattern/prompt do preset
+   * ou o prompt do shell/"login:")
+   */
+  readyPattern?: string | RegExp;
+  /** Mostrar overlay com progresso do download e do boot (padrao: true) */
+  showBootOverlay?: boolean;
+  /**
+   * Tempo fora da viewport (ms) ate salvar o estado e destruir a VM
+   * O estado e restaurado quando o terminal volta a ficar visivel
+   * (no snapshot resumeKey, se definido, ou em memoria).
+   */
+  idleTimeout?: number;
   /** Habilitar teclado (padrao: true) */
   enableKeyboard?: boolean;
   /** Habilitar mouse (padrao: true) */
   enableMouse?: boolean;
+  /**
+   * Mapa de teclado do guest na tela VGA (ex: "br-abnt2")
+   * As teclas do browser sao traduzidas para esse mapa, com teclas mortas e IME.
+   * O guest precisa usar o mesmo mapa (ex: `loadkeys br-abnt2` no bootstrap).
+   * Sem esta opcao vale o teclado padrao do v86 (layout US).
+   */
+  keyboardLayout?: KeyboardLayoutName | KeyboardLayout;
+  /**
+   * Copiar e colar na tela VGA (padrao: true)
+   * Arrastar o mouse sobre o texto copia; colar envia o texto a VM pelo teclado
+   * (ou pela serial0), com limite de tamanho e confirmacao para muitas linhas.
+   */
+  clipboard?: boolean | TerminalClipboardConfig;
+  /**
+   * Modo acessivel (leitores de tela e navegacao so por teclado)
+   * Novas linhas sao anunciadas (aria-live), a transcricao da sessao fica em
+   * um painel navegavel, Tab entra no terminal e Esc seguido de Tab sai.
+   */
+  accessible?: boolean;
   /** Habilitar ACPI */
   acpi?: boolean;
   /** Habilitar virtio console */
   virtioConsole?: boolean;
   /** Habilitar virtio balloon */
   virtioBalloon?: boolean;
-  /** Desabilitar JIT */
+  /**
+   * Canal dos eventos estruturados do guest (padrao: serial3 se houver onGuestEvent)
+   * O canal virtio liga o virtio console (lido no guest pelo GuestAgent). O guest
+   * escreve com `v86_emit` (getGuestEventScript) e a pagina responde com
+   * controller.sendGuestEvent. Nao vale para terminais com `vm` (VM compartilhada):
+   * neles guestEvents e onGuestEvent sao ignorados, com um aviso no console.
+   */
+  guestEvents?: boolean | GuestEventChannel;
+  /**
+   * Desabilitar JIT
+   * Se o WebAssembly falhar, a nova tentativa (botao do painel de erro)
+   * desabilita o JIT automaticamente.
+   */
   disableJit?: boolean;
   /** Buscar bzimage/initrd do filesystem */
   bzimageInitrdFromFilesystem?: boolean;
+  /**
+   * Nome do snapshot (IndexedDB) para continuar de onde parou
+   * Restaurado ao iniciar e salvo quando a pagina fica oculta.
+   */
+  resumeKey?: string;
+  /**
+   * Gravar a sessao serial desde o boot (asciicast v2)
+   * Acesse a gravacao com controller.getRecorder().
+   */
+  record?: boolean;
+  /**
+   * Login, arquivos, variaveis e comandos executados uma vez apos o boot
+   * (padrao: bootstrap do preset). onReady so e chamado depois do bootstrap;
+   * com `cache`, o estado resultante e salvo e os proximos carregamentos
+   * pulam o boot. Ignorado com initialStateUrl (o estado ja esta pronto).
+   */
+  bootstrap?: BootstrapConfig;
 
   // Networking
   /** Configuracao de rede */
@@ -107,6 +236,19 @@ export interface TerminalConfig {
   // Display
   /** Configuracao visual */
   display?: TerminalDisplayConfig;
+  /** Modo de exibicao (padrao: "vga") */
+  displayMode?: TerminalDisplayMode;
+  /** Linhas de scrollback no modo serial (padrao: 5000) */
+  scrollback?: number;
+
+  // VM compartilhada
+  /**
+   * Chave de uma VM compartilhada (pool do TerminalProvider)
+   * Terminais com a mesma chave usam a mesma VM, cada um em seu shell
+   * (porta serial propria ou multiplexada). A configuracao do primeiro
+   * terminal cria a VM; ela e destruida quando o ultimo desmonta.
+   */
+  vm?: string;
 
   // Filesystem 9p
   /** Configuracao do filesystem 9p */
@@ -120,14 +262,18 @@ export interface TerminalConfig {
 }
 
 export interface TerminalCallbacks {
-  /** Chamado quando o emulador esta pronto */
+  /** Chamado quando o emulador esta pronto (depois do bootstrap, se houver) */
   onReady?: (controller: V86Controller) => void;
+  /** Chamado a cada mudanca de estado do ciclo de vida (e do progresso de download) */
+  onLifecycleChange?: (lifecycle: LifecycleSnapshot) => void;
   /** Chamado quando o emulador inicia */
   onStarted?: () => void;
   /** Chamado quando o emulador para */
   onStopped?: () => void;
   /** Chamado a cada caractere de saida serial */
   onSerialOutput?: (char: string) => void;
+  /** Chamado a cada evento estruturado do guest (ex: exercicio concluido) */
+  onGuestEvent?: (event: GuestEvent) => void;
   /** Chamado a cada caractere na tela (modo texto) */
   onScreenChar?: (data: [number, number, number, number, number]) => void;
   /** Chamado quando o tamanho da tela muda [cols, rows, ???] */
@@ -138,7 +284,11 @@ export interface TerminalCallbacks {
   onDownloadProgress?: (progress: { file_name: string; loaded: number; total: number }) => void;
   /** Chamado em caso de erro de download */
   onDownloadError?: (error: { file_name: string; error: Error }) => void;
-  /** Chamado em caso de erro */
+  /**
+   * Chamado em caso de erro
+   * Falhas do emulador chegam como V86Error (AssetNotFoundError,
+   * WasmUnsupportedError, OutOfMemoryError, JitFailedError, DownloadFailedError).
+   */
   onError?: (error: Error) => void;
 }
 
@@ -157,7 +307,9 @@ export interface TerminalProps extends TerminalConfig, TerminalCallbacks {
 // CONSTANTES E DEFAULTS
 // ============================================
 
-const DEFAULT_DISPLAY: Required<TerminalDisplayConfig> = {
+const DEFAULT_DISPLAY: Required<
+  Omit<TerminalDisplayConfig, 'cursorColor' | 'selectionColor' | 'cols' | 'rows'>
+> = {
   width: '100%',
   height: '400px',
   backgroundColor: '#000',
@@ -167,8 +319,369 @@ const DEFAULT_DISPLAY: Required<TerminalDisplayConfig> = {
   scale: 1,
   showBorder: true,
   borderRadius: 4,
+  highContrast: false,
+};
+
+// Sobrepoe as cores escolhidas quando display.highContrast esta ativo
+const HIGH_CONTRAST_DISPLAY: TerminalDisplayConfig = {
+  backgroundColor: '#000',
+  textColor: '#fff',
+  cursorColor: '#ffd60a',
+  selectionColor: 'rgba(255, 214, 10, 0.5)',
+};
+
+// Tela VGA: cores do guest viram cinza clareado (texto escuro sobre preto fica legivel)
+const HIGH_CONTRAST_SCREEN_FILTER = 'grayscale(1) brightness(1.8)';
+
+// Margem da viewport para iniciar/retomar um pouco antes do terminal aparecer
+const VISIBILITY_ROOT_MARGIN = '200px';
+
+// Backoff das novas tentativas apos erro (1s, 2s, 4s... ate 30s)
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+const ERROR_HINTS: Record<V86Error['code'], string> = {
+  AssetNotFound: 'Um arquivo necessario (BIOS ou imagem) nao foi encontrado no servidor.',
+  WasmUnsupported: 'WebAssembly esta desativado ou bloqueado neste navegador.',
+  OutOfMemory: 'Nao ha memoria suficiente. Feche outras abas ou use menos memoria (memoryMB).',
+  JitFailed: 'O navegador recusou o codigo gerado pelo JIT. A nova tentativa desativa o JIT.',
+  DownloadFailed: 'Falha ao baixar os arquivos do emulador. Verifique a conexao.',
+  InitFailed: 'O emulador nao conseguiu iniciar.',
 };
 
+// Tempo maximo esperando o prompt de login dos presets com login automatico
+const LOGIN_TIMEOUT_MS = 120000;
+
+// ============================================
+// CONFIGURACAO
+// ============================================
+
+/**
+ * Converte a config do Terminal para V86EmulatorConfig (filtrando undefined)
+ */
+function toEmulatorConfig({
+  memoryMB,
+  vgaMemoryMB,
+  displayMode = 'vga',
+  guestEvents,
+  ...config
+}: Omit<
+  TerminalConfig,
+  | 'display'
+  | 'enableKeyboard'
+  | 'enableMouse'
+  | 'keyboardLayout'
+  | 'clipboard'
+  | 'accessible'
+  | 'resumeKey'
+  | 'record'
+  | 'scrollback'
+  | 'vm'
+>): V86EmulatorConfig {
+  const guestEventChannel = resolveGuestEventChannel(guestEvents, false);
+  return Object.fromEntries(
+    Object.entries({
+      preset: config.preset,
+      cdromUrl: config.cdromUrl,
+      bzimageUrl: config.bzimageUrl,
+      initrdUrl: config.initrdUrl,
+      hdaUrl: config.hdaUrl,
+      hdbUrl: config.hdbUrl,
+      fdaUrl: config.fdaUrl,
+      cmdline: config.cmdline,
+      initialStateUrl: config.initialStateUrl,
+      preserveMacFromState: config.preserveMacFromState,
+      prebuiltState: config.prebuiltState,
+      // Omitidos: vale a memoria do preset (ou o default do emulador)
+      memorySize: memoryMB !== undefined ? memoryMB * 1024 * 1024 : undefined,
+      vgaMemorySize: vgaMemoryMB !== undefined ? vgaMemoryMB * 1024 * 1024 : undefined,
+      autostart: config.autostart,
+      acpi: config.acpi,
+      virtioConsole: guestEventChannel?.channel === 'virtio' || config.virtioConsole,
+      virtioBalloon: config.virtioBalloon,
+      disableJit: config.disableJit,
+      bzimageInitrdFromFilesystem: config.bzimageInitrdFromFilesystem,
+      network: config.network,
+      filesystem: config.filesystem,
+      bootstrap: config.bootstrap,
+      biosUrl: config.biosUrl,
+      vgaBiosUrl: config.vgaBiosUrl,
+      screen: displayMode === 'vga',
+    }).filter(([_, v]) => v !== undefined)
+  ) as V86EmulatorConfig;
+}
+
+/**
+ * Canal dos eventos do guest, ou null sem eventos
+ * Sem a opcao guestEvents, os eventos ficam ligados quando ha onGuestEvent.
+ */
+function resolveGuestEventChannel(
+  guestEvents: boolean | GuestEventChannel | undefined,
+  hasListener: boolean
+): GuestEventChannel | null {
+  if (typeof guestEvents === 'object') {
+    return guestEvents.channel === 'serial'
+      ? { ...DEFAULT_GUEST_EVENT_CHANNEL, ...guestEvents }
+      : guestEvents;
+  }
+  return (guestEvents ?? hasListener) ? DEFAULT_GUEST_EVENT_CHANNEL : null;
+}
+
+/**
+ * Prompt de fim de boot definido pelo preset registrado
+ */
+function getPresetReadyPattern(preset?: TerminalPreset): string | RegExp | undefined {
+  const definition = preset ? getPreset(preset) : undefined;
+  return definition?.readyPattern ?? definition?.prompt;
+}
+
+/**
+ * Executa o bootstrap, ou restaura o estado salvo apos um bootstrap anterior
+ */
+async function bootstrapSession(
+  controller: V86Controller,
+  lifecycle: BootLifecycle,
+  config: ResolvedEmulatorConfig & { bootstrap: BootstrapConfig }
+): Promise<void> {
+  const { bootstrap, preset } = config;
+  const definition = preset ? getPreset(preset) : undefined;
+  const snapshots = controller.getSnapshotManager({ preset });
+  const cacheKey = getBootstrapCacheKey(bootstrap, getEmulatorConfigKey(config), preset);
+
+  // Cache indisponivel (ex: sem IndexedDB) apenas faz o bootstrap completo
+  if (cacheKey && (await snapshots.has(cacheKey).catch(() => false))) {
+    await snapshots.restore(cacheKey);
+    lifecycle.markReady();
+    return;
+  }
+
+  await runBootstrap(
+    controller,
+    {
+      ...bootstrap,
+      login: bootstrap.login ?? definition?.login,
+      prompt: bootstrap.prompt ?? definition?.prompt,
+    },
+    config.screen ? 'screen' : 'serial'
+  );
+  lifecycle.markReady();
+
+  if (cacheKey) {
+    await snapshots.create(cacheKey, { thumbnail: false }).catch((err) => {
+      console.warn('Failed to cache bootstrap state:', err);
+    });
+  }
+}
+
+/**
+ * Login automatico dos presets que pedem usuario/senha
+ * Falha (prompt nao apareceu) nao impede o uso do terminal.
+ */
+function loginWithPreset(controller: V86Controller, preset?: TerminalPreset): void {
+  const login = preset ? getPreset(preset)?.login : undefined;
+  if (!login) return;
+
+  performLogin(controller, login, { timeout_msec: LOGIN_TIMEOUT_MS }).catch((err) => {
+    console.warn('Automatic login failed:', err);
+  });
+}
+
+/**
+ * Configuracao visual com os defaults (e as cores de alto contraste, se ativo)
+ */
+function mergeDisplayConfig(display: TerminalDisplayConfig) {
+  return {
+    ...DEFAULT_DISPLAY,
+    ...display,
+    ...(display.highContrast ? HIGH_CONTRAST_DISPLAY : {}),
+  };
+}
+
+/**
+ * Estilos do container a partir da configuracao visual
+ */
+function getContainerStyle(
+  displayConfig: typeof DEFAULT_DISPLAY,
+  style?: CSSProperties
+): CSSProperties {
+  return {
+    width: displayConfig.width,
+    height: displayConfig.height,
+    backgroundColor: displayConfig.backgroundColor,
+    color: displayConfig.textColor,
+    fontFamily: displayConfig.fontFamily,
+    fontSize:
+      typeof displayConfig.fontSize === 'number'
+        ? `${displayConfig.fontSize}px`
+        : displayConfig.fontSize,
+    border: displayConfig.highContrast
+      ? '2px solid #fff'
+      : displayConfig.showBorder
+        ? '1px solid #333'
+        : 'none',
+    borderRadius:
+      typeof displayConfig.borderRadius === 'number'
+        ? `${displayConfig.borderRadius}px`
+        : displayConfig.borderRadius,
+    overflow: 'hidden',
+    position: 'relative',
+    ...style,
+  };
+}
+
+/**
+ * Observa se o elemento esta na viewport (IntersectionObserver)
+ * Sem suporte a IntersectionObserver, o elemento e considerado visivel.
+ */
+function useVisibility(
+  ref: RefObject<HTMLElement | null>,
+  enabled: boolean,
+  onChange: (visible: boolean) => void
+) {
+  const onChangeRef = useRef(onChange);
+
+  useLayoutEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!enabled || !element) return;
+
+    if (typeof IntersectionObserver === 'undefined') {
+      onChangeRef.current(true);
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      ([entry]) => onChangeRef.current(entry.isIntersecting),
+      { rootMargin: VISIBILITY_ROOT_MARGIN }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref, enabled]);
+}
+
+/**
+ * Snapshot do ciclo de vida para render, notificando onChange a cada mudanca
+ */
+function useLifecycleSnapshot(
+  lifecycle: BootLifecycle,
+  onChange?: (snapshot: LifecycleSnapshot) => void
+): LifecycleSnapshot {
+  const onChangeRef = useRef(onChange);
+
+  useLayoutEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    return lifecycle.subscribe((snapshot) => onChangeRef.current?.(snapshot));
+  }, [lifecycle]);
+
+  const subscribe = useCallback(
+    (listener: () => void) => lifecycle.subscribe(listener),
+    [lifecycle]
+  );
+  const getSnapshot = useCallback(() => lifecycle.getSnapshot(), [lifecycle]);
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * Novas tentativas com backoff exponencial
+ * attempt conta as tentativas ja agendadas (use como key para recriar o emulador).
+ */
+function useRetry() {
+  const [attempt, setAttempt] = useState(0);
+  const [retrying, setRetrying] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const scheduleRetry = (onRetry: () => void) => {
+    if (timerRef.current) return;
+
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+    setRetrying(true);
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      setRetrying(false);
+      setAttempt((current) => current + 1);
+      onRetry();
+    }, delay);
+  };
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  return { attempt, retrying, scheduleRetry };
+}
+
+/**
+ * Painel de erro com dica e botao de nova tentativa
+ */
+function ErrorPanel({
+  error,
+  retrying,
+  onRetry,
+}: {
+  error: Error;
+  retrying: boolean;
+  onRetry: () => void;
+}) {
+  const hint = error instanceof V86Error ? ERROR_HINTS[error.code] : undefined;
+
+  return (
+    <div role="alert" style={{ color: '#ff6b6b' }}>
+      <strong>Erro ao inicializar terminal:</strong>
+      {hint && <p style={{ margin: '10px 0 0', color: '#ddd', fontSize: 13 }}>{hint}</p>}
+      <pre style={{ marginTop: 10, fontSize: 12, whiteSpace: 'pre-wrap' }}>{error.message}</pre>
+      <button
+        type="button"
+        onClick={onRetry}
+        disabled={retrying}
+        style={{
+          marginTop: 10,
+          padding: '4px 12px',
+          backgroundColor: '#333',
+          color: '#fff',
+          border: '1px solid #555',
+          borderRadius: 4,
+          cursor: retrying ? 'wait' : 'pointer',
+          fontSize: 12,
+        }}
+      >
+        {retrying ? 'Tentando novamente...' : '↻ Tentar novamente'}
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Placeholder exibido enquanto o emulador nao foi criado
+ */
+function BootPlaceholder({ onStart }: { onStart: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onStart}
+      style={{
+        width: '100%',
+        height: '100%',
+        background: 'none',
+        border: 'none',
+        color: 'inherit',
+        font: 'inherit',
+        cursor: 'pointer',
+        opacity: 0.7,
+      }}
+    >
+      ▶ Iniciar terminal
+    </button>
+  );
+}
+
 // ============================================
 // COMPONENTE PRINCIPAL
 // ============================================
@@ -193,10 +706,32 @@ const DEFAULT_DISPLAY: Required<TerminalDisplayConfig> = {
  * // Com networking
  * <Terminal
  *   preset="buildroot"
- *   network={{ type: "virtio", useFetch: true }}
+ *   network={{ mode: "fetch" }}
  * />
+ *
+ * @example
+ * // Inicia so quando o leitor chegar ao terminal; pausa fora da tela
+ * // e libera a VM apos 1 minuto escondido
+ * <Terminal preset="buildroot" bootStrategy="visible" idleTimeout={60000} />
+ *
+ * @example
+ * // Dois terminais no mesmo Linux (shells separados)
+ * <TerminalProvider>
+ *   <Terminal vm="capitulo-3" preset="buildroot" />
+ *   <Terminal vm="capitulo-3" />
+ * </TerminalProvider>
+ */
+export function Terminal(props: TerminalProps) {
+  if (props.vm) {
+    return <SharedTerminal {...props} vm={props.vm} />;
+  }
+  return <StandaloneTerminal {...props} />;
+}
+
+/**
+ * Terminal com VM propria (criada e destruida junto com o componente)
  */
-export function Terminal({
+function StandaloneTerminal({
   // Config
   preset,
   cdromUrl,
@@ -208,27 +743,44 @@ export function Terminal({
   cmdline,
   initialStateUrl,
   preserveMacFromState,
-  memoryMB = 128,
-  vgaMemoryMB = 8,
+  prebuiltState,
+  memoryMB,
+  vgaMemoryMB,
   autostart = true,
+  bootStrategy = 'eager',
+  suspendWhenHidden = bootStrategy !== 'eager',
+  idleTimeout,
+  readyPattern,
+  showBootOverlay = true,
   enableKeyboard = true,
   enableMouse = true,
+  keyboardLayout,
+  clipboard = true,
+  accessible = false,
   acpi,
   virtioConsole,
   virtioBalloon,
+  guestEvents,
   disableJit,
   bzimageInitrdFromFilesystem,
+  resumeKey,
+  record,
   network,
   filesystem,
+  bootstrap,
   display = {},
+  displayMode = 'vga',
+  scrollback,
   biosUrl,
   vgaBiosUrl,
 
   // Callbacks
   onReady,
+  onLifecycleChange,
   onStarted,
   onStopped,
   onSerialOutput,
+  onGuestEvent,
   onScreenChar,
   onScreenSetSize,
   onMouseEnable,
@@ -244,6 +796,20 @@ export function Terminal({
 }: TerminalProps) {
   const [controller] = useState(() => new V86Controller());
   const [error, setError] = useState<Error | null>(null);
+  const [active, setActive] = useState(bootStrategy === 'eager');
+  const [lifecycle] = useState(
+    () => new BootLifecycle({ readyPattern: readyPattern ?? getPresetReadyPattern(preset) })
+  );
+  const [jitFallback, setJitFallback] = useState(false);
+  const { attempt, retrying, scheduleRetry } = useRetry();
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Estado da suspensao por visibilidade
+  const suspendedRef = useRef(false);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const hibernatedRef = useRef(false);
+  const visibleRef = useRef(false);
+  const hibernatedStateRef = useRef<ArrayBuffer | null>(null);
 
   // Refs para callbacks (evita stale closures)
   // Inicializadas com os valores atuais das props
@@ -251,6 +817,7 @@ export function Terminal({
   const onStartedRef = useRef(onStarted);
   const onStoppedRef = useRef(onStopped);
   const onSerialOutputRef = useRef(onSerialOutput);
+  const onGuestEventRef = useRef(onGuestEvent);
   const onScreenCharRef = useRef(onScreenChar);
   const onScreenSetSizeRef = useRef(onScreenSetSize);
   const onMouseEnableRef = useRef(onMouseEnable);
@@ -265,6 +832,7 @@ export function Terminal({
     onStartedRef.current = onStarted;
     onStoppedRef.current = onStopped;
     onSerialOutputRef.current = onSerialOutput;
+    onGuestEventRef.current = onGuestEvent;
     onScreenCharRef.current = onScreenChar;
     onScreenSetSizeRef.current = onScreenSetSize;
     onMouseEnableRef.current = onMouseEnable;
@@ -274,44 +842,70 @@ export function Terminal({
   });
 
   // Merge display config com defaults
-  const displayConfig = { ...DEFAULT_DISPLAY, ...display };
+  const displayConfig = mergeDisplayConfig(display);
 
-  // Converter config para V86EmulatorConfig (filtrando undefined)
-  const v86Config: V86EmulatorConfig = Object.fromEntries(
-    Object.entries({
-      preset,
-      cdromUrl,
-      bzimageUrl,
-      initrdUrl,
-      hdaUrl,
-      hdbUrl,
-      fdaUrl,
-      cmdline,
-      initialStateUrl,
-      preserveMacFromState,
-      memorySize: memoryMB * 1024 * 1024,
-      vgaMemorySize: vgaMemoryMB * 1024 * 1024,
-      autostart,
-      acpi,
-      virtioConsole,
-      virtioBalloon,
-      disableJit,
-      bzimageInitrdFromFilesystem,
-      network,
-      filesystem,
-      biosUrl,
-      vgaBiosUrl,
-    }).filter(([_, v]) => v !== undefined)
-  ) as V86EmulatorConfig;
+  // Canal dos eventos do guest (lido no handleReady, como os callbacks)
+  const guestEventChannel = resolveGuestEventChannel(guestEvents, onGuestEvent !== undefined);
+  const guestEventChannelRef = useRef(guestEventChannel);
+  useLayoutEffect(() => {
+    guestEventChannelRef.current = guestEventChannel;
+  });
+
+  const v86Config = toEmulatorConfig({
+    preset,
+    cdromUrl,
+    bzimageUrl,
+    initrdUrl,
+    hdaUrl,
+    hdbUrl,
+    fdaUrl,
+    cmdline,
+    initialStateUrl,
+    preserveMacFromState,
+    prebuiltState,
+    memoryMB,
+    vgaMemoryMB,
+    autostart,
+    acpi,
+    virtioConsole,
+    virtioBalloon,
+    guestEvents: guestEventChannel ?? false,
+    disableJit: jitFallback || disableJit,
+    bzimageInitrdFromFilesystem,
+    network,
+    filesystem,
+    bootstrap,
+    biosUrl,
+    vgaBiosUrl,
+    displayMode,
+  });
+
+  // Mapa de teclado do guest (o controller guarda entre VMs)
+  const translateKeys = keyboardLayout !== undefined;
+  // Teclado padrao do v86 no modo acessivel: so com o foco no container
+  const gateKeyboard = accessible && enableKeyboard && displayMode === 'vga' && !translateKeys;
+  const helpId = useId();
+  useEffect(() => {
+    if (keyboardLayout) controller.setKeyboardLayout(keyboardLayout);
+  }, [controller, keyboardLayout]);
 
   // Handler quando o emulador esta pronto
   const handleReady = useCallback(
-    (emulator: V86) => {
+    (emulator: V86, config: ResolvedEmulatorConfig) => {
+      const fail = (err: unknown) => {
+        const error = err instanceof Error ? err : new Error(String(err));
+        lifecycle.handleError(error);
+        setError(error);
+        onErrorRef.current?.(error);
+      };
+
       try {
         controller.attach(emulator);
 
         // Aplicar configuracoes
-        if (!enableKeyboard) {
+        // Com keyboardLayout as teclas chegam pelo TerminalKeyboard
+        const keyboardGated = gateKeyboard && document.activeElement !== containerRef.current;
+        if (!enableKeyboard || translateKeys || keyboardGated) {
           controller.setKeyboardEnabled(false);
         }
         if (!enableMouse) {
@@ -320,36 +914,127 @@ export function Terminal({
         if (displayConfig.scale !== 1) {
           controller.setScreenScale(displayConfig.scale, displayConfig.scale);
         }
+        if (record) {
+          controller.startRecording({ title: preset });
+        }
+
+        // Eventos do guest (o listener sai no detach, junto com os demais)
+        if (guestEventChannelRef.current) {
+          controller.setGuestEventChannel(guestEventChannelRef.current);
+          controller.onGuestEvent((event) => onGuestEventRef.current?.(event));
+        }
+        // Com bootstrap o terminal so fica "ready" quando ele terminar
+        // (config efetiva: pode trazer o estado pre-gerado do preset)
+        const { initialStateUrl } = config;
+        const bootstrapConfig = initialStateUrl ? undefined : config.bootstrap;
+        lifecycle.setAutoReady(!bootstrapConfig);
+        // Estado inicial ja esta no shell: nao ha prompt novo para detectar
+        if (initialStateUrl) {
+          lifecycle.markReady();
+        }
+
+        // Volta do estado salvo ao destruir a VM por inatividade (idleTimeout)
+        const hibernatedState = hibernatedStateRef.current;
+        hibernatedStateRef.current = null;
+        if (hibernatedState) {
+          controller
+            .restoreState(hibernatedState)
+            .then(() => lifecycle.markReady())
+            .catch((err) => {
+              onErrorRef.current?.(err instanceof Error ? err : new Error(String(err)));
+            })
+            .finally(() => onReadyRef.current?.(controller));
+          return;
+        }
 
-        onReadyRef.current?.(controller);
+        // Continuar de onde parou: falha ao restaurar nao impede o uso do terminal
+        const resume = async () => {
+          if (!resumeKey) return false;
+          const snapshots = controller.getSnapshotManager({ preset });
+          try {
+            // Snapshot de outro preset (mesma resumeKey) nao serve para esta VM
+            const metadata = await snapshots.get(resumeKey);
+            if (!metadata || metadata.preset !== preset) return false;
+            await snapshots.restore(resumeKey);
+            lifecycle.markReady();
+            return true;
+          } catch (err) {
+            onErrorRef.current?.(err instanceof Error ? err : new Error(String(err)));
+            return false;
+          }
+        };
+
+        // Sessao nova: bootstrap (onReady so depois dele) ou login automatico do preset
+        const startSession = async () => {
+          if (bootstrapConfig) {
+            await bootstrapSession(controller, lifecycle, {
+              ...config,
+              bootstrap: bootstrapConfig,
+            });
+          } else if (!initialStateUrl) {
+            loginWithPreset(controller, preset);
+          }
+        };
+
+        resume()
+          .then(async (resumed) => {
+            if (!resumed) await startSession();
+            onReadyRef.current?.(controller);
+          })
+          .catch(fail);
       } catch (err) {
-        const error = err instanceof Error ? err : new Error(String(err));
-        setError(error);
-        onErrorRef.current?.(error);
+        fail(err);
       }
     },
-    [controller, enableKeyboard, enableMouse, displayConfig.scale]
+    [
+      controller,
+      lifecycle,
+      enableKeyboard,
+      translateKeys,
+      gateKeyboard,
+      enableMouse,
+      displayConfig.scale,
+      preset,
+      resumeKey,
+      record,
+    ]
   );
 
   // Handler de started
   const handleStarted = useCallback(() => {
+    lifecycle.handleStarted();
     onStartedRef.current?.();
-  }, []);
+  }, [lifecycle]);
 
   // Handler de stopped
   const handleStopped = useCallback(() => {
+    lifecycle.handleStopped();
     onStoppedRef.current?.();
-  }, []);
+  }, [lifecycle]);
+
+  // Linha do cursor na tela VGA (deteccao do prompt)
+  const getCursorLine = useCallback(() => {
+    const screen = controller.getTextScreenBuffer();
+    return screen.getLine(screen.getCursor().row).trimEnd();
+  }, [controller]);
 
   // Handler de screen char
-  const handleScreenChar = useCallback((data: [number, number, number, number, number]) => {
-    onScreenCharRef.current?.(data);
-  }, []);
+  const handleScreenChar = useCallback(
+    (data: [number, number, number, number, number]) => {
+      lifecycle.handleScreenOutput(getCursorLine);
+      onScreenCharRef.current?.(data);
+    },
+    [lifecycle, getCursorLine]
+  );
 
   // Handler de output serial
-  const handleSerialOutput = useCallback((char: string) => {
-    onSerialOutputRef.current?.(char);
-  }, []);
+  const handleSerialOutput = useCallback(
+    (char: string) => {
+      lifecycle.handleSerialOutput(char);
+      onSerialOutputRef.current?.(char);
+    },
+    [lifecycle]
+  );
 
   // Handler de tamanho de tela
   const handleScreenSetSize = useCallback((data: [number, number, number]) => {
@@ -364,69 +1049,401 @@ export function Terminal({
   // Handler de progresso de download
   const handleDownloadProgress = useCallback(
     (progress: { file_name: string; loaded: number; total: number }) => {
+      lifecycle.handleDownloadProgress(progress);
       onDownloadProgressRef.current?.(progress);
     },
-    []
+    [lifecycle]
   );
 
   // Handler de erro de download
-  const handleDownloadError = useCallback((error: { file_name: string; error: Error }) => {
-    onDownloadErrorRef.current?.(error);
-  }, []);
+  const handleDownloadError = useCallback(
+    (error: { file_name: string; error: Error }) => {
+      lifecycle.handleError(error.error);
+      onDownloadErrorRef.current?.(error);
+    },
+    [lifecycle]
+  );
+
+  // Handler de falha na inicializacao (erros tipados do V86Emulator)
+  const handleEmulatorError = useCallback(
+    (error: V86Error) => {
+      lifecycle.handleError(error);
+      setError(error);
+      onErrorRef.current?.(error);
+    },
+    [lifecycle]
+  );
+
+  // Nova tentativa: recria o emulador (sem JIT se ele falhou)
+  const handleRetry = () => {
+    scheduleRetry(() => {
+      if (error instanceof V86Error && error.code === 'JitFailed') {
+        setJitFallback(true);
+      }
+      if (controller.isAttached()) {
+        controller.detach();
+      }
+      lifecycle.reset();
+      setError(null);
+    });
+  };
+
+  // Estado do ciclo de vida (overlay e onLifecycleChange)
+  const lifecycleSnapshot = useLifecycleSnapshot(lifecycle, onLifecycleChange);
+
+  // Fila de comandos alterna entre "ready" e "running" (vale para todos os attach)
+  useEffect(
+    () => controller.onCommandQueueChange((queue) => lifecycle.handleQueueChange(queue)),
+    [controller, lifecycle]
+  );
+
+  useEffect(() => {
+    const pattern = readyPattern ?? getPresetReadyPattern(preset);
+    if (pattern) lifecycle.setReadyPattern(pattern);
+  }, [lifecycle, readyPattern, preset]);
+
+  // Salva o estado (snapshot resumeKey ou memoria) e destroi a VM
+  // Desiste se o terminal voltar a ficar visivel (ou for desmontado) durante o save
+  const hibernate = async () => {
+    if (!controller.isAttached()) return;
+
+    let state: ArrayBuffer | null = null;
+    if (resumeKey) {
+      await controller.getSnapshotManager({ preset }).create(resumeKey);
+    } else {
+      state = (await controller.saveState()) ?? null;
+    }
+    if (visibleRef.current || !controller.isAttached()) return;
+
+    if (!resumeKey) hibernatedStateRef.current = state;
+    hibernatedRef.current = true;
+    suspendedRef.current = false;
+    // Desmontar o V86Emulator destroi a instancia
+    controller.detach();
+    lifecycle.reset();
+    setActive(false);
+  };
+
+  // Boot sob demanda, suspensao fora da viewport e destruicao por inatividade
+  useVisibility(
+    containerRef,
+    bootStrategy === 'visible' || suspendWhenHidden || idleTimeout !== undefined,
+    (visible) => {
+      visibleRef.current = visible;
+      if (visible) {
+        if (idleTimerRef.current) {
+          clearTimeout(idleTimerRef.current);
+          idleTimerRef.current = null;
+        }
+        if (!controller.isAttached()) {
+          if (bootStrategy === 'visible' || hibernatedRef.current) {
+            hibernatedRef.current = false;
+            setActive(true);
+          }
+          return;
+        }
+        if (suspendedRef.current) {
+          suspendedRef.current = false;
+          controller.run();
+        }
+        return;
+      }
+
+      if (!controller.isAttached()) return;
+      if (suspendWhenHidden && controller.isRunning()) {
+        suspendedRef.current = true;
+        controller.stop().catch(console.error);
+      }
+      if (idleTimeout !== undefined && !idleTimerRef.current) {
+        idleTimerRef.current = setTimeout(() => {
+          idleTimerRef.current = null;
+          hibernate().catch((err) => {
+            onErrorRef.current?.(err instanceof Error ? err : new Error(String(err)));
+          });
+        }, idleTimeout);
+      }
+    }
+  );
+
+  // Salva o snapshot de resume quando a pagina fica oculta (troca de aba, fechamento)
+  useEffect(() => {
+    if (!resumeKey || typeof document === 'undefined') return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'hidden' || !controller.isAttached()) return;
+      controller
+        .getSnapshotManager({ preset })
+        .create(resumeKey)
+        .catch((err) => {
+          onErrorRef.current?.(err instanceof Error ? err : new Error(String(err)));
+        });
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [controller, preset, resumeKey]);
 
   // Cleanup
   useEffect(() => {
     return () => {
+      if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+      lifecycle.dispose();
       controller.destroy().catch(console.error);
     };
-  }, [controller]);
+  }, [controller, lifecycle]);
 
-  // Estilos do container
-  const containerStyle: CSSProperties = {
-    width: displayConfig.width,
-    height: displayConfig.height,
-    backgroundColor: displayConfig.backgroundColor,
-    color: displayConfig.textColor,
-    fontFamily: displayConfig.fontFamily,
-    fontSize:
-      typeof displayConfig.fontSize === 'number'
-        ? `${displayConfig.fontSize}px`
-        : displayConfig.fontSize,
-    border: displayConfig.showBorder ? '1px solid #333' : 'none',
-    borderRadius:
-      typeof displayConfig.borderRadius === 'number'
-        ? `${displayConfig.borderRadius}px`
-        : displayConfig.borderRadius,
-    overflow: 'hidden',
-    position: 'relative',
-    ...style,
+  const containerStyle = getContainerStyle(displayConfig, style);
+
+  if (error) {
+    return (
+      <div id={id} className={className} style={{ ...containerStyle, padding: 20 }}>
+        <ErrorPanel error={error} retrying={retrying} onRetry={handleRetry} />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      id={id}
+      className={className}
+      // Foco no container: teclado padrao do v86 (modo acessivel) e evento paste da tela VGA
+      tabIndex={gateKeyboard ? 0 : displayMode === 'vga' && clipboard !== false ? -1 : undefined}
+      role={accessible ? 'region' : undefined}
+      aria-label={accessible ? 'Terminal' : undefined}
+      aria-describedby={accessible ? helpId : undefined}
+      style={{ ...containerStyle, outline: 'none' }}
+    >
+      {active ? (
+        <>
+          <V86Emulator
+            key={attempt}
+            config={v86Config}
+            style={displayConfig.highContrast ? { filter: HIGH_CONTRAST_SCREEN_FILTER } : undefined}
+            onReady={handleReady}
+            onStarted={handleStarted}
+            onStopped={handleStopped}
+            onSerialOutput={handleSerialOutput}
+            onScreenPutChar={handleScreenChar}
+            onScreenSetSize={handleScreenSetSize}
+            onMouseEnable={handleMouseEnable}
+            onDownloadProgress={handleDownloadProgress}
+            onDownloadError={handleDownloadError}
+            onError={handleEmulatorError}
+          />
+          {displayMode === 'serial' && (
+            <SerialTerminal
+              controller={controller}
+              display={displayConfig}
+              scrollback={scrollback}
+            />
+          )}
+          {displayMode === 'vga' && translateKeys && (
+            <TerminalKeyboard
+              controller={controller}
+              enabled={enableKeyboard}
+              allowPaste={clipboard !== false}
+            />
+          )}
+          {displayMode === 'vga' && clipboard !== false && (
+            <TerminalClipboard
+              controller={controller}
+              enabled={enableKeyboard}
+              {...(clipboard === true ? {} : clipboard)}
+            />
+          )}
+          {accessible && (
+            <TerminalAccessibility
+              controller={controller}
+              source={displayMode === 'serial' ? 'serial' : 'screen'}
+              gateEmulatorKeyboard={gateKeyboard}
+              helpId={helpId}
+            />
+          )}
+          {showBootOverlay && <TerminalBootOverlay lifecycle={lifecycleSnapshot} />}
+        </>
+      ) : (
+        <BootPlaceholder onStart={() => setActive(true)} />
+      )}
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Terminal ligado a uma VM compartilhada do pool
+ * A VM nao tem tela VGA: cada view e um terminal serial. Callbacks de tela
+ * (onScreenChar, onScreenSetSize) e de ciclo de vida do emulador nao se aplicam.
+ * bootStrategy adia a abertura da sessao; a VM nao e suspensa por visibilidade
+ * porque outras views podem estar usando.
+ */
+function SharedTerminal({
+  vm,
+  bootStrategy = 'eager',
+  showBootOverlay = true,
+  display = {},
+  scrollback,
+  accessible = false,
+  onReady,
+  onLifecycleChange,
+  onSerialOutput,
+  onError,
+  className,
+  style,
+  children,
+  id,
+  ...config
+}: TerminalProps & { vm: string }) {
+  const pool = useTerminalPool();
+  const [session, setSession] = useState<{ controller: V86Controller; port: number } | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [active, setActive] = useState(bootStrategy === 'eager');
+  const [lifecycle] = useState(
+    () => new BootLifecycle({ readyPattern: getPresetReadyPattern(config.preset) })
+  );
+  const [jitFallback, setJitFallback] = useState(false);
+  const { attempt, retrying, scheduleRetry } = useRetry();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const helpId = useId();
+
+  // Eventos do guest nao passam pelo pool (as portas seriais sao das sessoes)
+  const wantsGuestEvents = Boolean(config.guestEvents || config.onGuestEvent);
+  useEffect(() => {
+    if (wantsGuestEvents) {
+      console.warn(`Terminal vm="${vm}": guestEvents/onGuestEvent are ignored on shared VMs`);
+    }
+  }, [vm, wantsGuestEvents]);
+
+  const onReadyRef = useRef(onReady);
+  const onSerialOutputRef = useRef(onSerialOutput);
+  const onErrorRef = useRef(onError);
+  // A configuracao so e usada quando a VM ainda nao existe no pool
+  const configRef = useRef(config);
+
+  useLayoutEffect(() => {
+    onReadyRef.current = onReady;
+    onSerialOutputRef.current = onSerialOutput;
+    onErrorRef.current = onError;
+    configRef.current = config;
+  });
+
+  useVisibility(containerRef, !active && bootStrategy === 'visible', (visible) => {
+    if (visible) setActive(true);
+  });
+
+  // Abre uma sessao na VM (liberada ao desmontar)
+  useEffect(() => {
+    if (!active) return;
+
+    const { disableJit } = configRef.current;
+    const vmSession = pool.acquire(
+      vm,
+      toEmulatorConfig({
+        ...configRef.current,
+        guestEvents: false,
+        disableJit: jitFallback || disableJit,
+      })
+    );
+    let cancelled = false;
+    let removeQueueListener: (() => void) | undefined;
+    const fail = (err: unknown) => {
+      if (cancelled) return;
+      const error = err instanceof Error ? err : new Error(String(err));
+      lifecycle.handleError(error);
+      setError(error);
+      onErrorRef.current?.(error);
+    };
+    // Falha depois de pronta (ex: JIT): a VM ja saiu do pool, a nova tentativa cria outra
+    const removeFailureListener = vmSession.onFailure(fail);
+    // Downloads e boot acontecem no pool: a sessao so informa quando o shell esta pronto
+    lifecycle.handleStarted();
+
+    vmSession.ready
+      .then((controller) => {
+        if (cancelled) return;
+        removeQueueListener = controller.onCommandQueueChange(
+          (queue) => lifecycle.handleQueueChange(queue),
+          vmSession.port
+        );
+        lifecycle.markReady();
+        setSession({ controller, port: vmSession.port });
+        // Quem usa o onReady fala com o shell desta sessao, nao com a serial0
+        onReadyRef.current?.(bindControllerToPort(controller, vmSession.port));
+      })
+      .catch(fail);
+
+    return () => {
+      cancelled = true;
+      removeQueueListener?.();
+      removeFailureListener();
+      lifecycle.reset();
+      setSession(null);
+      vmSession.release();
+    };
+    // attempt: nova tentativa apos erro (a VM que falhou ja saiu do pool)
+  }, [pool, vm, active, lifecycle, attempt, jitFallback]);
+
+  const lifecycleSnapshot = useLifecycleSnapshot(lifecycle, onLifecycleChange);
+
+  // Output serial da porta da sessao
+  useEffect(() => {
+    if (!session) return;
+    return session.controller.onSerialPortOutput(session.port, (char) => {
+      onSerialOutputRef.current?.(char);
+    });
+  }, [session]);
+
+  const handleRetry = () => {
+    scheduleRetry(() => {
+      if (error instanceof V86Error && error.code === 'JitFailed') {
+        setJitFallback(true);
+      }
+      setError(null);
+    });
   };
 
+  const displayConfig = mergeDisplayConfig(display);
+  const containerStyle = getContainerStyle(displayConfig, style);
+
   if (error) {
     return (
       <div id={id} className={className} style={{ ...containerStyle, padding: 20 }}>
-        <div style={{ color: '#ff6b6b' }}>
-          <strong>Erro ao inicializar terminal:</strong>
-          <pre style={{ marginTop: 10, fontSize: 12 }}>{error.message}</pre>
-        </div>
+        <ErrorPanel error={error} retrying={retrying} onRetry={handleRetry} />
       </div>
     );
   }
 
   return (
-    <div id={id} className={className} style={containerStyle}>
-      <V86Emulator
-        config={v86Config}
-        onReady={handleReady}
-        onStarted={handleStarted}
-        onStopped={handleStopped}
-        onSerialOutput={handleSerialOutput}
-        onScreenPutChar={handleScreenChar}
-        onScreenSetSize={handleScreenSetSize}
-        onMouseEnable={handleMouseEnable}
-        onDownloadProgress={handleDownloadProgress}
-        onDownloadError={handleDownloadError}
-      />
+    <div
+      ref={containerRef}
+      id={id}
+      className={className}
+      role={accessible ? 'region' : undefined}
+      aria-label={accessible ? 'Terminal' : undefined}
+      aria-describedby={accessible ? helpId : undefined}
+      style={containerStyle}
+    >
+      {active ? (
+        <>
+          <SerialTerminal
+            controller={session?.controller ?? null}
+            port={session?.port}
+            display={displayConfig}
+            scrollback={scrollback}
+          />
+          {accessible && (
+            <TerminalAccessibility
+              controller={session?.controller ?? null}
+              source="serial"
+              port={session?.port}
+              helpId={helpId}
+            />
+          )}
+          {showBootOverlay && <TerminalBootOverlay lifecycle={lifecycleSnapshot} />}
+        </>
+      ) : (
+        <BootPlaceholder onStart={() => setActive(true)} />
+      )}
       {children}
     </div>
   );
@@ -440,10 +1457,12 @@ export function Terminal({
  * Hook para controlar o terminal programaticamente
  *
  * @example
- * const { controller, isReady, sendCommand } = useTerminal();
+ * const { controller, isReady, sendCommand, state, handleReady, handleLifecycleChange } =
+ *   useTerminal();
  *
- * // Usar em onReady do Terminal
- * <Terminal onReady={(ctrl) => controller.current = ctrl} />
+ * // Usar em onReady/onLifecycleChange do Terminal
+ * <Terminal onReady={handleReady} onLifecycleChange={handleLifecycleChange} />
+ * // state: idle | downloading | booting | ready | running | stopped | error
  *
  * // Depois usar
  * await sendCommand("ls -la");
@@ -452,6 +1471,7 @@ export function useTerminal() {
   const controllerRef = useRef<V86Controller | null>(null);
   const [isReady, setIsReady] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
+  const [lifecycle, setLifecycle] = useState<LifecycleSnapshot>(IDLE_LIFECYCLE);
 
   const handleReady = useCallback((controller: V86Controller) => {
     controllerRef.current = controller;
@@ -459,6 +1479,10 @@ export function useTerminal() {
     setIsRunning(controller.isRunning());
   }, []);
 
+  const handleLifecycleChange = useCallback((snapshot: LifecycleSnapshot) => {
+    setLifecycle(snapshot);
+  }, []);
+
   const sendCommand = useCallback(async (command: string, options?: ExecuteCommandOptions) => {
     if (!controllerRef.current) {
       throw new Error('Terminal not ready');
@@ -466,6 +1490,23 @@ export function useTerminal() {
     return controllerRef.current.executeCommand(command, options);
   }, []);
 
+  const runCommand = useCallback(async (command: string, options?: ExecuteCommandOptions) => {
+    if (!controllerRef.current) {
+      throw new Error('Terminal not ready');
+    }
+    return controllerRef.current.runCommand(command, options);
+  }, []);
+
+  const runCommandWithStderr = useCallback(
+    async (command: string, options?: StreamCommandOptions) => {
+      if (!controllerRef.current) {
+        throw new Error('Terminal not ready');
+      }
+      return controllerRef.current.runCommandWithStderr(command, options);
+    },
+    []
+  );
+
   const executeAndWait = useCallback(
     async (command: string, waitFor: string | RegExp, options?: WaitForScreenOptions) => {
       if (!controllerRef.current) {
@@ -526,6 +1567,33 @@ export function useTerminal() {
     return controllerRef.current.loadState(state);
   }, []);
 
+  const checkpoint = useCallback(async (label: string) => {
+    if (!controllerRef.current) {
+      throw new Error('Terminal not ready');
+    }
+    return controllerRef.current.checkpoint(label);
+  }, []);
+
+  const rollback = useCallback(async (label: string) => {
+    if (!controllerRef.current) {
+      throw new Error('Terminal not ready');
+    }
+    return controllerRef.current.rollback(label);
+  }, []);
+
+  const withCheckpoint = useCallback(
+    async <T,>(
+      fn: (controller: V86Controller) => Promise<T>,
+      options?: WithCheckpointOptions<T>
+    ) => {
+      if (!controllerRef.current) {
+        throw new Error('Terminal not ready');
+      }
+      return controllerRef.current.withCheckpoint(fn, options);
+    },
+    []
+  );
+
   const restart = useCallback(async () => {
     if (!controllerRef.current) {
       throw new Error('Terminal not ready');
@@ -563,8 +1631,15 @@ export function useTerminal() {
     isReady,
     isRunning,
     handleReady,
+    // Lifecycle (passe handleLifecycleChange em onLifecycleChange)
+    lifecycle,
+    state: lifecycle.state,
+    progress: lifecycle.progress,
+    handleLifecycleChange,
     // Execution
     sendCommand,
+    runCommand,
+    runCommandWithStderr,
     executeAndWait,
     sendText,
     sendKeyboardText,
@@ -579,6 +1654,9 @@ export function useTerminal() {
     // State
     saveState,
     loadState,
+    checkpoint,
+    rollback,
+    withCheckpoint,
     // Control
     restart,
     stop,
@@ -616,10 +1694,80 @@ export function useSerialOutput(maxLength = 10000) {
   return { output, append, clear };
 }
 
+/**
+ * Hook para acumular output de comandos com stdout/stderr separados
+ *
+ * @example
+ * const { chunks, append, clear } = useCommandOutput();
+ * await runCommandWithStderr("gcc main.c", { onChunk: append });
+ * <CommandOutput chunks={chunks} />
+ */
+export function useCommandOutput(maxChunks = 1000) {
+  const [chunks, setChunks] = useState<CommandOutputChunk[]>([]);
+
+  const append = useCallback(
+    (chunk: CommandOutputChunk) => {
+      setChunks((prev) => {
+        const next = [...prev, chunk];
+        return next.length > maxChunks ? next.slice(-maxChunks) : next;
+      });
+    },
+    [maxChunks]
+  );
+
+  const clear = useCallback(() => {
+    setChunks([]);
+  }, []);
+
+  return { chunks, append, clear };
+}
+
 // ============================================
 // COMPONENTES AUXILIARES
 // ============================================
 
+export interface CommandOutputProps {
+  chunks: CommandOutputChunk[];
+  /** Cor do stdout (padrao: herdada) */
+  stdoutColor?: string;
+  /** Cor do stderr (padrao: #ff6b6b) */
+  stderrColor?: string;
+  style?: CSSProperties;
+}
+
+/**
+ * Exibe o output de um comando com o stderr destacado
+ * Pensado para ficar abaixo de um CodeEditorBlock mostrando erros de compilacao
+ *
+ * @example
+ * <CommandOutput chunks={chunks} />
+ */
+export function CommandOutput({
+  chunks,
+  stdoutColor,
+  stderrColor = '#ff6b6b',
+  style,
+}: CommandOutputProps) {
+  return (
+    <pre
+      style={{
+        margin: 0,
+        padding: 10,
+        whiteSpace: 'pre-wrap',
+        fontFamily: 'monospace',
+        fontSize: 13,
+        ...style,
+      }}
+    >
+      {chunks.map((chunk, index) => (
+        <span key={index} style={{ color: chunk.stream === 'stderr' ? stderrColor : stdoutColor }}>
+          {chunk.data}
+        </span>
+      ))}
+    </pre>
+  );
+}
+
 export interface TerminalOverlayProps {
   children: ReactNode;
   position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
@@ -659,12 +1807,117 @@ export function TerminalOverlay({ children, position = 'top-right', style }: Ter
   );
 }
 
+export interface TerminalBootOverlayProps {
+  /** Estado do ciclo de vida (onLifecycleChange ou useTerminal().lifecycle) */
+  lifecycle: LifecycleSnapshot;
+  style?: CSSProperties;
+}
+
+const BOOT_OVERLAY_LABELS: Partial<Record<LifecycleSnapshot['state'], string>> = {
+  idle: 'Preparando...',
+  downloading: 'Baixando imagens...',
+  booting: 'Iniciando o sistema...',
+  error: 'Falha ao iniciar',
+};
+
+/**
+ * Overlay com o progresso do download e do boot
+ * Exibido pelo Terminal por padrao ate o prompt aparecer (showBootOverlay).
+ *
+ * @example
+ * const { lifecycle, handleLifecycleChange } = useTerminal();
+ *
+ * <Terminal showBootOverlay={false} onLifecycleChange={handleLifecycleChange}>
+ *   <TerminalBootOverlay lifecycle={lifecycle} />
+ * </Terminal>
+ */
+export function TerminalBootOverlay({ lifecycle, style }: TerminalBootOverlayProps) {
+  const { state, progress, error } = lifecycle;
+  const label = BOOT_OVERLAY_LABELS[state];
+  if (!label) {
+    return null;
+  }
+
+  const percent = Math.round(progress.ratio * 100);
+  // Downloads concluidos: o boot nao tem progresso mensuravel
+  const showBar = state === 'downloading' || (state === 'idle' && progress.total > 0);
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      style={{
+        position: 'absolute',
+        inset: 0,
+        zIndex: 5,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        backgroundColor: 'rgba(0, 0, 0, 0.75)',
+        color: '#fff',
+        fontFamily: 'system-ui, sans-serif',
+        fontSize: 13,
+        pointerEvents: 'none',
+        ...style,
+      }}
+    >
+      <span style={{ color: state === 'error' ? '#ff6b6b' : undefined }}>{label}</span>
+      {showBar && (
+        <>
+          <div
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+            style={{
+              width: '60%',
+              maxWidth: 320,
+              height: 6,
+              backgroundColor: '#333',
+              borderRadius: 3,
+              overflow: 'hidden',
+            }}
+          >
+            <div
+              style={{
+                width: `${percent}%`,
+                height: '100%',
+                backgroundColor: '#4ade80',
+                transition: 'width 0.2s',
+              }}
+            />
+          </div>
+          <span style={{ fontSize: 11, opacity: 0.7 }}>
+            {progress.total > 0
+              ? `${formatBytes(progress.loaded)} / ${formatBytes(progress.total)} (${percent}%)`
+              : formatBytes(progress.loaded)}
+          </span>
+        </>
+      )}
+      {error && <span style={{ fontSize: 11, opacity: 0.7 }}>{error.message}</span>}
+    </div>
+  );
+}
+
 export interface TerminalControlsProps {
   controller: V86Controller | null;
   showRestart?: boolean;
   showFullscreen?: boolean;
   showScreenshot?: boolean;
+  /** Salva um snapshot nomeado no IndexedDB (padrao: true) */
   showSaveState?: boolean;
+  /** Baixa o estado como arquivo .bin (padrao: false) */
+  showDownloadState?: boolean;
+  /** Chamado apos salvar um snapshot pelo botao 💾 */
+  onSnapshotSaved?: (snapshot: SnapshotMetadata) => void;
+  /** Chamado quando salvar ou baixar o estado falha (ex: cota do IndexedDB) */
+  onError?: (error: Error) => void;
+  /** Preset gravado nos snapshots salvos (o mesmo do Terminal) */
+  preset?: TerminalPreset;
+  /** Gravar sessao; ao parar baixa um arquivo .cast (padrao: false) */
+  showRecord?: boolean;
   style?: CSSProperties;
 }
 
@@ -686,8 +1939,16 @@ export function TerminalControls({
   showFullscreen = true,
   showScreenshot = true,
   showSaveState = true,
+  showDownloadState = false,
+  onSnapshotSaved,
+  onError,
+  preset,
+  showRecord = false,
   style,
 }: TerminalControlsProps) {
+  const [recording, setRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
   const buttonStyle: CSSProperties = {
     padding: '4px 8px',
     marginLeft: 4,
@@ -699,9 +1960,41 @@ export function TerminalControls({
     fontSize: 12,
   };
 
-  const handleSaveState = async () => {
-    if (controller) {
-      await controller.downloadState(`v86-state-${Date.now()}.bin`);
+  // Falhas de salvar/baixar aparecem ao lado dos botoes (e no console)
+  const run = (action: () => Promise<void>) => {
+    setError(null);
+    action().catch((err) => {
+      console.error(err);
+      const failure = err instanceof Error ? err : new Error(String(err));
+      setError(failure.message);
+      onError?.(failure);
+    });
+  };
+
+  const handleSaveState = () =>
+    run(async () => {
+      if (controller) {
+        const name = `snapshot-${new Date().toISOString()}`;
+        const snapshot = await controller.getSnapshotManager({ preset }).create(name);
+        onSnapshotSaved?.(snapshot);
+      }
+    });
+
+  const handleDownloadState = () =>
+    run(async () => {
+      if (controller) {
+        await controller.downloadState(`v86-state-${Date.now()}.bin`);
+      }
+    });
+
+  const handleToggleRecord = () => {
+    if (!controller) return;
+    if (recording) {
+      controller.stopRecording()?.download(`session-${Date.now()}.cast`);
+      setRecording(false);
+    } else {
+      controller.startRecording();
+      setRecording(true);
     }
   };
 
@@ -723,10 +2016,224 @@ export function TerminalControls({
         </button>
       )}
       {showSaveState && (
-        <button style={buttonStyle} onClick={handleSaveState} title="Save State">
+        <button style={buttonStyle} onClick={handleSaveState} title="Save Snapshot">
           💾
         </button>
       )}
+      {showDownloadState && (
+        <button style={buttonStyle} onClick={handleDownloadState} title="Download State">
+          ⬇
+        </button>
+      )}
+      {showRecord && (
+        <button
+          style={buttonStyle}
+          onClick={handleToggleRecord}
+          title={recording ? 'Stop Recording' : 'Record Session'}
+        >
+          {recording ? '⏹' : '⏺'}
+        </button>
+      )}
+      {error && (
+        <span role="alert" style={{ alignSelf: 'center', color: '#f88', fontSize: 12 }}>
+          {error}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export interface TerminalSnapshotsProps {
+  controller: V86Controller | null;
+  /** Exibir apenas snapshots deste preset */
+  preset?: TerminalPreset;
+  style?: CSSProperties;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(0)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Lista de snapshots salvos com opcoes de restaurar e remover
+ *
+ * @example
+ * <Terminal onReady={handleReady}>
+ *   <TerminalOverlay position="bottom-left">
+ *     <TerminalSnapshots controller={controller.current} preset="buildroot" />
+ *   </TerminalOverlay>
+ * </Terminal>
+ */
+export function TerminalSnapshots({ controller, preset, style }: TerminalSnapshotsProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotMetadata[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!controller) return;
+
+    const manager = controller.getSnapshotManager({ preset });
+    let cancelled = false;
+    const refresh = () => {
+      manager
+        .list(preset)
+        .then((list) => {
+          if (!cancelled) setSnapshots(list);
+        })
+        .catch(console.error);
+    };
+
+    refresh();
+    const unsubscribe = manager.onChange(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [controller, preset]);
+
+  const buttonStyle: CSSProperties = {
+    padding: '2px 6px',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: '1px solid #555',
+    borderRadius: 4,
+    cursor: 'pointer',
+    fontSize: 12,
+  };
+
+  // Falhas de restaurar/remover aparecem na lista (e no console)
+  const run = (action: () => Promise<void>) => {
+    setError(null);
+    action().catch((err) => {
+      console.error(err);
+      setError(err instanceof Error ? err.message : String(err));
+    });
+  };
+
+  if (!controller || snapshots.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul
+      style={{
+        listStyle: 'none',
+        margin: 0,
+        padding: 4,
+        maxHeight: 240,
+        overflowY: 'auto',
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        color: '#fff',
+        border: '1px solid #555',
+        borderRadius: 4,
+        fontSize: 12,
+        ...style,
+      }}
+    >
+      {snapshots.map((snapshot) => (
+        <li
+          key={snapshot.name}
+          style={{ display: 'flex', alignItems: 'center', gap: 6, padding: 2 }}
+        >
+          {snapshot.thumbnail && (
+            <img src={snapshot.thumbnail} alt="" width={48} style={{ borderRadius: 2 }} />
+          )}
+          <span style={{ flex: 1 }} title={new Date(snapshot.createdAt).toLocaleString()}>
+            {snapshot.name}
+            <br />
+            <small style={{ color: '#aaa' }}>{formatBytes(snapshot.storedSize)}</small>
+          </span>
+          <button
+            style={buttonStyle}
+            onClick={() =>
+              run(() => controller.getSnapshotManager({ preset }).restore(snapshot.name))
+            }
+            title="Restore Snapshot"
+          >
+            ▶
+          </button>
+          <button
+            style={buttonStyle}
+            onClick={() =>
+              run(() => controller.getSnapshotManager({ preset }).delete(snapshot.name))
+            }
+            title="Delete Snapshot"
+          >
+            🗑
+          </button>
+        </li>
+      ))}
+      {error && (
+        <li role="alert" style={{ padding: 2, color: '#f88' }}>
+          {error}
+        </li>
+      )}
+    </ul>
+  );
+}
+
+export interface TerminalQueueStatusProps {
+  controller: V86Controller | null;
+  /** Porta serial cuja fila sera exibida (padrao: 0) */
+  port?: number;
+  /** Esconder quando nao ha comandos pendentes (padrao: true) */
+  hideWhenIdle?: boolean;
+  style?: CSSProperties;
+}
+
+const IDLE_QUEUE_STATE: CommandQueueState = { port: 0, running: null, pending: [] };
+
+/**
+ * Indicador da fila de comandos do terminal
+ * Util quando varios widgets da pagina compartilham a mesma VM
+ *
+ * @example
+ * <Terminal onReady={handleReady}>
+ *   <TerminalOverlay position="bottom-right">
+ *     <TerminalQueueStatus controller={controller.current} />
+ *   </TerminalOverlay>
+ * </Terminal>
+ */
+export function TerminalQueueStatus({
+  controller,
+  port = 0,
+  hideWhenIdle = true,
+  style,
+}: TerminalQueueStatusProps) {
+  const subscribe = useCallback(
+    (onChange: () => void) => controller?.onCommandQueueChange(onChange, port) ?? (() => {}),
+    [controller, port]
+  );
+  const getSnapshot = useCallback(
+    () => controller?.getCommandQueueState(port) ?? IDLE_QUEUE_STATE,
+    [controller, port]
+  );
+  const state = useSyncExternalStore(subscribe, getSnapshot, () => IDLE_QUEUE_STATE);
+
+  const pendingCount = state.pending.length;
+  if (hideWhenIdle && !state.running && pendingCount === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      title={state.running?.label}
+      style={{
+        padding: '4px 8px',
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        color: '#fff',
+        border: '1px solid #555',
+        borderRadius: 4,
+        fontSize: 12,
+        fontFamily: 'monospace',
+        ...style,
+      }}
+    >
+      {state.running ? '⏳ ' : ''}
+      {pendingCount === 1 ? '1 comando pendente' : `${pendingCount} comandos pendentes`}
     </div>
   );
 }
@@ -736,25 +2243,36 @@ export function TerminalControls({
 // ============================================
 
 /**
- * Terminal Alpine Linux pré-configurado
+ * Cria um Terminal fixo em um preset registrado (registerPreset)
+ *
+ * @example
+ * registerPreset("buildroot-gcc", { bzimageUrl: "/images/buildroot-gcc.bin" });
+ * export const GccTerminal = createPresetTerminal("buildroot-gcc");
+ *
+ * <GccTerminal bootStrategy="visible" />
  */
-export function AlpineTerminal(props: Omit<TerminalProps, 'preset'>) {
-  return <Terminal {...props} preset="alpine" />;
+export function createPresetTerminal(preset: TerminalPreset) {
+  function PresetTerminal(props: Omit<TerminalProps, 'preset'>) {
+    return <Terminal {...props} preset={preset} />;
+  }
+  PresetTerminal.displayName = `PresetTerminal(${preset})`;
+  return PresetTerminal;
 }
 
+/**
+ * Terminal Alpine Linux pré-configurado
+ */
+export const AlpineTerminal = createPresetTerminal('alpine');
+
 /**
  * Terminal Buildroot (BusyBox) pré-configurado - boot mais rápido
  */
-export function BuildrootTerminal(props: Omit<TerminalProps, 'preset'>) {
-  return <Terminal {...props} preset="buildroot" />;
-}
+export const BuildrootTerminal = createPresetTerminal('buildroot');
 
 /**
  * Terminal Linux4 pré-configurado - menor tamanho
  */
-export function Linux4Terminal(props: Omit<TerminalProps, 'preset'>) {
-  return <Terminal {...props} preset="linux4" />;
-}
+export const Linux4Terminal = createPresetTerminal('linux4');
 
 // Export default
 export default Terminal;
@@ -0,0 +1,255 @@
+import { useEffect, useId, useRef, useState, type CSSProperties } from 'react';
+import type { V86Controller } from '../v86-wrapper/V86Controller';
+import { watchScreenLines, watchSerialLines } from '../v86-wrapper/transcript';
+
+// ============================================
+// TIPOS
+// ============================================
+
+export interface TerminalAccessibilityProps {
+  /** Controller da VM */
+  controller: V86Controller | null;
+  /** Origem das linhas: tela VGA em modo texto ou porta serial (padrao: "screen") */
+  source?: 'screen' | 'serial';
+  /** Porta serial lida com source="serial" (padrao: 0) */
+  port?: number;
+  /** Linhas guardadas na transcricao (padrao: 1000) */
+  maxTranscriptLines?: number;
+  /**
+   * Liberar o teclado padrao do v86 (que escuta a pagina inteira) apenas
+   * enquanto o proprio container tiver o foco (padrao: false)
+   */
+  gateEmulatorKeyboard?: boolean;
+  /** id do texto de ajuda, para o aria-describedby do container */
+  helpId?: string;
+}
+
+interface TranscriptLine {
+  id: number;
+  text: string;
+}
+
+// Linhas mantidas na regiao aria-live (as novas sao anunciadas)
+const LIVE_LINES = 5;
+// Tempo maximo entre Esc e Tab para sair do terminal
+const ESCAPE_FOCUS_WINDOW_MS = 1000;
+
+// Visivel apenas para leitores de tela
+const VISUALLY_HIDDEN: CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  border: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+};
+
+const BUTTON_STYLE: CSSProperties = {
+  padding: '2px 10px',
+  backgroundColor: '#000',
+  color: '#fff',
+  border: '1px solid #fff',
+  borderRadius: 4,
+  cursor: 'pointer',
+  fontFamily: 'system-ui, sans-serif',
+  fontSize: 12,
+};
+
+// Instrucoes lidas ao entrar no terminal (aria-describedby do container)
+const KEYBOARD_HELP =
+  'As teclas vao para a maquina virtual. Para sair do terminal, pressione Esc e depois Tab. ' +
+  'As novas linhas sao lidas automaticamente; a transcricao completa fica no botao Transcricao.';
+
+// ============================================
+// COMPONENTE
+// ============================================
+
+/**
+ * Camada de acessibilidade do terminal
+ * - Regiao aria-live com as novas linhas da tela ou da serial
+ * - Transcricao navegavel da sessao (lista de linhas)
+ * - Esc seguido de Tab tira o foco do terminal (o Tab nao vai para a VM)
+ * - Indicador de foco visivel
+ * Deve ficar dentro do container do terminal (elemento pai), que precisa
+ * receber foco pelo teclado (tabIndex={0}).
+ *
+ * @example
+ * <Terminal preset="buildroot" accessible />
+ *
+ * // Ou manualmente:
+ * <div tabIndex={0} aria-describedby="ajuda" style={{ position: "relative" }}>
+ *   <V86Emulator config={config} onReady={(emulator) => controller.attach(emulator)} />
+ *   <TerminalAccessibility controller={controller} gateEmulatorKeyboard helpId="ajuda" />
+ * </div>
+ */
+export function TerminalAccessibility({
+  controller,
+  source = 'screen',
+  port = 0,
+  maxTranscriptLines = 1000,
+  gateEmulatorKeyboard = false,
+  helpId,
+}: TerminalAccessibilityProps) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const toggleRef = useRef<HTMLButtonElement>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const nextIdRef = useRef(0);
+  const [transcript, setTranscript] = useState<TranscriptLine[]>([]);
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const transcriptId = useId();
+
+  // Linhas novas: transcricao e regiao aria-live
+  useEffect(() => {
+    if (!controller) return;
+
+    const addLine = (text: string) => {
+      const line = { id: nextIdRef.current++, text };
+      setTranscript((lines) => [...lines, line].slice(-maxTranscriptLines));
+    };
+    return source === 'serial'
+      ? watchSerialLines(controller, port, addLine)
+      : watchScreenLines(controller.getTextScreenBuffer(), addLine);
+  }, [controller, source, port, maxTranscriptLines]);
+
+  // Foco: indicador visivel, teclado do v86 so com foco e Esc + Tab para sair
+  useEffect(() => {
+    const container = rootRef.current?.parentElement;
+    if (!container) return;
+
+    let escapedAt = 0;
+
+    // Botoes e a transcricao dentro do terminal usam o teclado normalmente
+    const handleFocusIn = (event: FocusEvent) => {
+      setFocused(true);
+      if (gateEmulatorKeyboard) controller?.setKeyboardEnabled(event.target === container);
+    };
+
+    const handleFocusOut = (event: FocusEvent) => {
+      if (container.contains(event.relatedTarget as Node | null)) return;
+      setFocused(false);
+      if (gateEmulatorKeyboard) controller?.setKeyboardEnabled(false);
+    };
+
+    // Fase de captura: roda antes do xterm, do TerminalKeyboard e do teclado do v86
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !event.ctrlKey && !event.altKey && !event.metaKey) {
+        escapedAt = Date.now();
+        return;
+      }
+      if (event.key === 'Tab' && Date.now() - escapedAt < ESCAPE_FOCUS_WINDOW_MS) {
+        escapedAt = 0;
+        // Sem preventDefault: o browser move o foco normalmente
+        event.stopPropagation();
+      }
+    };
+
+    container.addEventListener('focusin', handleFocusIn);
+    container.addEventListener('focusout', handleFocusOut);
+    container.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      container.removeEventListener('focusin', handleFocusIn);
+      container.removeEventListener('focusout', handleFocusOut);
+      container.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [controller, gateEmulatorKeyboard]);
+
+  // Foco na transcricao ao abrir
+  useEffect(() => {
+    if (showTranscript) panelRef.current?.focus();
+  }, [showTranscript]);
+
+  const closeTranscript = () => {
+    setShowTranscript(false);
+    toggleRef.current?.focus();
+  };
+
+  return (
+    <div ref={rootRef}>
+      <div id={helpId} style={VISUALLY_HIDDEN}>
+        {KEYBOARD_HELP}
+      </div>
+      <div
+        role="log"
+        aria-live="polite"
+        aria-label="Novas linhas do terminal"
+        style={VISUALLY_HIDDEN}
+      >
+        {transcript.slice(-LIVE_LINES).map((line) => (
+          <div key={line.id}>{line.text}</div>
+        ))}
+      </div>
+
+      {focused && (
+        <div
+          aria-hidden="true"
+          style={{
+            position: 'absolute',
+            inset: 0,
+            zIndex: 3,
+            border: '3px solid #ffd60a',
+            pointerEvents: 'none',
+          }}
+        />
+      )}
+
+      <button
+        ref={toggleRef}
+        type="button"
+        aria-expanded={showTranscript}
+        aria-controls={transcriptId}
+        onClick={() => setShowTranscript((show) => !show)}
+        style={{ ...BUTTON_STYLE, position: 'absolute', top: 8, left: 8, zIndex: 7 }}
+      >
+        Transcricao
+      </button>
+
+      {showTranscript && (
+        <div
+          ref={panelRef}
+          id={transcriptId}
+          role="region"
+          aria-label="Transcricao da sessao"
+          tabIndex={-1}
+          // Esc fecha a transcricao sem chegar a VM
+          onKeyDown={(event) => {
+            if (event.key !== 'Escape') return;
+            event.stopPropagation();
+            closeTranscript();
+          }}
+          style={{
+            position: 'absolute',
+            inset: 0,
+            zIndex: 6,
+            padding: '40px 12px 12px',
+            overflow: 'auto',
+            backgroundColor: '#000',
+            color: '#fff',
+            fontFamily: 'monospace',
+            fontSize: 14,
+          }}
+        >
+          {transcript.length === 0 ? (
+            <p style={{ margin: 0 }}>Nenhuma linha ainda.</p>
+          ) : (
+            <ol style={{ margin: 0, padding: 0, listStyle: 'none', whiteSpace: 'pre-wrap' }}>
+              {transcript.map((line) => (
+                <li key={line.id}>{line.text}</li>
+              ))}
+            </ol>
+          )}
+          <button
+            type="button"
+            onClick={closeTranscript}
+            style={{ ...BUTTON_STYLE, marginTop: 12 }}
+          >
+            Fechar transcricao
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
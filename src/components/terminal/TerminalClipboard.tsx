@@ -0,0 +1,359 @@
+import { useEffect, useLayoutEffect, useRef, useState, type CSSProperties } from 'react';
+import type { V86Controller } from '../v86-wrapper/V86Controller';
+import type { TextScreenCursor } from '../v86-wrapper/TextScreenBuffer';
+import type { TypeTextOptions } from '../v86-wrapper/keyboard';
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Para onde vai o texto colado
+ * - keyboard: digitado no teclado da VM aos poucos (chega ao que esta na tela)
+ * - serial: enviado de uma vez pela serial0 (shell da serial, sem passar pela tela)
+ */
+export type TerminalPasteTarget = 'keyboard' | 'serial';
+
+export interface TerminalClipboardConfig {
+  /** Destino do texto colado (padrao: "keyboard") */
+  pasteTarget?: TerminalPasteTarget;
+  /** Maior texto aceito, em caracteres (padrao: 10000) */
+  maxPasteLength?: number;
+  /** Pedir confirmacao acima deste numero de linhas (padrao: 5; 0 = sempre colar) */
+  confirmLines?: number;
+  /** Ritmo da digitacao no destino "keyboard" */
+  typing?: Omit<TypeTextOptions, 'signal'>;
+}
+
+export interface TerminalClipboardProps extends TerminalClipboardConfig {
+  /** Controller da VM (tela em modo texto e destino do texto colado) */
+  controller: V86Controller | null;
+  /** Aceitar selecao e colagem (padrao: true) */
+  enabled?: boolean;
+}
+
+// Posicao da grade de texto em relacao ao container (capturada no inicio da selecao)
+interface GridLayout {
+  left: number;
+  top: number;
+  cellWidth: number;
+  cellHeight: number;
+  cols: number;
+  rows: number;
+}
+
+interface ScreenSelection {
+  anchor: TextScreenCursor;
+  head: TextScreenCursor;
+  layout: GridLayout;
+}
+
+const DEFAULT_MAX_PASTE_LENGTH = 10000;
+const DEFAULT_CONFIRM_LINES = 5;
+const NOTICE_DURATION_MS = 2000;
+
+const PANEL_STYLE: CSSProperties = {
+  position: 'absolute',
+  left: '50%',
+  bottom: 12,
+  transform: 'translateX(-50%)',
+  maxWidth: '90%',
+  padding: '8px 12px',
+  backgroundColor: 'rgba(0, 0, 0, 0.85)',
+  color: '#fff',
+  border: '1px solid #555',
+  borderRadius: 4,
+  fontFamily: 'system-ui, sans-serif',
+  fontSize: 12,
+  pointerEvents: 'auto',
+};
+
+const BUTTON_STYLE: CSSProperties = {
+  marginLeft: 8,
+  padding: '2px 10px',
+  backgroundColor: '#333',
+  color: '#fff',
+  border: '1px solid #555',
+  borderRadius: 4,
+  cursor: 'pointer',
+  fontSize: 12,
+};
+
+/**
+ * Ctrl+V / Cmd+V / Shift+Insert (atalhos que disparam o evento paste)
+ */
+export function isPasteShortcut(event: KeyboardEvent): boolean {
+  if (event.key === 'Insert' && event.shiftKey) return true;
+  return event.code === 'KeyV' && (event.ctrlKey || event.metaKey) && !event.altKey;
+}
+
+function countLines(text: string): number {
+  return text.replace(/\n$/, '').split('\n').length;
+}
+
+function isBefore(a: TextScreenCursor, b: TextScreenCursor): boolean {
+  return a.row < b.row || (a.row === b.row && a.col < b.col);
+}
+
+/**
+ * Retangulos de destaque da selecao, um por linha
+ */
+function getSelectionRects({ anchor, head, layout }: ScreenSelection): CSSProperties[] {
+  const [start, end] = isBefore(head, anchor) ? [head, anchor] : [anchor, head];
+  const rects: CSSProperties[] = [];
+
+  for (let row = start.row; row <= end.row; row++) {
+    const first = row === start.row ? start.col : 0;
+    const last = row === end.row ? end.col : layout.cols - 1;
+    rects.push({
+      left: layout.left + first * layout.cellWidth,
+      top: layout.top + row * layout.cellHeight,
+      width: (last - first + 1) * layout.cellWidth,
+      height: layout.cellHeight,
+    });
+  }
+  return rects;
+}
+
+// ============================================
+// COMPONENTE
+// ============================================
+
+/**
+ * Copiar e colar na tela VGA
+ * Arrastar o mouse sobre o texto (modo texto) copia a selecao para o clipboard.
+ * Colar (Ctrl+V, Cmd+V, Shift+Insert ou menu) envia o texto a VM pelo teclado
+ * ou pela serial0, recusando textos acima de maxPasteLength e pedindo
+ * confirmacao para textos com muitas linhas. Deve ficar dentro do container
+ * da tela (elemento pai), que precisa poder receber foco (tabIndex).
+ *
+ * @example
+ * <Terminal preset="buildroot" clipboard={{ confirmLines: 3 }} />
+ *
+ * // Ou manualmente, junto de um V86Emulator:
+ * <div tabIndex={-1} style={{ position: "relative" }}>
+ *   <V86Emulator config={config} onReady={(emulator) => controller.attach(emulator)} />
+ *   <TerminalClipboard controller={controller} pasteTarget="serial" />
+ * </div>
+ */
+export function TerminalClipboard({
+  controller,
+  enabled = true,
+  pasteTarget = 'keyboard',
+  maxPasteLength = DEFAULT_MAX_PASTE_LENGTH,
+  confirmLines = DEFAULT_CONFIRM_LINES,
+  typing,
+}: TerminalClipboardProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [selection, setSelection] = useState<ScreenSelection | null>(null);
+  const [pendingPaste, setPendingPaste] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Colagem digitada em andamento (uma nova colagem ou a desmontagem cancela a anterior)
+  const typingAbortRef = useRef<AbortController | null>(null);
+  const optionsRef = useRef({ pasteTarget, maxPasteLength, confirmLines, typing });
+
+  useLayoutEffect(() => {
+    optionsRef.current = { pasteTarget, maxPasteLength, confirmLines, typing };
+  });
+
+  const paste = (text: string) => {
+    if (!controller) return;
+    const options = optionsRef.current;
+
+    if (options.pasteTarget === 'serial') {
+      controller.sendSerial(text);
+      return;
+    }
+    typingAbortRef.current?.abort();
+    const abort = new AbortController();
+    typingAbortRef.current = abort;
+    controller.typeText(text, { ...options.typing, signal: abort.signal }).catch(console.error);
+  };
+  const pasteRef = useRef(paste);
+
+  useLayoutEffect(() => {
+    pasteRef.current = paste;
+  });
+
+  useEffect(() => {
+    return () => typingAbortRef.current?.abort();
+  }, []);
+
+  // Avisos somem sozinhos
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  // A selecao marca posicoes da tela: qualquer mudanca no texto a invalida
+  useEffect(() => {
+    if (!controller || !selection) return;
+    return controller.getTextScreenBuffer().onChange(() => setSelection(null));
+  }, [controller, selection]);
+
+  // Colagem: evento paste do container (foco no container ou em um filho)
+  useEffect(() => {
+    const container = overlayRef.current?.parentElement;
+    if (!container || !controller || !enabled) return;
+
+    // O teclado padrao do v86 (listener no window) consome Ctrl+V; deixa o browser colar
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isPasteShortcut(event)) event.stopPropagation();
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      event.preventDefault();
+      const text = event.clipboardData?.getData('text/plain').replace(/\r\n?/g, '\n');
+      if (!text) return;
+
+      const { maxPasteLength, confirmLines } = optionsRef.current;
+      if (text.length > maxPasteLength) {
+        setNotice(
+          `Texto grande demais para colar (${text.length} de ${maxPasteLength} caracteres)`
+        );
+        return;
+      }
+      if (confirmLines > 0 && countLines(text) > confirmLines) {
+        setPendingPaste(text);
+        return;
+      }
+      pasteRef.current(text);
+    };
+
+    container.addEventListener('keydown', handleKeyDown);
+    container.addEventListener('paste', handlePaste);
+    return () => {
+      container.removeEventListener('keydown', handleKeyDown);
+      container.removeEventListener('paste', handlePaste);
+    };
+  }, [controller, enabled]);
+
+  // Selecao: arrastar sobre a grade de texto do v86
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    const container = overlay?.parentElement;
+    if (!overlay || !container || !controller || !enabled) return;
+
+    const getLayout = (): GridLayout | null => {
+      const textScreen = container.querySelector<HTMLElement>('[data-v86-text-screen]');
+      // Modo grafico: o v86 esconde a grade de texto e desenha no canvas
+      if (!textScreen || textScreen.offsetParent === null) return null;
+
+      const buffer = controller.getTextScreenBuffer();
+      const textRect = textScreen.getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+      if (!textRect.width || !textRect.height) return null;
+      return {
+        left: textRect.left - containerRect.left,
+        top: textRect.top - containerRect.top,
+        cellWidth: textRect.width / buffer.cols,
+        cellHeight: textRect.height / buffer.rows,
+        cols: buffer.cols,
+        rows: buffer.rows,
+      };
+    };
+
+    const cellAt = (event: MouseEvent, layout: GridLayout): TextScreenCursor => {
+      const containerRect = container.getBoundingClientRect();
+      const x = event.clientX - containerRect.left - layout.left;
+      const y = event.clientY - containerRect.top - layout.top;
+      return {
+        row: Math.min(Math.max(Math.floor(y / layout.cellHeight), 0), layout.rows - 1),
+        col: Math.min(Math.max(Math.floor(x / layout.cellWidth), 0), layout.cols - 1),
+      };
+    };
+
+    let current: ScreenSelection | null = null;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      if (!current) return;
+      current = { ...current, head: cellAt(event, current.layout) };
+      setSelection(current);
+    };
+
+    const handleMouseUp = () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      const finished = current;
+      current = null;
+      if (!finished) return;
+
+      const { anchor, head } = finished;
+      if (anchor.row === head.row && anchor.col === head.col) {
+        setSelection(null);
+        return;
+      }
+      const text = controller.getTextScreenBuffer().getTextRange(anchor, head);
+      if (!text.trim() || !navigator.clipboard) return;
+      navigator.clipboard
+        .writeText(text)
+        .then(() => setNotice('Copiado'))
+        .catch(() => setNotice('Nao foi possivel copiar'));
+    };
+
+    const handleMouseDown = (event: MouseEvent) => {
+      // Apenas sobre a tela do emulador (controles e overlays ficam de fora)
+      const screen = container.querySelector('[data-v86-text-screen]')?.parentElement;
+      if (event.button !== 0 || !screen?.contains(event.target as Node)) return;
+
+      const layout = getLayout();
+      setSelection(null);
+      if (!layout) return;
+
+      const cell = cellAt(event, layout);
+      current = { anchor: cell, head: cell, layout };
+      window.addEventListener('mousemove', handleMouseMove);
+      window.addEventListener('mouseup', handleMouseUp);
+    };
+
+    container.addEventListener('mousedown', handleMouseDown);
+    return () => {
+      container.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [controller, enabled]);
+
+  const pendingLines = pendingPaste === null ? 0 : countLines(pendingPaste);
+
+  return (
+    <div
+      ref={overlayRef}
+      style={{ position: 'absolute', inset: 0, zIndex: 4, pointerEvents: 'none' }}
+    >
+      {selection &&
+        getSelectionRects(selection).map((rect, index) => (
+          <div
+            key={index}
+            style={{ position: 'absolute', backgroundColor: 'rgba(96, 165, 250, 0.4)', ...rect }}
+          />
+        ))}
+      {pendingPaste !== null ? (
+        <div role="alertdialog" aria-label="Confirmar colagem" style={PANEL_STYLE}>
+          Colar {pendingLines} linhas no terminal?
+          <button
+            type="button"
+            style={BUTTON_STYLE}
+            onClick={() => {
+              pasteRef.current(pendingPaste);
+              setPendingPaste(null);
+            }}
+          >
+            Colar
+          </button>
+          <button type="button" style={BUTTON_STYLE} onClick={() => setPendingPaste(null)}>
+            Cancelar
+          </button>
+        </div>
+      ) : (
+        notice && (
+          <div role="status" style={PANEL_STYLE}>
+            {notice}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
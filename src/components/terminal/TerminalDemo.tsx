@@ -21,16 +21,6 @@ export function TerminalDemo() {
     console.log('Emulador parado');
   };
 
-  const handleDownloadProgress = (progress: {
-    file_name: string;
-    loaded: number;
-    total: number;
-  }) => {
-    console.log(
-      `Download: ${progress.file_name} - ${Math.round((progress.loaded / progress.total) * 100)}%`
-    );
-  };
-
   const handleScreenSetSize = (data: [number, number, number]) => {
     console.log(`Tamanho da tela: ${data[0]}x${data[1]} cols/rows`);
   };
@@ -47,7 +37,6 @@ export function TerminalDemo() {
       onReady={handleReady}
       onStarted={handleStarted}
       onStopped={handleStopped}
-      onDownloadProgress={handleDownloadProgress}
       onScreenSetSize={handleScreenSetSize}
     />
   );
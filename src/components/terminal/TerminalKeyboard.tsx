@@ -0,0 +1,123 @@
+import { useEffect, useRef, type CSSProperties } from 'react';
+import type { V86Controller } from '../v86-wrapper/V86Controller';
+import { isPasteShortcut } from './TerminalClipboard';
+
+// ============================================
+// TIPOS
+// ============================================
+
+export interface TerminalKeyboardProps {
+  /** Controller da VM (as teclas sao traduzidas pelo layout dele) */
+  controller: V86Controller | null;
+  /** Aceitar teclas (padrao: true) */
+  enabled?: boolean;
+  /**
+   * Deixar Ctrl+V / Cmd+V / Shift+Insert com o browser, para o TerminalClipboard
+   * colar o texto (padrao: true; false envia as teclas ao guest)
+   */
+  allowPaste?: boolean;
+}
+
+// Campo invisivel: recebe foco, teclas, IME e colagens sem aparecer na tela
+const INPUT_STYLE: CSSProperties = {
+  position: 'absolute',
+  top: 0,
+  left: 0,
+  width: 1,
+  height: 1,
+  padding: 0,
+  border: 0,
+  opacity: 0,
+  resize: 'none',
+  overflow: 'hidden',
+  pointerEvents: 'none',
+};
+
+// ============================================
+// COMPONENTE
+// ============================================
+
+/**
+ * Entrada de teclado da tela VGA no mapa de teclado do guest
+ * Substitui o teclado padrao do v86 (que assume layout US): as teclas sao
+ * traduzidas por controller.handleKeyDown e o texto de IME e digitado com
+ * controller.typeText. Colagens ficam com o TerminalClipboard. Clicar no
+ * na tela do terminal da o foco.
+ *
+ * @example
+ * <Terminal preset="buildroot" keyboardLayout="br-abnt2" />
+ *
+ * // Ou manualmente, dentro do container da tela:
+ * controller.setKeyboardLayout("br-abnt2");
+ * controller.setKeyboardEnabled(false);
+ * <TerminalKeyboard controller={controller} />
+ */
+export function TerminalKeyboard({
+  controller,
+  enabled = true,
+  allowPaste = true,
+}: TerminalKeyboardProps) {
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Foco ao clicar no terminal
+  useEffect(() => {
+    const input = inputRef.current;
+    const target = input?.parentElement;
+    if (!input || !target || !enabled) return;
+
+    // Apenas cliques na tela (botoes e paineis sobre ela mantem o proprio foco)
+    const focus = (event: MouseEvent) => {
+      const screen = target.querySelector('[data-v86-text-screen]')?.parentElement;
+      if (screen?.contains(event.target as Node)) input.focus({ preventScroll: true });
+    };
+    target.addEventListener('click', focus);
+    return () => target.removeEventListener('click', focus);
+  }, [enabled]);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input || !controller || !enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (allowPaste && isPasteShortcut(event)) return;
+      if (controller.handleKeyDown(event)) {
+        event.preventDefault();
+      }
+    };
+
+    // Texto final do IME (chines, japones, ...) chega de uma vez
+    const handleCompositionEnd = (event: CompositionEvent) => {
+      if (event.data) controller.typeText(event.data).catch(console.error);
+      input.value = '';
+    };
+
+    // Teclados virtuais sem keydown utilizavel (key "Unidentified") escrevem no campo
+    const handleInput = (event: Event) => {
+      if ((event as InputEvent).isComposing || !input.value) return;
+      controller.sendKeyboardText(input.value);
+      input.value = '';
+    };
+
+    input.addEventListener('keydown', handleKeyDown);
+    input.addEventListener('compositionend', handleCompositionEnd);
+    input.addEventListener('input', handleInput);
+    return () => {
+      input.removeEventListener('keydown', handleKeyDown);
+      input.removeEventListener('compositionend', handleCompositionEnd);
+      input.removeEventListener('input', handleInput);
+    };
+  }, [controller, enabled, allowPaste]);
+
+  return (
+    <textarea
+      ref={inputRef}
+      aria-label="Teclado do terminal"
+      autoCapitalize="off"
+      autoComplete="off"
+      autoCorrect="off"
+      spellCheck={false}
+      tabIndex={enabled ? 0 : -1}
+      style={INPUT_STYLE}
+    />
+  );
+}
@@ -0,0 +1,55 @@
+import { createContext, useContext, useState, type ReactNode } from 'react';
+import { VMPool, type VMPoolOptions } from '../v86-wrapper/VMPool';
+
+// ============================================
+// CONTEXTO
+// ============================================
+
+const TerminalPoolContext = createContext<VMPool | null>(null);
+
+// Pool usado por terminais fora de um TerminalProvider
+let defaultPool: VMPool | null = null;
+
+function getDefaultPool(): VMPool {
+  defaultPool ??= new VMPool();
+  return defaultPool;
+}
+
+export interface TerminalProviderProps extends VMPoolOptions {
+  /** Pool ja existente (ex: compartilhado com codigo fora do React) */
+  pool?: VMPool;
+  children?: ReactNode;
+}
+
+// ============================================
+// COMPONENTE
+// ============================================
+
+/**
+ * Disponibiliza um pool de VMs para os Terminals com a prop `vm`
+ * Terminais com a mesma chave compartilham a VM (um shell por porta serial).
+ *
+ * @example
+ * <TerminalProvider>
+ *   <Terminal vm="capitulo-3" preset="buildroot" />
+ *   ...
+ *   <Terminal vm="capitulo-3" />
+ * </TerminalProvider>
+ */
+export function TerminalProvider({ pool, children, ...options }: TerminalProviderProps) {
+  const [ownPool] = useState(() => pool ?? new VMPool(options));
+
+  return (
+    <TerminalPoolContext.Provider value={pool ?? ownPool}>{children}</TerminalPoolContext.Provider>
+  );
+}
+
+/**
+ * Retorna o pool de VMs do TerminalProvider mais proximo
+ * Sem provider, usa um pool global da pagina.
+ */
+export function useTerminalPool(): VMPool {
+  return useContext(TerminalPoolContext) ?? getDefaultPool();
+}
+
+export default TerminalProvider;
@@ -0,0 +1,480 @@
+import { useState, useEffect, useMemo, useRef, useCallback, type CSSProperties } from 'react';
+import {
+  parseAsciicast,
+  getRecordingDuration,
+  type AsciicastRecording,
+} from '../v86-wrapper/SessionRecorder';
+import type { TerminalDisplayConfig } from './Terminal';
+
+// ============================================
+// TIPOS
+// ============================================
+
+export interface TerminalReplayProps {
+  /** URL de um arquivo .cast (asciicast v2) */
+  src?: string;
+  /** Gravacao ja carregada (objeto ou texto asciicast) */
+  recording?: AsciicastRecording | string;
+  /** Iniciar reproducao automaticamente (padrao: false) */
+  autoplay?: boolean;
+  /** Reiniciar ao terminar (padrao: false) */
+  loop?: boolean;
+  /** Velocidade inicial (padrao: 1) */
+  speed?: number;
+  /** Limita pausas longas da gravacao (segundos) */
+  idleTimeLimit?: number;
+  /** Esconder os controles de reproducao */
+  hideControls?: boolean;
+  /** Configuracao visual (mesma do Terminal) */
+  display?: TerminalDisplayConfig;
+  className?: string;
+  style?: CSSProperties;
+  id?: string;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+const TICK_MS = 50;
+
+// CSI (captura parametros e comando), OSC, charset e escapes simples
+// eslint-disable-next-line no-control-regex
+const ESCAPE_PATTERN = /^\x1b(?:\[([0-9;?]*)([A-Za-z@])|\][^\x07]*\x07|[()][0-9A-B]|[=>c78])/;
+
+// ============================================
+// RENDERIZACAO DO OUTPUT
+// ============================================
+
+/**
+ * Aplica o output gravado em um modelo simples de terminal
+ * A tela tem o tamanho do cabecalho (ou do ultimo evento 'r'): linhas longas
+ * quebram na largura e a tela rola ao passar da altura. Suporta \r, \n,
+ * backspace, tab, movimento do cursor (CUU/CUD/CUF/CUB/CHA/CUP/VPA) e limpeza
+ * de tela/linha; as demais sequencias ANSI (cores, modos) sao ignoradas.
+ * Avancar no tempo aplica apenas os eventos novos (cursor); voltar refaz a
+ * tela desde o inicio.
+ */
+class ReplayScreen {
+  private header: AsciicastRecording['header'];
+  private events: AsciicastRecording['events'];
+  private cursor = 0;
+  private width: number;
+  private height: number;
+  private lines: string[] = [];
+  private row = 0;
+  private col = 0;
+
+  constructor(recording: AsciicastRecording) {
+    this.header = recording.header;
+    this.events = recording.events;
+    this.width = Math.max(1, recording.header.width);
+    this.height = Math.max(1, recording.header.height);
+    this.clear();
+  }
+
+  /**
+   * Texto da tela no instante informado (segundos)
+   */
+  seek(time: number): string {
+    if (this.cursor > 0 && this.events[this.cursor - 1][0] > time) {
+      this.cursor = 0;
+      this.width = Math.max(1, this.header.width);
+      this.height = Math.max(1, this.header.height);
+      this.clear();
+    }
+    while (this.cursor < this.events.length && this.events[this.cursor][0] <= time) {
+      const [, type, data] = this.events[this.cursor++];
+      if (type === 'o') this.write(data);
+      else if (type === 'r') this.resize(data);
+    }
+    return this.lines.map((line) => line.trimEnd()).join('\n');
+  }
+
+  private clear(): void {
+    this.lines = Array.from({ length: this.height }, () => '');
+    this.row = 0;
+    this.col = 0;
+  }
+
+  /**
+   * Evento 'r' ("COLSxROWS"): linhas que sobram saem pelo topo
+   */
+  private resize(data: string): void {
+    const match = /^(\d+)x(\d+)$/.exec(data);
+    if (!match) return;
+
+    this.width = Math.max(1, Number(match[1]));
+    this.height = Math.max(1, Number(match[2]));
+    const overflow = this.lines.length - this.height;
+    if (overflow > 0) {
+      const dropped = Math.min(overflow, this.row);
+      this.lines.splice(0, dropped);
+      this.row -= dropped;
+      this.lines.length = this.height;
+    }
+    while (this.lines.length < this.height) this.lines.push('');
+    this.lines = this.lines.map((line) => line.slice(0, this.width));
+    this.row = Math.min(this.row, this.height - 1);
+    this.col = Math.min(this.col, this.width - 1);
+  }
+
+  private moveTo(row: number, col: number): void {
+    this.row = Math.min(Math.max(row, 0), this.height - 1);
+    this.col = Math.min(Math.max(col, 0), this.width - 1);
+  }
+
+  private lineFeed(): void {
+    if (this.row < this.height - 1) {
+      this.row++;
+    } else {
+      this.lines.shift();
+      this.lines.push('');
+    }
+  }
+
+  private put(char: string): void {
+    // Quebra adiada: o cursor fica na ultima coluna ate o proximo caractere
+    if (this.col >= this.width) {
+      this.col = 0;
+      this.lineFeed();
+    }
+    const line = this.lines[this.row].padEnd(this.col, ' ');
+    this.lines[this.row] = line.slice(0, this.col) + char + line.slice(this.col + 1);
+    this.col++;
+  }
+
+  private eraseLine(mode: number): void {
+    const line = this.lines[this.row];
+    if (mode === 0) this.lines[this.row] = line.slice(0, this.col);
+    else if (mode === 1) this.lines[this.row] = ' '.repeat(this.col + 1) + line.slice(this.col + 1);
+    else this.lines[this.row] = '';
+  }
+
+  private eraseScreen(mode: number): void {
+    if (mode === 0) {
+      this.eraseLine(0);
+      for (let r = this.row + 1; r < this.height; r++) this.lines[r] = '';
+    } else if (mode === 1) {
+      this.eraseLine(1);
+      for (let r = 0; r < this.row; r++) this.lines[r] = '';
+    } else {
+      this.lines = this.lines.map(() => '');
+    }
+  }
+
+  private control(params: string, command: string): void {
+    // Modos privados (?25l, ?1049h...) nao alteram o texto
+    if (params.startsWith('?')) return;
+
+    const args = params.split(';').map((value) => Number(value) || 0);
+    const count = Math.max(1, args[0]);
+    switch (command) {
+      case 'A':
+        this.moveTo(this.row - count, this.col);
+        break;
+      case 'B':
+        this.moveTo(this.row + count, this.col);
+        break;
+      case 'C':
+        this.moveTo(this.row, this.col + count);
+        break;
+      case 'D':
+        this.moveTo(this.row, Math.min(this.col, this.width - 1) - count);
+        break;
+      case 'G':
+        this.moveTo(this.row, count - 1);
+        break;
+      case 'd':
+        this.moveTo(count - 1, this.col);
+        break;
+      case 'H':
+      case 'f':
+        this.moveTo(count - 1, Math.max(1, args[1] ?? 0) - 1);
+        break;
+      case 'J':
+        this.eraseScreen(args[0]);
+        break;
+      case 'K':
+        this.eraseLine(args[0]);
+        break;
+    }
+  }
+
+  private write(chunk: string): void {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (char === '\x1b') {
+        const match = ESCAPE_PATTERN.exec(chunk.slice(i));
+        if (!match) continue;
+        i += match[0].length - 1;
+
+        const [, params = '', command] = match;
+        if (match[0] === '\x1bc') {
+          this.clear();
+        } else if (command) {
+          this.control(params, command);
+        }
+        continue;
+      }
+
+      if (char === '\n') {
+        this.lineFeed();
+        this.col = 0;
+      } else if (char === '\r') {
+        this.col = 0;
+      } else if (char === '\b') {
+        this.col = Math.max(0, Math.min(this.col, this.width - 1) - 1);
+      } else if (char === '\t') {
+        this.col = Math.min(this.width - 1, (Math.floor(this.col / 8) + 1) * 8);
+      } else if (char >= ' ') {
+        this.put(char);
+      }
+    }
+  }
+}
+
+/**
+ * Comprime pausas maiores que o limite, mantendo a ordem dos eventos
+ */
+function limitIdleTime(recording: AsciicastRecording, limit?: number): AsciicastRecording {
+  if (!limit) return recording;
+
+  let previous = 0;
+  let shift = 0;
+  const events = recording.events.map(([time, type, data]) => {
+    const gap = time - previous;
+    if (gap > limit) shift += gap - limit;
+    previous = time;
+    return [time - shift, type, data] as AsciicastRecording['events'][number];
+  });
+  const last = events[events.length - 1];
+  return { header: { ...recording.header, duration: last ? last[0] : 0 }, events };
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+}
+
+// ============================================
+// COMPONENTE
+// ============================================
+
+/**
+ * Reproduz uma gravacao de sessao (asciicast v2) sem iniciar o v86
+ * Ideal para demos "assista esta sessao" que carregam instantaneamente.
+ *
+ * @example
+ * <TerminalReplay src="/casts/primeiros-comandos.cast" autoplay idleTimeLimit={2} />
+ *
+ * @example
+ * // Gravacao feita com controller.startRecording()
+ * <TerminalReplay recording={recorder.getRecording()} />
+ */
+export function TerminalReplay({
+  src,
+  recording: recordingProp,
+  autoplay = false,
+  loop = false,
+  speed: initialSpeed = 1,
+  idleTimeLimit,
+  hideControls = false,
+  display = {},
+  className,
+  style,
+  id,
+}: TerminalReplayProps) {
+  const [loaded, setLoaded] = useState<AsciicastRecording | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [playing, setPlaying] = useState(autoplay);
+  const [speed, setSpeed] = useState(initialSpeed);
+  const [screenText, setScreenText] = useState('');
+  // Tempo atual fora do render (relogio) e tela incremental da gravacao
+  const timeRef = useRef(0);
+  const screenRef = useRef<ReplayScreen | null>(null);
+
+  // Carrega a gravacao de uma URL
+  useEffect(() => {
+    if (!src || recordingProp) return;
+
+    let cancelled = false;
+    fetch(src)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load recording: ${response.status} ${response.statusText}`);
+        }
+        return response.text();
+      })
+      .then((text) => {
+        if (!cancelled) setLoaded(parseAsciicast(text));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err : new Error(String(err)));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src, recordingProp]);
+
+  // Texto invalido vira o painel de erro (sem derrubar a arvore no render)
+  const { recording, parseError } = useMemo(() => {
+    try {
+      const source =
+        typeof recordingProp === 'string' ? parseAsciicast(recordingProp) : recordingProp;
+      const base = source ?? loaded;
+      return { recording: base ? limitIdleTime(base, idleTimeLimit) : null, parseError: null };
+    } catch (err) {
+      return {
+        recording: null,
+        parseError: err instanceof Error ? err : new Error(String(err)),
+      };
+    }
+  }, [recordingProp, loaded, idleTimeLimit]);
+
+  const duration = recording ? getRecordingDuration(recording) : 0;
+
+  const seek = useCallback((time: number) => {
+    timeRef.current = time;
+    setCurrentTime(time);
+    setScreenText(screenRef.current?.seek(time) ?? '');
+  }, []);
+
+  // Nova gravacao: tela refeita no tempo atual
+  useEffect(() => {
+    screenRef.current = recording ? new ReplayScreen(recording) : null;
+    seek(timeRef.current);
+  }, [recording, seek]);
+
+  // Relogio da reproducao
+  useEffect(() => {
+    if (!playing || !recording) return;
+
+    let last = performance.now();
+    const intervalId = setInterval(() => {
+      const now = performance.now();
+      const next = timeRef.current + ((now - last) / 1000) * speed;
+      last = now;
+
+      if (next < duration) {
+        seek(next);
+      } else if (loop) {
+        seek(0);
+      } else {
+        seek(duration);
+        setPlaying(false);
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(intervalId);
+  }, [playing, recording, speed, duration, loop, seek]);
+
+  const togglePlaying = () => {
+    if (!playing && currentTime >= duration) {
+      seek(0);
+    }
+    setPlaying(!playing);
+  };
+
+  const containerStyle: CSSProperties = {
+    width: display.width ?? '100%',
+    backgroundColor: display.backgroundColor ?? '#000',
+    color: display.textColor ?? '#fff',
+    fontFamily: display.fontFamily ?? 'monospace',
+    fontSize: typeof display.fontSize === 'number' ? `${display.fontSize}px` : display.fontSize,
+    border: display.showBorder === false ? 'none' : '1px solid #333',
+    borderRadius:
+      typeof display.borderRadius === 'number' ? `${display.borderRadius}px` : display.borderRadius,
+    overflow: 'hidden',
+    ...style,
+  };
+
+  const buttonStyle: CSSProperties = {
+    padding: '2px 8px',
+    backgroundColor: '#333',
+    color: '#fff',
+    border: '1px solid #555',
+    borderRadius: 4,
+    cursor: 'pointer',
+    fontSize: 12,
+  };
+
+  const loadError = error ?? parseError;
+  if (loadError) {
+    return (
+      <div id={id} className={className} style={{ ...containerStyle, padding: 20 }}>
+        <div style={{ color: '#ff6b6b' }}>
+          <strong>Erro ao carregar gravacao:</strong>
+          <pre style={{ marginTop: 10, fontSize: 12 }}>{loadError.message}</pre>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div id={id} className={className} style={containerStyle}>
+      <pre
+        aria-label={recording?.header.title ?? 'Terminal recording'}
+        style={{
+          margin: 0,
+          padding: 8,
+          height: display.height ?? '400px',
+          overflow: 'auto',
+          whiteSpace: 'pre',
+          font: 'inherit',
+        }}
+      >
+        {recording ? screenText : 'Carregando gravacao...'}
+      </pre>
+      {!hideControls && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            padding: '4px 8px',
+            borderTop: '1px solid #333',
+            fontSize: 12,
+          }}
+        >
+          <button
+            style={buttonStyle}
+            onClick={togglePlaying}
+            disabled={!recording}
+            title={playing ? 'Pause' : 'Play'}
+          >
+            {playing ? '⏸' : '▶'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.1}
+            value={Math.min(currentTime, duration)}
+            onChange={(event) => seek(Number(event.target.value))}
+            disabled={!recording}
+            aria-label="Seek"
+            style={{ flex: 1 }}
+          />
+          <span style={{ fontFamily: 'monospace' }}>
+            {formatTime(currentTime)} / {formatTime(duration)}
+          </span>
+          <select
+            value={speed}
+            onChange={(event) => setSpeed(Number(event.target.value))}
+            aria-label="Speed"
+            style={{ ...buttonStyle, padding: '2px 4px' }}
+          >
+            {SPEEDS.map((value) => (
+              <option key={value} value={value}>
+                {value}x
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TerminalReplay;
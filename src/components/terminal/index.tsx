@@ -6,9 +6,14 @@ export {
 
   // Componentes auxiliares
   TerminalOverlay,
+  TerminalBootOverlay,
   TerminalControls,
+  TerminalQueueStatus,
+  TerminalSnapshots,
+  CommandOutput,
 
   // Presets
+  createPresetTerminal,
   AlpineTerminal,
   BuildrootTerminal,
   Linux4Terminal,
@@ -16,19 +21,62 @@ export {
   // Hooks
   useTerminal,
   useSerialOutput,
+  useCommandOutput,
 
   // Types
   type TerminalProps,
   type TerminalConfig,
   type TerminalCallbacks,
   type TerminalDisplayConfig,
+  type TerminalDisplayMode,
+  type TerminalBootStrategy,
   type TerminalNetworkConfig,
   type TerminalFilesystemConfig,
   type TerminalPreset,
   type TerminalOverlayProps,
+  type TerminalBootOverlayProps,
   type TerminalControlsProps,
+  type TerminalQueueStatusProps,
+  type TerminalSnapshotsProps,
+  type CommandOutputProps,
 } from './Terminal';
 
+// Terminal ANSI (xterm.js) ligado a uma porta serial
+export { SerialTerminal, type SerialTerminalProps } from './SerialTerminal';
+
+// Teclado da tela VGA no mapa de teclado do guest (prop `keyboardLayout`)
+export { TerminalKeyboard, type TerminalKeyboardProps } from './TerminalKeyboard';
+
+// Copiar e colar na tela VGA (prop `clipboard`)
+export {
+  TerminalClipboard,
+  type TerminalClipboardProps,
+  type TerminalClipboardConfig,
+  type TerminalPasteTarget,
+} from './TerminalClipboard';
+
+// Leitores de tela, transcricao e foco pelo teclado (prop `accessible`)
+export { TerminalAccessibility, type TerminalAccessibilityProps } from './TerminalAccessibility';
+
+// VMs compartilhadas entre Terminals (prop `vm`)
+export { TerminalProvider, useTerminalPool, type TerminalProviderProps } from './TerminalProvider';
+
+// Exercicio com enunciado, terminal e verificacoes automaticas
+export { Exercise, type ExerciseProps } from './Exercise';
+export {
+  runExerciseChecks,
+  assertUniqueCheckLabels,
+  loadExerciseProgress,
+  saveExerciseProgress,
+  clearExerciseProgress,
+  type ExerciseCheck,
+  type ExerciseCheckResult,
+  type ExerciseProgress,
+} from '../v86-wrapper/exercises';
+
+// Reproducao de sessoes gravadas (nao inicia o v86)
+export { TerminalReplay, type TerminalReplayProps } from './TerminalReplay';
+
 // Demo component (use em .astro com client:only="react")
 export { TerminalDemo } from './TerminalDemo';
 
@@ -37,8 +85,55 @@ export {
   V86Controller,
   type WaitForScreenOptions,
   type ExecuteCommandOptions,
+  type CommandResult,
+  type StreamCommandOptions,
+  type StreamCommandResult,
+  type CommandOutputChunk,
+  type WithCheckpointOptions,
   type DownloadProgress,
 } from '../v86-wrapper/V86Controller';
+export type { CommandQueueState, QueuedCommandInfo } from '../v86-wrapper/CommandQueue';
+export {
+  V86Error,
+  AssetNotFoundError,
+  WasmUnsupportedError,
+  JitFailedError,
+  OutOfMemoryError,
+  DownloadFailedError,
+  type V86ErrorCode,
+} from '../v86-wrapper/errors';
+export type { SnapshotMetadata } from '../v86-wrapper/SnapshotManager';
+export type { KeyboardLayout, KeyboardLayoutName, TypeTextOptions } from '../v86-wrapper/keyboard';
+export type { LifecycleState, LifecycleSnapshot, BootProgress } from '../v86-wrapper/BootLifecycle';
+export {
+  getGuestEventScript,
+  type GuestEvent,
+  type GuestEventChannel,
+  type GuestEventMap,
+} from '../v86-wrapper/guestEvents';
+export {
+  VMPool,
+  bindControllerToPort,
+  type VMPoolOptions,
+  type VMSession,
+} from '../v86-wrapper/VMPool';
+export {
+  registerPreset,
+  unregisterPreset,
+  getPreset,
+  listPresets,
+  type PresetDefinition,
+  type PresetLogin,
+} from '../v86-wrapper/presets';
+export { BootstrapError, type BootstrapConfig, type BootstrapFile } from '../v86-wrapper/bootstrap';
+export {
+  SessionRecorder,
+  parseAsciicast,
+  serializeAsciicast,
+  type AsciicastRecording,
+  type AsciicastHeader,
+  type AsciicastEvent,
+} from '../v86-wrapper/SessionRecorder';
 
 // Re-export v86 types
 export type { V86, V86Options, V86Image, Event as V86Event } from '../../types/v86';
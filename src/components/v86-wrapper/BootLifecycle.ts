@@ -0,0 +1,309 @@
+import type { CommandQueueState } from './CommandQueue';
+import { escapeRegExp } from './shell';
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Estado do ciclo de vida da VM
+ * - idle: emulador ainda nao criado
+ * - downloading: baixando BIOS/imagens
+ * - booting: emulador rodando, aguardando o prompt
+ * - ready: prompt detectado, shell livre
+ * - running: comando da fila em execucao
+ * - stopped: emulador pausado
+ * - error: falha ao iniciar
+ */
+export type LifecycleState =
+  | 'idle'
+  | 'downloading'
+  | 'booting'
+  | 'ready'
+  | 'running'
+  | 'stopped'
+  | 'error';
+
+/**
+ * Progresso agregado dos downloads (todos os arquivos)
+ */
+export interface BootProgress {
+  /** Bytes baixados */
+  loaded: number;
+  /** Bytes totais conhecidos (0 se nenhum servidor informou o tamanho) */
+  total: number;
+  /** Fracao concluida (0 a 1) */
+  ratio: number;
+  /** Arquivo com o download mais recente */
+  fileName?: string;
+}
+
+/**
+ * Snapshot imutavel do ciclo de vida
+ */
+export interface LifecycleSnapshot {
+  state: LifecycleState;
+  progress: BootProgress;
+  error: Error | null;
+}
+
+export interface BootLifecycleOptions {
+  /**
+   * Prompt que indica boot concluido, testado no fim do output
+   * (padrao: prompt do shell ou "login:", veja DEFAULT_READY_PATTERN).
+   * Strings sao tratadas como texto literal.
+   */
+  readyPattern?: string | RegExp;
+}
+
+// Prompt do shell ou de login: imagem sem login automatico para no "login:"
+// e o terminal ja pode ser usado (o aluno digita o usuario)
+const DEFAULT_READY_PATTERN = /(?:[#$] ?|login: ?)$/;
+
+// Output deve ficar parado por esse tempo antes de testar o prompt (ms)
+// Evita falsos positivos em linhas de boot que contem "#" ou "$"
+const PROMPT_SETTLE_MS = 250;
+
+// Quantidade de output recente mantida para testar o prompt
+const TAIL_LENGTH = 256;
+
+const EMPTY_PROGRESS: BootProgress = { loaded: 0, total: 0, ratio: 0 };
+
+/**
+ * Estado inicial (nenhum emulador criado)
+ */
+export const IDLE_LIFECYCLE: LifecycleSnapshot = {
+  state: 'idle',
+  progress: EMPTY_PROGRESS,
+  error: null,
+};
+
+// ============================================
+// MAQUINA DE ESTADOS
+// ============================================
+
+/**
+ * Maquina de estados do ciclo de vida da VM
+ * Alimentada pelos eventos do emulador (downloads, start/stop), pelo output
+ * (deteccao do prompt) e pela fila de comandos.
+ *
+ * @example
+ * ```ts
+ * const lifecycle = new BootLifecycle({ readyPattern: /login: $/ });
+ * lifecycle.subscribe(({ state, progress }) => console.log(state, progress.ratio));
+ * ```
+ */
+export class BootLifecycle {
+  private snapshot: LifecycleSnapshot = IDLE_LIFECYCLE;
+  private files: Map<string, { loaded: number; total: number }> = new Map();
+  private listeners: Set<(snapshot: LifecycleSnapshot) => void> = new Set();
+  private readyPattern: RegExp;
+  private booted = false;
+  private autoReady = true;
+  private busy = false;
+  private tail = '';
+  private getScreenLine: (() => string) | null = null;
+  private settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: BootLifecycleOptions = {}) {
+    this.readyPattern = BootLifecycle.toPattern(options.readyPattern ?? DEFAULT_READY_PATTERN);
+  }
+
+  /**
+   * Estado atual
+   */
+  getState(): LifecycleState {
+    return this.snapshot.state;
+  }
+
+  /**
+   * Snapshot atual (mesma referencia enquanto nada mudar)
+   */
+  getSnapshot(): LifecycleSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Adiciona listener de mudancas
+   * @returns Funcao para remover o listener
+   */
+  subscribe(listener: (snapshot: LifecycleSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Atualiza o padrao do prompt
+   */
+  setReadyPattern(pattern: string | RegExp): void {
+    this.readyPattern = BootLifecycle.toPattern(pattern);
+  }
+
+  /**
+   * Liga/desliga a deteccao automatica do prompt
+   * Desligada, o estado fica em "booting" ate markReady (ex: durante o bootstrap).
+   */
+  setAutoReady(enabled: boolean): void {
+    this.autoReady = enabled;
+  }
+
+  // ============================================
+  // EVENTOS
+  // ============================================
+
+  /**
+   * Progresso de download de um arquivo
+   */
+  handleDownloadProgress(progress: { file_name: string; loaded: number; total: number }): void {
+    this.files.set(progress.file_name, { loaded: progress.loaded, total: progress.total });
+
+    let loaded = 0;
+    let total = 0;
+    this.files.forEach((file) => {
+      loaded += file.loaded;
+      total += Math.max(file.total, file.loaded);
+    });
+
+    const state = this.snapshot.state === 'idle' ? 'downloading' : this.snapshot.state;
+    this.update({
+      state,
+      progress: {
+        loaded,
+        total,
+        ratio: total > 0 ? loaded / total : 0,
+        fileName: progress.file_name,
+      },
+    });
+  }
+
+  /**
+   * Emulador iniciou (boot ou retomada apos stop)
+   */
+  handleStarted(): void {
+    if (this.snapshot.state === 'error') return;
+    this.update({ state: this.booted ? this.activeState() : 'booting' });
+  }
+
+  /**
+   * Emulador parou
+   */
+  handleStopped(): void {
+    if (this.snapshot.state === 'error') return;
+    this.update({ state: 'stopped' });
+  }
+
+  /**
+   * Output serial do guest (detecta o prompt)
+   */
+  handleSerialOutput(text: string): void {
+    if (this.booted) return;
+
+    this.tail = (this.tail + text).slice(-TAIL_LENGTH);
+    this.scheduleCheck();
+  }
+
+  /**
+   * Mudanca na tela VGA (detecta o prompt)
+   * @param getLine Retorna a linha do cursor (lida quando o output para)
+   */
+  handleScreenOutput(getLine: () => string): void {
+    if (this.booted) return;
+
+    this.getScreenLine = getLine;
+    this.scheduleCheck();
+  }
+
+  /**
+   * Mudanca na fila de comandos (ready <-> running)
+   */
+  handleQueueChange(queue: CommandQueueState): void {
+    this.busy = queue.running !== null || queue.pending.length > 0;
+    const { state } = this.snapshot;
+    if (state === 'ready' || state === 'running') {
+      this.update({ state: this.activeState() });
+    }
+  }
+
+  /**
+   * Falha ao baixar ou iniciar
+   */
+  handleError(error: Error): void {
+    this.clearSettleTimer();
+    this.update({ state: 'error', error });
+  }
+
+  /**
+   * Marca o boot como concluido sem esperar o prompt
+   * Usado quando a VM e restaurada de um estado salvo (o prompt ja esta na tela).
+   */
+  markReady(): void {
+    this.clearSettleTimer();
+    this.booted = true;
+    this.tail = '';
+    this.getScreenLine = null;
+    this.update({ state: this.activeState(), error: null });
+  }
+
+  /**
+   * Volta ao estado inicial (VM destruida)
+   */
+  reset(): void {
+    this.clearSettleTimer();
+    this.files.clear();
+    this.booted = false;
+    this.busy = false;
+    this.tail = '';
+    this.getScreenLine = null;
+    this.update(IDLE_LIFECYCLE);
+  }
+
+  /**
+   * Cancela timers pendentes
+   */
+  dispose(): void {
+    this.clearSettleTimer();
+  }
+
+  private activeState(): LifecycleState {
+    return this.busy ? 'running' : 'ready';
+  }
+
+  private scheduleCheck(): void {
+    this.clearSettleTimer();
+    this.settleTimer = setTimeout(() => {
+      this.settleTimer = null;
+      if (this.snapshot.state !== 'booting' || !this.autoReady) return;
+
+      const screenLine = this.getScreenLine?.() ?? '';
+      if (this.readyPattern.test(this.tail) || this.readyPattern.test(screenLine)) {
+        this.markReady();
+      }
+    }, PROMPT_SETTLE_MS);
+  }
+
+  private clearSettleTimer(): void {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+  }
+
+  private update(changes: Partial<LifecycleSnapshot>): void {
+    const next = { ...this.snapshot, ...changes };
+    if (
+      next.state === this.snapshot.state &&
+      next.progress === this.snapshot.progress &&
+      next.error === this.snapshot.error
+    ) {
+      return;
+    }
+    this.snapshot = next;
+    this.listeners.forEach((listener) => listener(next));
+  }
+
+  private static toPattern(pattern: string | RegExp): RegExp {
+    return typeof pattern === 'string' ? new RegExp(escapeRegExp(pattern)) : pattern;
+  }
+}
+
+export default BootLifecycle;
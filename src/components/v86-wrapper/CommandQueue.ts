@@ -0,0 +1,226 @@
+/**
+ * Opcoes de agendamento de um comando na fila
+ */
+export interface CommandQueueOptions {
+  /** Prioridade (maior executa antes; padrao: 0) */
+  priority?: number;
+  /** Sinal para cancelar o comando enquanto aguarda ou executa */
+  signal?: AbortSignal;
+  /** Descricao exibida no estado da fila (ex: o proprio comando) */
+  label?: string;
+}
+
+/**
+ * Informacoes publicas de um item da fila
+ */
+export interface QueuedCommandInfo {
+  id: number;
+  label: string;
+  priority: number;
+  enqueuedAt: number;
+  startedAt?: number;
+}
+
+/**
+ * Estado de uma fila de comandos (snapshot imutavel)
+ */
+export interface CommandQueueState {
+  /** Porta serial atendida pela fila */
+  port: number;
+  /** Comando em execucao, se houver */
+  running: QueuedCommandInfo | null;
+  /** Comandos aguardando, na ordem em que serao executados */
+  pending: QueuedCommandInfo[];
+}
+
+/**
+ * Tarefa executada pela fila; recebe o sinal de cancelamento combinado
+ */
+export type CommandTask<T> = (signal: AbortSignal) => Promise<T>;
+
+interface QueueEntry {
+  info: QueuedCommandInfo;
+  task: CommandTask<unknown>;
+  controller: AbortController;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  detachSignal: () => void;
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Command aborted', 'AbortError');
+}
+
+/**
+ * Fila serializada de comandos para uma porta serial
+ * Garante que apenas um comando por vez escreva e leia da porta,
+ * evitando que outputs de comandos concorrentes se misturem.
+ *
+ * @example
+ * ```ts
+ * const queue = new CommandQueue(0);
+ * const result = await queue.enqueue((signal) => runOnSerial("ls", signal), {
+ *   priority: 10,
+ *   label: "ls",
+ * });
+ * ```
+ */
+export class CommandQueue {
+  readonly port: number;
+  private pending: QueueEntry[] = [];
+  private running: QueueEntry | null = null;
+  private nextId = 1;
+  private holds = 0;
+  private listeners: Set<(state: CommandQueueState) => void> = new Set();
+  private state: CommandQueueState;
+
+  constructor(port: number) {
+    this.port = port;
+    this.state = { port, running: null, pending: [] };
+  }
+
+  /**
+   * Adiciona uma tarefa na fila
+   * @returns Promise com o resultado da tarefa quando ela for executada
+   */
+  enqueue<T>(task: CommandTask<T>, options: CommandQueueOptions = {}): Promise<T> {
+    const { priority = 0, signal, label = '' } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const controller = new AbortController();
+
+      const onAbort = () => {
+        const reason = abortReason(signal!);
+        const index = this.pending.indexOf(entry);
+        if (index !== -1) {
+          // Ainda nao comecou: apenas remove da fila
+          this.pending.splice(index, 1);
+          entry.detachSignal();
+          reject(reason);
+          this.emitChange();
+        } else {
+          // Em execucao: a tarefa decide como interromper
+          controller.abort(reason);
+        }
+      };
+
+      const entry: QueueEntry = {
+        info: { id: this.nextId++, label, priority, enqueuedAt: Date.now() },
+        task: task as CommandTask<unknown>,
+        controller,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        detachSignal: () => signal?.removeEventListener('abort', onAbort),
+      };
+
+      signal?.addEventListener('abort', onAbort);
+
+      // Insere mantendo ordem por prioridade (FIFO entre iguais)
+      const insertAt = this.pending.findIndex((other) => other.info.priority < priority);
+      if (insertAt === -1) {
+        this.pending.push(entry);
+      } else {
+        this.pending.splice(insertAt, 0, entry);
+      }
+
+      this.emitChange();
+      this.drain();
+    });
+  }
+
+  /**
+   * Cancela todos os comandos (pendentes e em execucao)
+   */
+  clear(reason: unknown = new DOMException('Command queue cleared', 'AbortError')): void {
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((entry) => {
+      entry.detachSignal();
+      entry.reject(reason);
+    });
+    this.running?.controller.abort(reason);
+    this.emitChange();
+  }
+
+  /**
+   * Cancela apenas o comando em execucao; os pendentes continuam na fila
+   */
+  abortRunning(reason: unknown = new DOMException('Command aborted', 'AbortError')): void {
+    this.running?.controller.abort(reason);
+  }
+
+  /**
+   * Impede que novos comandos comecem ate a funcao retornada ser chamada
+   * (ex: enquanto a VM e restaurada)
+   */
+  hold(): () => void {
+    this.holds++;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.holds--;
+      this.drain();
+    };
+  }
+
+  /**
+   * Retorna o snapshot atual do estado da fila
+   */
+  getState(): CommandQueueState {
+    return this.state;
+  }
+
+  /**
+   * Numero de comandos aguardando execucao
+   */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Adiciona listener para mudancas no estado da fila
+   * @returns Funcao para remover o listener
+   */
+  onChange(listener: (state: CommandQueueState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running || this.holds > 0) return;
+
+    const entry = this.pending.shift();
+    if (!entry) return;
+
+    this.running = entry;
+    entry.info.startedAt = Date.now();
+    this.emitChange();
+
+    try {
+      entry.resolve(await entry.task(entry.controller.signal));
+    } catch (error) {
+      entry.reject(error);
+    } finally {
+      entry.detachSignal();
+      this.running = null;
+      this.emitChange();
+      this.drain();
+    }
+  }
+
+  private emitChange(): void {
+    this.state = {
+      port: this.port,
+      running: this.running ? { ...this.running.info } : null,
+      pending: this.pending.map((entry) => ({ ...entry.info })),
+    };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
+
+export default CommandQueue;
@@ -0,0 +1,511 @@
+import type { V86Controller } from './V86Controller';
+import { isEnvName, shellQuote } from './shell';
+import { GUEST_EVENT_FIFO, GUEST_EVENT_PREFIX } from './guestEvents';
+
+// ============================================
+// PROTOCOLO
+// ============================================
+
+/**
+ * Protocolo: JSON-RPC 2.0 sobre o virtio-console (hvc0)
+ *
+ * - Cada frame e uma linha `@v86:<json>\n`; linhas sem o prefixo sao ignoradas
+ * - Eventos da pagina (`@v86-event:`, veja guestEvents) que chegam pelo hvc0 sao
+ *   repassados ao FIFO dos eventos: o agente e o unico leitor do dispositivo.
+ *   O agente mantem o FIFO aberto em leitura e escrita, entao escrever nao
+ *   espera um leitor e os eventos ficam em ordem no buffer do pipe
+ * - `params` e sempre um array posicional de strings base64 prefixadas com "b"
+ *   (o prefixo evita parametros vazios, que o shell do guest descartaria)
+ * - Strings binarias nas respostas (stdout, listagens) tambem vem em base64
+ */
+const FRAME_PREFIX = '@v86:';
+
+const DEFAULT_AGENT_PATH = '/tmp/v86-agent.sh';
+const DEFAULT_AGENT_DEVICE = '/dev/hvc0';
+
+// Tamanho de cada pedaco do script enviado pela serial (abaixo do limite de linha do tty)
+const UPLOAD_CHUNK_SIZE = 1024;
+
+// Codigo JSON-RPC para parametros invalidos
+const INVALID_PARAMS = -32602;
+
+/**
+ * Metodos suportados pelo agente
+ */
+export type GuestAgentMethod =
+  | 'ping'
+  | 'exec'
+  | 'stat'
+  | 'readdir'
+  | 'kill'
+  | 'getenv'
+  | 'setenv'
+  | 'unsetenv';
+
+/**
+ * Script do agente executado no guest (sh/busybox)
+ * Depende de: base64, stat -c, mktemp, mkfifo, sed e stty
+ */
+export const GUEST_AGENT_SCRIPT = String.raw`#!/bin/sh
+# v86 guest agent - JSON-RPC sobre virtio-console (um frame por linha, prefixo @v86:)
+arg() { printf '%s' "$1" | cut -c2- | base64 -d; }
+b64() { base64 | tr -d '\n'; }
+reply() { printf '@v86:{"jsonrpc":"2.0","id":%s,"result":%s}\n' "$1" "$2"; }
+fail() { printf '@v86:{"jsonrpc":"2.0","id":%s,"error":{"code":%s,"message":"%s"}}\n' "$1" "$2" "$3"; }
+handle() {
+  id=$1; method=$2; shift 2
+  case "$method" in
+  ping) reply "$id" '"pong"' ;;
+  exec)
+    out=$(mktemp); err=$(mktemp)
+    sh -c "$(arg "$1")" >"$out" 2>"$err" </dev/null
+    rc=$?
+    reply "$id" "{\"exitCode\":$rc,\"stdout\":\"$(b64 <"$out")\",\"stderr\":\"$(b64 <"$err")\"}"
+    rm -f "$out" "$err" ;;
+  stat)
+    if st=$(stat -c '%s %f %Y %u %g' "$(arg "$1")" 2>/dev/null); then
+      set -- $st
+      reply "$id" "{\"size\":$1,\"mode\":$((0x$2)),\"mtime\":$3,\"uid\":$4,\"gid\":$5}"
+    else
+      fail "$id" -32001 ENOENT
+    fi ;;
+  readdir)
+    dir=$(arg "$1")
+    if [ -d "$dir" ]; then reply "$id" "\"$(ls -1A "$dir" | b64)\""; else fail "$id" -32002 ENOTDIR; fi ;;
+  kill)
+    if kill -s "$(arg "$2")" "$(arg "$1")" 2>/dev/null; then reply "$id" true; else fail "$id" -32003 ESRCH; fi ;;
+  getenv) reply "$id" "\"$(env | b64)\"" ;;
+  setenv) export "$(arg "$1")=$(arg "$2")"; reply "$id" true ;;
+  unsetenv) unset "$(arg "$1")"; reply "$id" true ;;
+  *) fail "$id" -32601 "Method not found" ;;
+  esac
+}
+# FIFO dos eventos aberto em leitura e escrita: o open nao bloqueia sem leitor
+[ -p ${GUEST_EVENT_FIFO} ] || mkfifo ${GUEST_EVENT_FIFO}
+exec 3<>${GUEST_EVENT_FIFO}
+printf '@v86:{"jsonrpc":"2.0","method":"ready"}\n'
+while IFS= read -r line; do
+  case "$line" in
+  @v86:*) ;;
+  ${GUEST_EVENT_PREFIX}*) printf '%s\n' "$line" >&3; continue ;;
+  *) continue ;;
+  esac
+  id=$(printf '%s' "$line" | sed -n 's/.*"id":\([0-9]*\).*/\1/p')
+  method=$(printf '%s' "$line" | sed -n 's/.*"method":"\([a-z]*\)".*/\1/p')
+  params=$(printf '%s' "$line" | sed -n 's/.*"params":\[\(.*\)\].*/\1/p' | tr -d '"' | tr ',' ' ')
+  if [ "$method" = exec ]; then
+    handle "$id" "$method" $params &
+  else
+    handle "$id" "$method" $params
+  fi
+done
+`;
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Opcoes do cliente do agente
+ */
+export interface GuestAgentOptions {
+  /** Timeout padrao das chamadas em milissegundos (padrao: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Opcoes para instalar o agente no guest
+ */
+export interface GuestAgentInstallOptions {
+  /** Caminho do script no guest (padrao: /tmp/v86-agent.sh) */
+  path?: string;
+  /** Dispositivo do virtio-console no guest (padrao: /dev/hvc0) */
+  device?: string;
+  /** Tempo maximo para o agente responder apos iniciar (padrao: 10000) */
+  timeout?: number;
+}
+
+/**
+ * Opcoes para exec
+ */
+export interface GuestExecOptions {
+  /** Diretorio de trabalho */
+  cwd?: string;
+  /** Variaveis de ambiente adicionais */
+  env?: Record<string, string>;
+  /** Timeout em milissegundos */
+  timeout?: number;
+}
+
+/**
+ * Resultado de exec
+ */
+export interface GuestExecResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Resultado de stat
+ */
+export interface GuestStat {
+  size: number;
+  mode: number;
+  /** Data de modificacao (ms desde epoch) */
+  mtime: number;
+  uid: number;
+  gid: number;
+  isDirectory: boolean;
+  isFile: boolean;
+  isSymbolicLink: boolean;
+}
+
+interface RpcResponse {
+  jsonrpc: '2.0';
+  id?: number;
+  method?: string;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Erro retornado pelo agente (ou por timeout de uma chamada)
+ */
+export class GuestAgentError extends Error {
+  readonly code: number;
+  readonly method: GuestAgentMethod;
+
+  constructor(method: GuestAgentMethod, code: number, message: string) {
+    super(`Guest agent ${method} failed: ${message}`);
+    this.name = 'GuestAgentError';
+    this.code = code;
+    this.method = method;
+  }
+}
+
+/**
+ * Rejeita nomes de variavel que nao sejam identificadores do shell
+ */
+function assertEnvName(method: GuestAgentMethod, name: string): void {
+  if (!isEnvName(name)) {
+    throw new GuestAgentError(
+      method,
+      INVALID_PARAMS,
+      `invalid environment variable name ${JSON.stringify(name)}`
+    );
+  }
+}
+
+// ============================================
+// CODIFICACAO
+// ============================================
+
+function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function decodeBase64(data: string): string {
+  const binary = atob(data);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+// ============================================
+// CLIENTE
+// ============================================
+
+/**
+ * Cliente do agente de guest sobre virtio-console
+ * Substitui a raspagem de texto da serial por chamadas com respostas tipadas,
+ * imunes a outputs que contenham marcadores ou prompts.
+ * Requer o emulador iniciado com `virtioConsole: true`.
+ *
+ * @example
+ * ```ts
+ * const agent = await controller.installGuestAgent();
+ * const { exitCode, stdout } = await agent.exec("make", { cwd: "/root/projeto" });
+ * const info = await agent.stat("/root/projeto/main");
+ * ```
+ */
+export class GuestAgent {
+  private controller: V86Controller;
+  private timeout: number;
+  private nextId = 1;
+  private pending: Map<number, PendingCall> = new Map();
+  private lineBuffer = '';
+  private decoder = new TextDecoder();
+  private readyListeners: Set<() => void> = new Set();
+  private removeOutputListener: () => void;
+  private alive = false;
+
+  constructor(controller: V86Controller, options: GuestAgentOptions = {}) {
+    this.controller = controller;
+    this.timeout = options.timeout ?? 30000;
+    this.removeOutputListener = controller.onVirtioConsoleOutput((bytes) =>
+      this.handleBytes(bytes)
+    );
+  }
+
+  /**
+   * Indica se o agente ja respondeu no guest
+   */
+  get isReady(): boolean {
+    return this.alive;
+  }
+
+  /**
+   * Instala e inicia o agente no guest usando o shell da serial0
+   * Se o agente ja estiver respondendo, nada e feito.
+   */
+  async install(options: GuestAgentInstallOptions = {}): Promise<void> {
+    const { path = DEFAULT_AGENT_PATH, device = DEFAULT_AGENT_DEVICE, timeout = 10000 } = options;
+
+    if (await this.isAlive()) {
+      return;
+    }
+
+    // Envia o script em pedacos base64 para nao estourar o limite de linha do tty
+    const encoded = encodeBase64(GUEST_AGENT_SCRIPT);
+    const staging = shellQuote(`${path}.b64`);
+    await this.run(`: > ${staging}`);
+    for (let offset = 0; offset < encoded.length; offset += UPLOAD_CHUNK_SIZE) {
+      const chunk = encoded.slice(offset, offset + UPLOAD_CHUNK_SIZE);
+      await this.run(`printf '%s' '${chunk}' >> ${staging}`);
+    }
+    await this.run(`base64 -d ${staging} > ${shellQuote(path)} && rm -f ${staging}`);
+
+    const ready = this.waitForReady(timeout);
+    await this.run(
+      `stty -F ${shellQuote(device)} raw -echo && ` +
+        `(setsid sh ${shellQuote(path)} <${shellQuote(device)} >${shellQuote(device)} 2>/dev/null &)`
+    );
+    await ready;
+  }
+
+  /**
+   * Verifica se o agente esta respondendo
+   */
+  async isAlive(timeout = 500): Promise<boolean> {
+    try {
+      return (await this.call('ping', [], timeout)) === 'pong';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Executa um comando no guest
+   */
+  async exec(command: string, options: GuestExecOptions = {}): Promise<GuestExecResult> {
+    const { cwd, env = {}, timeout } = options;
+    Object.keys(env).forEach((name) => assertEnvName('exec', name));
+    const lines = Object.entries(env).map(([name, value]) => `export ${name}=${shellQuote(value)}`);
+    if (cwd) {
+      lines.push(`cd ${shellQuote(cwd)} || exit 1`);
+    }
+    lines.push(command);
+
+    const result = (await this.call('exec', [lines.join('\n')], timeout)) as {
+      exitCode: number;
+      stdout: string;
+      stderr: string;
+    };
+    return {
+      exitCode: result.exitCode,
+      stdout: decodeBase64(result.stdout),
+      stderr: decodeBase64(result.stderr),
+    };
+  }
+
+  /**
+   * Obtem metadados de um arquivo no guest
+   */
+  async stat(path: string): Promise<GuestStat> {
+    const result = (await this.call('stat', [path])) as Omit<
+      GuestStat,
+      'isDirectory' | 'isFile' | 'isSymbolicLink'
+    >;
+    const type = result.mode & 0o170000;
+    return {
+      ...result,
+      mtime: result.mtime * 1000,
+      isDirectory: type === 0o040000,
+      isFile: type === 0o100000,
+      isSymbolicLink: type === 0o120000,
+    };
+  }
+
+  /**
+   * Lista entradas de um diretorio no guest (sem . e ..)
+   */
+  async readdir(path: string): Promise<string[]> {
+    const result = (await this.call('readdir', [path])) as string;
+    return decodeBase64(result).split('\n').filter(Boolean);
+  }
+
+  /**
+   * Envia um sinal para um processo do guest
+   */
+  async kill(pid: number, signal: string = 'TERM'): Promise<void> {
+    await this.call('kill', [String(pid), signal]);
+  }
+
+  /**
+   * Retorna o ambiente do agente (herdado pelos proximos exec)
+   */
+  async getEnv(): Promise<Record<string, string>> {
+    const result = (await this.call('getenv', [])) as string;
+    const env: Record<string, string> = {};
+    decodeBase64(result)
+      .split('\n')
+      .forEach((line) => {
+        const index = line.indexOf('=');
+        if (index > 0) {
+          env[line.slice(0, index)] = line.slice(index + 1);
+        }
+      });
+    return env;
+  }
+
+  /**
+   * Define uma variavel no ambiente do agente
+   */
+  async setEnv(name: string, value: string): Promise<void> {
+    assertEnvName('setenv', name);
+    await this.call('setenv', [name, value]);
+  }
+
+  /**
+   * Remove uma variavel do ambiente do agente
+   */
+  async unsetEnv(name: string): Promise<void> {
+    assertEnvName('unsetenv', name);
+    await this.call('unsetenv', [name]);
+  }
+
+  /**
+   * Faz uma chamada JSON-RPC ao agente
+   */
+  call(method: GuestAgentMethod, params: string[], timeout = this.timeout): Promise<unknown> {
+    const id = this.nextId++;
+    const request = {
+      jsonrpc: '2.0',
+      id,
+      method,
+      params: params.map((param) => `b${encodeBase64(param)}`),
+    };
+
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new GuestAgentError(method, -32000, `timeout after ${timeout}ms`));
+      }, timeout);
+
+      this.pending.set(id, {
+        resolve,
+        reject: (error: unknown) => {
+          const { code, message } = error as { code: number; message: string };
+          reject(new GuestAgentError(method, code, message));
+        },
+        timeoutId,
+      });
+
+      this.controller.sendVirtioConsole(`${FRAME_PREFIX}${JSON.stringify(request)}\n`);
+    });
+  }
+
+  /**
+   * Libera listeners e rejeita chamadas pendentes
+   */
+  dispose(): void {
+    this.removeOutputListener();
+    this.pending.forEach(({ reject, timeoutId }) => {
+      clearTimeout(timeoutId);
+      reject({ code: -32000, message: 'agent disposed' });
+    });
+    this.pending.clear();
+    this.readyListeners.clear();
+    this.alive = false;
+  }
+
+  private waitForReady(timeout: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this.readyListeners.delete(onReady);
+        reject(new GuestAgentError('ping', -32000, `agent did not start after ${timeout}ms`));
+      }, timeout);
+
+      const onReady = () => {
+        clearTimeout(timeoutId);
+        this.readyListeners.delete(onReady);
+        resolve();
+      };
+
+      this.readyListeners.add(onReady);
+    });
+  }
+
+  private async run(command: string): Promise<void> {
+    const result = await this.controller.runCommand(command);
+    if (result.exitCode !== 0) {
+      throw new GuestAgentError('exec', result.exitCode ?? -32000, result.stdout.trim());
+    }
+  }
+
+  private handleBytes(bytes: Uint8Array): void {
+    this.lineBuffer += this.decoder.decode(bytes, { stream: true });
+
+    let newline = this.lineBuffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.lineBuffer.slice(0, newline).replace(/\r$/, '');
+      this.lineBuffer = this.lineBuffer.slice(newline + 1);
+      if (line.startsWith(FRAME_PREFIX)) {
+        this.handleFrame(line.slice(FRAME_PREFIX.length));
+      }
+      newline = this.lineBuffer.indexOf('\n');
+    }
+  }
+
+  private handleFrame(json: string): void {
+    let message: RpcResponse;
+    try {
+      message = JSON.parse(json);
+    } catch {
+      return;
+    }
+
+    // Notificacao enviada quando o agente inicia
+    if (message.method === 'ready') {
+      this.alive = true;
+      this.readyListeners.forEach((listener) => listener());
+      return;
+    }
+
+    if (message.id === undefined) return;
+    const call = this.pending.get(message.id);
+    if (!call) return;
+
+    this.pending.delete(message.id);
+    clearTimeout(call.timeoutId);
+    this.alive = true;
+    if (message.error) {
+      call.reject(message.error);
+    } else {
+      call.resolve(message.result);
+    }
+  }
+}
+
+export default GuestAgent;
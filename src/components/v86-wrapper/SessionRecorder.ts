@@ -0,0 +1,247 @@
+// ============================================
+// TIPOS (asciicast v2)
+// ============================================
+
+/**
+ * Cabecalho de uma gravacao asciicast v2
+ * https://docs.asciinema.org/manual/asciicast/v2/
+ */
+export interface AsciicastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  /** Inicio da gravacao (segundos desde epoch) */
+  timestamp?: number;
+  /** Duracao total em segundos */
+  duration?: number;
+  title?: string;
+  env?: Record<string, string>;
+}
+
+/**
+ * Evento asciicast: [tempo em segundos, tipo, dados]
+ * "o" = output, "i" = input, "r" = resize ("COLSxROWS"), "m" = marcador
+ */
+export type AsciicastEvent = [number, 'o' | 'i' | 'r' | 'm', string];
+
+/**
+ * Gravacao completa (cabecalho + eventos)
+ */
+export interface AsciicastRecording {
+  header: AsciicastHeader;
+  events: AsciicastEvent[];
+}
+
+/**
+ * Opcoes do SessionRecorder
+ */
+export interface SessionRecorderOptions {
+  /** Colunas do terminal gravado (padrao: 80) */
+  cols?: number;
+  /** Linhas do terminal gravado (padrao: 25) */
+  rows?: number;
+  /** Titulo da gravacao */
+  title?: string;
+  /** Gravar tambem o input (padrao: true) */
+  recordInput?: boolean;
+}
+
+// Eventos do mesmo tipo mais proximos que isso sao agrupados (segundos)
+const MERGE_WINDOW = 0.01;
+
+// ============================================
+// SERIALIZACAO
+// ============================================
+
+/**
+ * Converte uma gravacao para o formato asciicast v2 (NDJSON)
+ */
+export function serializeAsciicast(recording: AsciicastRecording): string {
+  const lines = [JSON.stringify(recording.header)];
+  for (const [time, type, data] of recording.events) {
+    lines.push(JSON.stringify([Number(time.toFixed(6)), type, data]));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Le uma gravacao no formato asciicast v2
+ */
+export function parseAsciicast(text: string): AsciicastRecording {
+  const lines = text.split('\n').filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error('Invalid asciicast: empty file');
+  }
+
+  const header = JSON.parse(lines[0]) as AsciicastHeader;
+  if (header.version !== 2) {
+    throw new Error(`Unsupported asciicast version: ${String(header.version)}`);
+  }
+
+  const events = lines.slice(1).map((line, index) => {
+    const event = JSON.parse(line) as AsciicastEvent;
+    if (!Array.isArray(event) || typeof event[0] !== 'number' || typeof event[2] !== 'string') {
+      throw new Error(`Invalid asciicast event at line ${index + 2}`);
+    }
+    return event;
+  });
+
+  return { header, events };
+}
+
+/**
+ * Duracao de uma gravacao em segundos
+ */
+export function getRecordingDuration(recording: AsciicastRecording): number {
+  const last = recording.events[recording.events.length - 1];
+  return recording.header.duration ?? (last ? last[0] : 0);
+}
+
+// ============================================
+// RECORDER
+// ============================================
+
+/**
+ * Grava a sessao serial com timestamps (output da serial0 e input enviado)
+ * O V86Controller alimenta o recorder pelo mesmo listener de serial0-output-byte.
+ *
+ * @example
+ * ```ts
+ * const recorder = controller.startRecording({ title: "Primeiros comandos" });
+ * // ... sessao ...
+ * controller.stopRecording();
+ * recorder.download("sessao.cast");
+ * ```
+ */
+export class SessionRecorder {
+  private header: AsciicastHeader;
+  private events: AsciicastEvent[] = [];
+  private startedAt = 0;
+  private stoppedAt: number | null = null;
+  private recordInputEvents: boolean;
+  private decoder = new TextDecoder();
+
+  constructor(options: SessionRecorderOptions = {}) {
+    this.header = {
+      version: 2,
+      width: options.cols ?? 80,
+      height: options.rows ?? 25,
+      title: options.title,
+    };
+    this.recordInputEvents = options.recordInput ?? true;
+  }
+
+  /**
+   * Indica se a gravacao esta em andamento
+   */
+  get isRecording(): boolean {
+    return this.startedAt > 0 && this.stoppedAt === null;
+  }
+
+  /**
+   * Inicia (ou reinicia) a gravacao
+   */
+  start(): void {
+    this.events = [];
+    this.decoder = new TextDecoder();
+    this.startedAt = Date.now();
+    this.stoppedAt = null;
+    this.header.timestamp = Math.floor(this.startedAt / 1000);
+  }
+
+  /**
+   * Encerra a gravacao
+   */
+  stop(): void {
+    if (!this.isRecording) return;
+
+    const rest = this.decoder.decode();
+    if (rest) this.push('o', rest);
+    this.stoppedAt = Date.now();
+  }
+
+  /**
+   * Registra um byte de output da serial (decodificado como UTF-8)
+   */
+  recordOutputByte(byte: number): void {
+    if (!this.isRecording) return;
+
+    const text = this.decoder.decode(new Uint8Array([byte]), { stream: true });
+    if (text) this.push('o', text);
+  }
+
+  /**
+   * Registra output ja decodificado
+   */
+  recordOutput(data: string): void {
+    if (this.isRecording) this.push('o', data);
+  }
+
+  /**
+   * Registra input enviado ao guest
+   */
+  recordInput(data: string): void {
+    if (this.isRecording && this.recordInputEvents) this.push('i', data);
+  }
+
+  /**
+   * Registra mudanca de tamanho do terminal
+   */
+  recordResize(cols: number, rows: number): void {
+    if (this.isRecording) this.push('r', `${cols}x${rows}`);
+  }
+
+  /**
+   * Adiciona um marcador (capitulos na reproducao)
+   */
+  addMarker(label: string): void {
+    if (this.isRecording) this.push('m', label);
+  }
+
+  /**
+   * Retorna a gravacao atual
+   */
+  getRecording(): AsciicastRecording {
+    const end = this.stoppedAt ?? Date.now();
+    return {
+      header: { ...this.header, duration: this.startedAt ? (end - this.startedAt) / 1000 : 0 },
+      events: this.events.map((event) => [...event] as AsciicastEvent),
+    };
+  }
+
+  /**
+   * Exporta a gravacao no formato asciicast v2
+   */
+  toAsciicast(): string {
+    return serializeAsciicast(this.getRecording());
+  }
+
+  /**
+   * Baixa a gravacao como arquivo .cast (apenas browser)
+   */
+  download(filename = 'session.cast'): void {
+    if (typeof window === 'undefined') return;
+
+    const blob = new Blob([this.toAsciicast()], { type: 'application/x-asciicast' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private push(type: AsciicastEvent[1], data: string): void {
+    const time = (Date.now() - this.startedAt) / 1000;
+    const last = this.events[this.events.length - 1];
+
+    // Agrupa bytes consecutivos (a serial entrega um caractere por evento)
+    if (last && last[1] === type && type !== 'r' && type !== 'm' && time - last[0] < MERGE_WINDOW) {
+      last[2] += data;
+      return;
+    }
+    this.events.push([time, type, data]);
+  }
+}
+
+export default SessionRecorder;
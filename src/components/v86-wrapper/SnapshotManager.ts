@@ -0,0 +1,412 @@
+import type { V86Controller } from './V86Controller';
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Metadados de um snapshot salvo (sem o estado em si)
+ */
+export interface SnapshotMetadata {
+  /** Nome unico do snapshot (salvar com o mesmo nome sobrescreve) */
+  name: string;
+  /** Data de criacao (ms desde epoch) */
+  createdAt: number;
+  /** Tamanho do estado sem compressao em bytes */
+  size: number;
+  /** Tamanho armazenado em bytes */
+  storedSize: number;
+  /** Indica se o estado foi armazenado comprimido (gzip) */
+  compressed: boolean;
+  /** Preset de imagem usado pela VM */
+  preset?: string;
+  /** Miniatura da tela (data URL) */
+  thumbnail?: string;
+}
+
+/**
+ * Opcoes para criar um snapshot
+ */
+export interface CreateSnapshotOptions {
+  /** Comprimir o estado com gzip (padrao: true) */
+  compress?: boolean;
+  /** Gerar miniatura a partir de makeScreenshot (padrao: true) */
+  thumbnail?: boolean;
+  /** Preset de imagem (padrao: o preset do manager) */
+  preset?: string;
+}
+
+/**
+ * Opcoes do SnapshotManager
+ */
+export interface SnapshotManagerOptions {
+  /** Nome do banco IndexedDB (padrao: "livebook-v86-snapshots") */
+  dbName?: string;
+  /** Preset associado aos snapshots criados */
+  preset?: string;
+  /** Largura da miniatura em pixels (padrao: 160) */
+  thumbnailWidth?: number;
+}
+
+/**
+ * Diferenca entre dois snapshots, comparada em paginas de 4 KiB
+ */
+export interface SnapshotDiff {
+  /** Diferenca de tamanho (b - a) em bytes */
+  sizeDelta: number;
+  /** Paginas com conteudo diferente */
+  changedPages: number;
+  /** Total de paginas comparadas */
+  totalPages: number;
+  /** Fracao de paginas alteradas (0 a 1) */
+  changedRatio: number;
+}
+
+const DEFAULT_DB_NAME = 'livebook-v86-snapshots';
+const DB_VERSION = 1;
+const METADATA_STORE = 'snapshots';
+const DATA_STORE = 'snapshot-data';
+const DIFF_PAGE_SIZE = 4096;
+
+// Listeners por banco: managers com opcoes diferentes veem as mudancas uns dos outros
+const changeListeners: Map<string, Set<() => void>> = new Map();
+
+// ============================================
+// INDEXEDDB
+// ============================================
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(dbName: string): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  const request = indexedDB.open(dbName, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    // Metadados e dados ficam em stores separadas para list() nao carregar os estados
+    if (!db.objectStoreNames.contains(METADATA_STORE)) {
+      db.createObjectStore(METADATA_STORE, { keyPath: 'name' });
+    }
+    if (!db.objectStoreNames.contains(DATA_STORE)) {
+      db.createObjectStore(DATA_STORE);
+    }
+  };
+  return promisifyRequest(request);
+}
+
+// ============================================
+// COMPRESSAO
+// ============================================
+
+async function transform(data: ArrayBuffer, stream: GenericTransformStream): Promise<ArrayBuffer> {
+  const output = new Blob([data]).stream().pipeThrough(stream);
+  return new Response(output).arrayBuffer();
+}
+
+function compress(data: ArrayBuffer): Promise<ArrayBuffer> {
+  return transform(data, new CompressionStream('gzip'));
+}
+
+function decompress(data: ArrayBuffer): Promise<ArrayBuffer> {
+  return transform(data, new DecompressionStream('gzip'));
+}
+
+// ============================================
+// MANAGER
+// ============================================
+
+/**
+ * Gerenciador de snapshots nomeados da VM persistidos em IndexedDB
+ * Permite "continuar de onde parou" entre recarregamentos da pagina
+ * sem baixar arquivos de estado.
+ *
+ * @example
+ * ```ts
+ * const snapshots = controller.getSnapshotManager({ preset: "buildroot" });
+ * await snapshots.create("capitulo-3");
+ * const list = await snapshots.list();
+ * await snapshots.restore("capitulo-3");
+ * ```
+ */
+export class SnapshotManager {
+  private controller: V86Controller;
+  private dbName: string;
+  private preset?: string;
+  private thumbnailWidth: number;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(controller: V86Controller, options: SnapshotManagerOptions = {}) {
+    this.controller = controller;
+    this.dbName = options.dbName ?? DEFAULT_DB_NAME;
+    this.preset = options.preset;
+    this.thumbnailWidth = options.thumbnailWidth ?? 160;
+  }
+
+  /**
+   * Salva o estado atual da VM com um nome
+   */
+  async create(name: string, options: CreateSnapshotOptions = {}): Promise<SnapshotMetadata> {
+    const { compress: shouldCompress = true, thumbnail = true, preset = this.preset } = options;
+
+    const state = await this.controller.saveState();
+    if (!state) {
+      throw new Error('Cannot create snapshot: emulator not attached');
+    }
+
+    const stored = shouldCompress ? await compress(state) : state;
+    const metadata: SnapshotMetadata = {
+      name,
+      createdAt: Date.now(),
+      size: state.byteLength,
+      storedSize: stored.byteLength,
+      compressed: shouldCompress,
+      preset,
+      thumbnail: thumbnail ? await this.captureThumbnail() : undefined,
+    };
+
+    const db = await this.getDatabase();
+    const tx = db.transaction([METADATA_STORE, DATA_STORE], 'readwrite');
+    tx.objectStore(METADATA_STORE).put(metadata);
+    tx.objectStore(DATA_STORE).put(stored, name);
+    await this.complete(tx);
+    this.emitChange();
+
+    return metadata;
+  }
+
+  /**
+   * Lista os snapshots salvos, do mais recente para o mais antigo
+   * @param preset Filtra por preset (opcional)
+   */
+  async list(preset?: string): Promise<SnapshotMetadata[]> {
+    const db = await this.getDatabase();
+    const store = db.transaction(METADATA_STORE, 'readonly').objectStore(METADATA_STORE);
+    const all = (await promisifyRequest(store.getAll())) as SnapshotMetadata[];
+    return all
+      .filter((snapshot) => preset === undefined || snapshot.preset === preset)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Retorna os metadados de um snapshot
+   */
+  async get(name: string): Promise<SnapshotMetadata | undefined> {
+    const db = await this.getDatabase();
+    const store = db.transaction(METADATA_STORE, 'readonly').objectStore(METADATA_STORE);
+    return (await promisifyRequest(store.get(name))) as SnapshotMetadata | undefined;
+  }
+
+  /**
+   * Verifica se existe um snapshot com o nome informado
+   */
+  async has(name: string): Promise<boolean> {
+    return (await this.get(name)) !== undefined;
+  }
+
+  /**
+   * Carrega o estado (descomprimido) de um snapshot
+   */
+  async load(name: string): Promise<ArrayBuffer> {
+    const metadata = await this.get(name);
+    if (!metadata) {
+      throw new Error(`Snapshot not found: ${name}`);
+    }
+
+    const db = await this.getDatabase();
+    const store = db.transaction(DATA_STORE, 'readonly').objectStore(DATA_STORE);
+    const stored = (await promisifyRequest(store.get(name))) as ArrayBuffer | undefined;
+    if (!stored) {
+      throw new Error(`Snapshot data missing: ${name}`);
+    }
+
+    return metadata.compressed ? decompress(stored) : stored;
+  }
+
+  /**
+   * Restaura a VM a partir de um snapshot
+   */
+  async restore(name: string): Promise<void> {
+    // Estado de outra imagem nao funciona nesta VM
+    const metadata = await this.get(name);
+    if (this.preset && metadata?.preset && metadata.preset !== this.preset) {
+      throw new Error(
+        `Snapshot ${name} was saved with preset ${metadata.preset}, not ${this.preset}`
+      );
+    }
+    await this.controller.restoreState(await this.load(name));
+  }
+
+  /**
+   * Renomeia um snapshot
+   * A existencia de newName e conferida na mesma transacao da troca: um
+   * snapshot com esse nome nunca e sobrescrito.
+   * @throws Error se name nao existe ou newName ja esta em uso
+   */
+  async rename(name: string, newName: string): Promise<void> {
+    if (name === newName) return;
+
+    const db = await this.getDatabase();
+    const tx = db.transaction([METADATA_STORE, DATA_STORE], 'readwrite');
+    const done = this.complete(tx);
+    const metadataStore = tx.objectStore(METADATA_STORE);
+    const dataStore = tx.objectStore(DATA_STORE);
+    const [metadata, existing, stored] = await Promise.all([
+      promisifyRequest(metadataStore.get(name)) as Promise<SnapshotMetadata | undefined>,
+      promisifyRequest(metadataStore.getKey(newName)),
+      promisifyRequest(dataStore.get(name)),
+    ]);
+
+    const fail = async (message: string): Promise<never> => {
+      tx.abort();
+      await done.catch(() => {});
+      throw new Error(message);
+    };
+    if (!metadata) return fail(`Snapshot not found: ${name}`);
+    if (existing !== undefined) return fail(`Snapshot already exists: ${newName}`);
+
+    metadataStore.delete(name);
+    metadataStore.put({ ...metadata, name: newName });
+    dataStore.delete(name);
+    dataStore.put(stored, newName);
+    await done;
+    this.emitChange();
+  }
+
+  /**
+   * Remove um snapshot
+   */
+  async delete(name: string): Promise<void> {
+    const db = await this.getDatabase();
+    const tx = db.transaction([METADATA_STORE, DATA_STORE], 'readwrite');
+    tx.objectStore(METADATA_STORE).delete(name);
+    tx.objectStore(DATA_STORE).delete(name);
+    await this.complete(tx);
+    this.emitChange();
+  }
+
+  /**
+   * Remove todos os snapshots (opcionalmente apenas de um preset)
+   */
+  async clear(preset?: string): Promise<void> {
+    const snapshots = await this.list(preset);
+    for (const snapshot of snapshots) {
+      await this.delete(snapshot.name);
+    }
+  }
+
+  /**
+   * Compara dois snapshots pagina a pagina
+   * Util para saber quanto do estado mudou entre dois pontos de uma licao.
+   */
+  async diff(a: string, b: string): Promise<SnapshotDiff> {
+    const [left, right] = await Promise.all([this.load(a), this.load(b)]);
+    const leftBytes = new Uint8Array(left);
+    const rightBytes = new Uint8Array(right);
+    const totalPages = Math.ceil(Math.max(left.byteLength, right.byteLength) / DIFF_PAGE_SIZE);
+
+    let changedPages = 0;
+    for (let page = 0; page < totalPages; page++) {
+      const start = page * DIFF_PAGE_SIZE;
+      const end = start + DIFF_PAGE_SIZE;
+      for (let i = start; i < end; i++) {
+        if (leftBytes[i] !== rightBytes[i]) {
+          changedPages++;
+          break;
+        }
+      }
+    }
+
+    return {
+      sizeDelta: right.byteLength - left.byteLength,
+      changedPages,
+      totalPages,
+      changedRatio: totalPages === 0 ? 0 : changedPages / totalPages,
+    };
+  }
+
+  /**
+   * Adiciona listener para mudancas na lista de snapshots
+   * @returns Funcao para remover o listener
+   */
+  onChange(listener: () => void): () => void {
+    let listeners = changeListeners.get(this.dbName);
+    if (!listeners) {
+      listeners = new Set();
+      changeListeners.set(this.dbName, listeners);
+    }
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  /**
+   * Fecha a conexao com o IndexedDB
+   */
+  async close(): Promise<void> {
+    if (this.dbPromise) {
+      (await this.dbPromise).close();
+      this.dbPromise = null;
+    }
+  }
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(this.dbName);
+    }
+    return this.dbPromise;
+  }
+
+  private emitChange(): void {
+    changeListeners.get(this.dbName)?.forEach((listener) => listener());
+  }
+
+  private complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Gera uma miniatura reduzida da tela atual (apenas browser)
+   */
+  private async captureThumbnail(): Promise<string | undefined> {
+    const screenshot = this.controller.makeScreenshot();
+    if (!screenshot || typeof document === 'undefined') {
+      return undefined;
+    }
+
+    try {
+      let source: HTMLImageElement | HTMLCanvasElement;
+      if (screenshot instanceof HTMLImageElement) {
+        await screenshot.decode();
+        source = screenshot;
+      } else if (screenshot instanceof HTMLCanvasElement) {
+        source = screenshot;
+      } else {
+        return undefined;
+      }
+
+      if (!source.width || !source.height) {
+        return undefined;
+      }
+
+      const canvas = document.createElement('canvas');
+      canvas.width = this.thumbnailWidth;
+      canvas.height = Math.round((source.height / source.width) * this.thumbnailWidth);
+      canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+      return canvas.toDataURL('image/png');
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export default SnapshotManager;
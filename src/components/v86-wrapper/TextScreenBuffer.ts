@@ -0,0 +1,327 @@
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Celula da tela em modo texto
+ */
+export interface TextScreenCell {
+  /** Caractere convertido para Unicode (CP437) */
+  char: string;
+  /** Codigo original do caractere (0-255) */
+  code: number;
+  /** Cor do texto (indice da paleta VGA, 0-15) */
+  fg: number;
+  /** Cor de fundo (indice da paleta VGA, 0-15) */
+  bg: number;
+}
+
+/**
+ * Posicao do cursor
+ */
+export interface TextScreenCursor {
+  row: number;
+  col: number;
+}
+
+/**
+ * Opcoes do TextScreenBuffer
+ */
+export interface TextScreenBufferOptions {
+  /** Colunas iniciais (padrao: 80) */
+  cols?: number;
+  /** Linhas iniciais (padrao: 25) */
+  rows?: number;
+  /** Maximo de linhas guardadas no scrollback (padrao: 1000) */
+  scrollback?: number;
+}
+
+// Atributo VGA padrao: cinza claro sobre preto
+const DEFAULT_ATTRIBUTE = 0x07;
+
+// Code page 437 (fonte da BIOS VGA) para Unicode
+const CP437_LOW = ' ☺☻♥♦♣♠•◘○◙♂♀♪♫☼►◄↕‼¶§▬↨↑↓→←∟↔▲▼';
+const CP437_HIGH =
+  'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+  'αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0';
+
+function cp437ToChar(code: number): string {
+  if (code < 32) return CP437_LOW[code];
+  if (code === 127) return '⌂';
+  if (code > 127) return CP437_HIGH[code - 128];
+  return String.fromCharCode(code);
+}
+
+/**
+ * Modelo da tela VGA em modo texto alimentado pelos eventos
+ * screen-put-char e screen-set-size do v86
+ * Mantem caracteres, cores, cursor e scrollback sem depender do
+ * screen_adapter interno. Mudancas sao agrupadas e notificadas uma vez
+ * por lote de escrita.
+ *
+ * @example
+ * ```ts
+ * const screen = controller.getTextScreenBuffer();
+ * screen.onChange(() => console.log(screen.getText()));
+ * screen.getCell(0, 0); // { char: "W", code: 87, fg: 7, bg: 0 }
+ * ```
+ */
+export class TextScreenBuffer {
+  private _cols: number;
+  private _rows: number;
+  private maxScrollback: number;
+  private codes: Uint8Array;
+  private attributes: Uint8Array;
+  private cursor: TextScreenCursor = { row: 0, col: 0 };
+  private scrollback: string[] = [];
+  private scrolled = 0;
+  private committedLines: string[];
+  private written = false;
+  private flushScheduled = false;
+  private listeners: Set<(buffer: TextScreenBuffer) => void> = new Set();
+
+  constructor(options: TextScreenBufferOptions = {}) {
+    this._cols = options.cols ?? 80;
+    this._rows = options.rows ?? 25;
+    this.maxScrollback = options.scrollback ?? 1000;
+    this.codes = new Uint8Array(this._cols * this._rows);
+    this.attributes = new Uint8Array(this._cols * this._rows).fill(DEFAULT_ATTRIBUTE);
+    this.committedLines = this.getTrimmedLines();
+  }
+
+  /**
+   * Numero de colunas
+   */
+  get cols(): number {
+    return this._cols;
+  }
+
+  /**
+   * Numero de linhas
+   */
+  get rows(): number {
+    return this._rows;
+  }
+
+  /**
+   * Total de linhas que rolaram para fora da tela desde o ultimo clear()
+   * Nao e limitado pelo tamanho do scrollback.
+   */
+  get scrolledLines(): number {
+    return this.scrolled;
+  }
+
+  /**
+   * Indica se algum caractere ja foi escrito
+   */
+  get hasContent(): boolean {
+    return this.written;
+  }
+
+  // ============================================
+  // ENTRADA (eventos do emulador)
+  // ============================================
+
+  /**
+   * Escreve um caractere (evento screen-put-char)
+   * @param attribute Atributo VGA (bg << 4 | fg); mantem o atual se omitido
+   */
+  putChar(row: number, col: number, code: number, attribute?: number): void {
+    if (row < 0 || col < 0 || row >= this._rows || col >= this._cols) return;
+
+    const index = row * this._cols + col;
+    this.codes[index] = code;
+    if (attribute !== undefined) {
+      this.attributes[index] = attribute;
+    }
+    this.written = true;
+    this.scheduleFlush();
+  }
+
+  /**
+   * Redimensiona a tela (evento screen-set-size em modo texto)
+   * O conteudo e descartado, como acontece no hardware ao trocar de modo.
+   */
+  setSize(cols: number, rows: number): void {
+    if (cols === this._cols && rows === this._rows) return;
+
+    this._cols = cols;
+    this._rows = rows;
+    this.codes = new Uint8Array(cols * rows);
+    this.attributes = new Uint8Array(cols * rows).fill(DEFAULT_ATTRIBUTE);
+    this.cursor = { row: 0, col: 0 };
+    this.committedLines = this.getTrimmedLines();
+    this.scheduleFlush();
+  }
+
+  /**
+   * Atualiza a posicao do cursor
+   */
+  setCursor(row: number, col: number): void {
+    if (row === this.cursor.row && col === this.cursor.col) return;
+    this.cursor = { row, col };
+    this.scheduleFlush();
+  }
+
+  /**
+   * Limpa a tela e o scrollback
+   */
+  clear(): void {
+    this.codes.fill(0);
+    this.attributes.fill(DEFAULT_ATTRIBUTE);
+    this.cursor = { row: 0, col: 0 };
+    this.scrollback = [];
+    this.scrolled = 0;
+    this.committedLines = this.getTrimmedLines();
+    this.written = false;
+    this.scheduleFlush();
+  }
+
+  // ============================================
+  // LEITURA
+  // ============================================
+
+  /**
+   * Retorna uma celula da tela
+   */
+  getCell(row: number, col: number): TextScreenCell | undefined {
+    if (row < 0 || col < 0 || row >= this._rows || col >= this._cols) return undefined;
+
+    const index = row * this._cols + col;
+    const code = this.codes[index];
+    const attribute = this.attributes[index];
+    return { char: cp437ToChar(code), code, fg: attribute & 0x0f, bg: attribute >> 4 };
+  }
+
+  /**
+   * Retorna uma linha com a largura completa da tela
+   */
+  getLine(row: number): string {
+    let line = '';
+    const start = row * this._cols;
+    for (let col = 0; col < this._cols; col++) {
+      line += cp437ToChar(this.codes[start + col]);
+    }
+    return line;
+  }
+
+  /**
+   * Retorna todas as linhas visiveis (largura completa)
+   */
+  getLines(): string[] {
+    return Array.from({ length: this._rows }, (_, row) => this.getLine(row));
+  }
+
+  /**
+   * Retorna o texto visivel, sem espacos no fim das linhas
+   */
+  getText(): string {
+    return this.getTrimmedLines().join('\n');
+  }
+
+  /**
+   * Retorna o texto entre duas celulas (inclusive), como uma selecao de terminal
+   * A ordem dos extremos nao importa; espacos no fim de cada linha sao removidos.
+   */
+  getTextRange(from: TextScreenCursor, to: TextScreenCursor): string {
+    const [start, end] =
+      from.row * this._cols + from.col <= to.row * this._cols + to.col ? [from, to] : [to, from];
+    const lines: string[] = [];
+
+    for (let row = Math.max(start.row, 0); row <= Math.min(end.row, this._rows - 1); row++) {
+      const first = row === start.row ? start.col : 0;
+      const last = row === end.row ? end.col : this._cols - 1;
+      lines.push(
+        this.getLine(row)
+          .slice(first, last + 1)
+          .trimEnd()
+      );
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Retorna as linhas que sairam pelo topo da tela (mais antigas primeiro)
+   */
+  getScrollback(): string[] {
+    return [...this.scrollback];
+  }
+
+  /**
+   * Retorna a posicao do cursor
+   */
+  getCursor(): TextScreenCursor {
+    return { ...this.cursor };
+  }
+
+  /**
+   * Adiciona listener chamado apos cada lote de mudancas
+   * @returns Funcao para remover o listener
+   */
+  onChange(listener: (buffer: TextScreenBuffer) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ============================================
+  // INTERNOS
+  // ============================================
+
+  private getTrimmedLines(): string[] {
+    return this.getLines().map((line) => line.trimEnd());
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushScheduled) return;
+    this.flushScheduled = true;
+    // O v86 escreve a tela inteira de forma sincrona ao rolar; agrupa o lote
+    queueMicrotask(() => this.flush());
+  }
+
+  private flush(): void {
+    this.flushScheduled = false;
+
+    const lines = this.getTrimmedLines();
+    const shift = this.detectScroll(this.committedLines, lines);
+    if (shift > 0) {
+      this.scrolled += shift;
+      this.scrollback.push(...this.committedLines.slice(0, shift));
+      if (this.scrollback.length > this.maxScrollback) {
+        this.scrollback.splice(0, this.scrollback.length - this.maxScrollback);
+      }
+    }
+    this.committedLines = lines;
+
+    this.listeners.forEach((listener) => listener(this));
+  }
+
+  /**
+   * Detecta quantas linhas a tela rolou entre dois lotes
+   * comparando as linhas atuais com as anteriores deslocadas
+   */
+  private detectScroll(previous: string[], current: string[]): number {
+    const rows = current.length;
+    if (previous.length !== rows) return 0;
+    if (previous.every((line, row) => line === current[row])) return 0;
+
+    for (let shift = 1; shift < rows; shift++) {
+      let matched = 0;
+      let ok = true;
+      for (let row = 0; row < rows - shift; row++) {
+        const before = previous[row + shift];
+        // A ultima linha antiga pode ter recebido mais texto no mesmo lote
+        const same =
+          row === rows - shift - 1 ? current[row].startsWith(before) : current[row] === before;
+        if (!same) {
+          ok = false;
+          break;
+        }
+        if (before !== '') matched++;
+      }
+      if (ok && matched > 0) return shift;
+    }
+    return 0;
+  }
+}
+
+export default TextScreenBuffer;
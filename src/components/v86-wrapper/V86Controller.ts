@@ -1,4 +1,28 @@
 import type { V86, V86Image, Event as V86Event } from '../../types/v86';
+import { CommandQueue, type CommandQueueState } from './CommandQueue';
+import { stripAnsi, shellQuote, escapeRegExp } from './shell';
+import { GuestAgent, type GuestAgentInstallOptions, type GuestAgentOptions } from './GuestAgent';
+import { createZip, readZip, type ZipEntry } from './zip';
+import { SnapshotManager, type SnapshotManagerOptions } from './SnapshotManager';
+import { TextScreenBuffer } from './TextScreenBuffer';
+import { SessionRecorder, type SessionRecorderOptions } from './SessionRecorder';
+import {
+  KeyboardTranslator,
+  getKeyboardLayout,
+  textToScancodes,
+  typeTextInChunks,
+  type KeyboardLayout,
+  type KeyboardLayoutName,
+  type TypeTextOptions,
+} from './keyboard';
+import {
+  DEFAULT_GUEST_EVENT_CHANNEL,
+  sendGuestEvent,
+  watchGuestEvents,
+  type GuestEvent,
+  type GuestEventChannel,
+  type GuestEventMap,
+} from './guestEvents';
 
 /**
  * Opcoes para aguardar texto na tela VGA
@@ -16,6 +40,189 @@ export interface ExecuteCommandOptions {
   timeout?: number;
   /** Marcador de fim de comando */
   endMarker?: string;
+  /** Porta serial onde o shell esta escutando (padrao: 0) */
+  serialPort?: number;
+  /** Prioridade na fila de comandos da porta (maior executa antes; padrao: 0) */
+  priority?: number;
+  /** Sinal para cancelar o comando (remove da fila ou envia Ctrl-C se ja executando) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Resultado estruturado de um comando executado via runCommand
+ */
+export interface CommandResult {
+  /** Output do comando (sem echo, sem marcador e sem sequencias ANSI) */
+  stdout: string;
+  /** Exit status ($?) do comando, ou null se houve timeout */
+  exitCode: number | null;
+  /** Duracao total em milissegundos */
+  durationMs: number;
+  /** Indica se o comando excedeu o timeout */
+  timedOut: boolean;
+}
+
+/**
+ * Trecho de output entregue durante a execucao de um comando
+ */
+export interface CommandOutputChunk {
+  stream: 'stdout' | 'stderr';
+  data: string;
+}
+
+/**
+ * Opcoes para execucao com stdout e stderr separados
+ */
+export interface StreamCommandOptions extends ExecuteCommandOptions {
+  /** Porta serial que recebe o stderr (padrao: 1) */
+  stderrPort?: number;
+  /** Dispositivo do guest correspondente a porta do stderr (padrao: /dev/ttyS<porta>) */
+  stderrDevice?: string;
+  /** Chamado para cada trecho de output ja limpo, na ordem de chegada */
+  onChunk?: (chunk: CommandOutputChunk) => void;
+}
+
+/**
+ * Resultado de um comando com stdout e stderr separados
+ */
+export interface StreamCommandResult extends CommandResult {
+  /** Output de erro do comando */
+  stderr: string;
+}
+
+/**
+ * Metadados de um arquivo no filesystem 9p
+ */
+export interface FileStat {
+  path: string;
+  name: string;
+  size: number;
+  mode: number;
+  /** Data de modificacao (ms desde epoch) */
+  mtime: number;
+  isDirectory: boolean;
+  isFile: boolean;
+  isSymbolicLink: boolean;
+}
+
+/**
+ * Arvore de arquivos em JSON: strings/bytes sao arquivos, objetos sao diretorios
+ *
+ * @example
+ * ```ts
+ * const tree: FileTree = {
+ *   "main.c": "int main() { return 0; }",
+ *   src: { "util.h": "#pragma once" },
+ * };
+ * ```
+ */
+export interface FileTree {
+  [name: string]: string | Uint8Array | FileTree;
+}
+
+/**
+ * Erro de operacao no filesystem 9p (codigos no estilo POSIX)
+ */
+export class FilesystemError extends Error {
+  readonly code:
+    | 'ENOENT'
+    | 'EEXIST'
+    | 'ENOTDIR'
+    | 'EISDIR'
+    | 'ENOTEMPTY'
+    | 'ENOSYS'
+    | 'EIO'
+    | 'EINVAL';
+  readonly path: string;
+
+  constructor(code: FilesystemError['code'], operation: string, path: string) {
+    super(`${code}: ${operation} '${path}'`);
+    this.name = 'FilesystemError';
+    this.code = code;
+    this.path = path;
+  }
+}
+
+/**
+ * Opcoes de withCheckpoint
+ */
+export interface WithCheckpointOptions<T> {
+  /** Nome do checkpoint (padrao: gerado automaticamente) */
+  label?: string;
+  /** Validacao do resultado; retornar false restaura o checkpoint */
+  validate?: (result: T) => boolean | Promise<boolean>;
+  /** Manter o checkpoint apos sucesso (padrao: false) */
+  keep?: boolean;
+  /** Porta serial cuja fila de comandos e cancelada no rollback (padrao: 0) */
+  port?: number;
+}
+
+/**
+ * Erro lancado por withCheckpoint quando a validacao falha (a VM ja foi restaurada)
+ */
+export class CheckpointValidationError extends Error {
+  readonly label: string;
+
+  constructor(label: string) {
+    super(`Validation failed; rolled back to checkpoint '${label}'`);
+    this.name = 'CheckpointValidationError';
+    this.label = label;
+  }
+}
+
+/**
+ * Subconjunto do estado interno da VGA do v86 (src/vga.js)
+ * Usado apenas para ler cores e cursor, que os eventos nao informam.
+ */
+interface V86Vga {
+  vga_memory: Uint8Array;
+  start_address: number;
+  cursor_address: number;
+  max_cols: number;
+  offset_register: number;
+}
+
+/**
+ * Subconjunto da API interna do filesystem 9p do v86 (lib/filesystem.js)
+ */
+interface V86Filesystem {
+  SearchPath(path: string): { id: number; parentid: number; name: string };
+  CreateDirectory(name: string, parentid: number): number;
+  CreateBinaryFile(name: string, parentid: number, data: Uint8Array): Promise<number>;
+  Rename(olddirid: number, oldname: string, newdirid: number, newname: string): Promise<number>;
+  Unlink(parentid: number, name: string): number;
+  GetInode(id: number): { size: number; mode: number; mtime: number };
+  IsDirectory(id: number): boolean;
+  read_dir(path: string): string[] | undefined;
+  read_file(path: string): Promise<Uint8Array | null>;
+}
+
+// Codigos de erro retornados pelo filesystem do v86 (errno negativo)
+const FS_ENOTEMPTY = -39;
+
+const S_IFMT = 0o170000;
+const S_IFDIR = 0o040000;
+const S_IFREG = 0o100000;
+const S_IFLNK = 0o120000;
+
+/**
+ * Normaliza um caminho absoluto ("//a/b/" -> "/a/b")
+ */
+function normalizePath(path: string): string {
+  const parts = path.split('/').filter((part) => part && part !== '.');
+  return '/' + parts.join('/');
+}
+
+/**
+ * Junta um nome relativo (entrada de zip ou FileTree) a pasta de destino
+ * Segmentos ".." sao rejeitados: o SearchPath do v86 os resolve, e um
+ * arquivo poderia ser escrito fora da pasta (zip-slip).
+ */
+function joinPath(base: string, name: string): string {
+  if (name.split(/[\\/]/).includes('..')) {
+    throw new FilesystemError('EINVAL', 'upload', name);
+  }
+  return normalizePath(`${base}/${name}`);
 }
 
 /**
@@ -33,8 +240,10 @@ export interface DownloadProgress {
 /**
  * Dados do evento screen-put-char
  * [row, col, char_code, bg_color, fg_color]
+ * Nota: builds recentes do v86 enviam apenas [row, col, char_code];
+ * use getTextScreenBuffer() para obter as cores.
  */
-export type ScreenPutCharData = [number, number, number, number, number];
+export type ScreenPutCharData = [number, number, number, number?, number?];
 
 /**
  * Dados do evento screen-set-size
@@ -47,9 +256,26 @@ export type ScreenSetSizeData = [number, number, number];
  */
 export type V86EventListener<T = unknown> = (data: T) => void;
 
+const DEFAULT_END_MARKER = '___V86_CMD_DONE___';
+
+// Tempo maximo para o stderr terminar de chegar depois do exit status
+const STDERR_GRACE_MS = 1000;
+
+// Tempo maximo para o shell voltar ao prompt apos o Ctrl-C de um comando que excedeu o timeout
+const TIMEOUT_RECOVERY_MS = 5000;
+
+/**
+ * Identificador unico de um comando (marcadores de fim nao se confundem entre comandos)
+ */
+function createCommandNonce(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
 /**
  * Utilitario dev-friendly para controle avancado da instancia V86
  * Prove metodos para comunicacao, ciclo de vida, filesystem e comandos
+ * Tambem funciona com uma instancia criada em Node sem tela (createHeadlessEmulator);
+ * nesse caso os metodos de tela, mouse e download sao ignorados ou retornam null.
  *
  * @example
  * ```tsx
@@ -72,6 +298,27 @@ export class V86Controller {
   private serialListeners: Set<(data: string) => void> = new Set();
   private eventListeners: Map<V86Event, Set<(...args: unknown[]) => void>> = new Map();
   private serialByteListener: ((byte: number) => void) | null = null;
+  // Portas seriais alem da serial0 (registradas sob demanda)
+  private portListeners: Map<number, Set<(char: string) => void>> = new Map();
+  private portByteListeners: Map<number, (byte: number) => void> = new Map();
+  private commandQueues: Map<number, CommandQueue> = new Map();
+  // Listeners das filas por porta (sobrevivem ao detach, que recria as filas)
+  private queueListeners: Map<number, Set<(state: CommandQueueState) => void>> = new Map();
+  private guestAgent: GuestAgent | null = null;
+  // Um manager por combinacao de opcoes (banco, preset, miniatura)
+  private snapshotManagers: Map<string, SnapshotManager> = new Map();
+  // Checkpoints em memoria (label -> estado)
+  private checkpoints: Map<string, { state: ArrayBuffer; port: number }> = new Map();
+  private nextCheckpointId = 1;
+  // Modelo da tela em modo texto (alimentado por screen-put-char/screen-set-size)
+  private textScreen: TextScreenBuffer = new TextScreenBuffer();
+  private screenPutCharListener: ((data: ScreenPutCharData) => void) | null = null;
+  private screenSetSizeListener: ((data: ScreenSetSizeData) => void) | null = null;
+  private recorder: SessionRecorder | null = null;
+  // Traducao de texto e teclas do browser para o mapa de teclado do guest
+  private keyboard: KeyboardTranslator = new KeyboardTranslator();
+  // Canal dos eventos estruturados entre guest e pagina
+  private guestEventChannel: GuestEventChannel = DEFAULT_GUEST_EVENT_CHANNEL;
 
   constructor(emulator?: V86 | null) {
     if (emulator) {
@@ -85,6 +332,8 @@ export class V86Controller {
   attach(emulator: V86): void {
     this.emulator = emulator;
     this.setupSerialListener();
+    this.setupScreenListeners();
+    this.portListeners.forEach((_, port) => this.setupPortListener(port));
   }
 
   /**
@@ -96,6 +345,27 @@ export class V86Controller {
       this.emulator.remove_listener('serial0-output-byte', this.serialByteListener);
       this.serialByteListener = null;
     }
+    this.portByteListeners.forEach((listener, port) => {
+      this.emulator?.remove_listener(`serial${port}-output-byte` as V86Event, listener);
+    });
+    this.portByteListeners.clear();
+    this.portListeners.clear();
+    this.removeScreenListeners();
+
+    // Cancela comandos pendentes
+    this.commandQueues.forEach((queue) => queue.clear(new Error('Controller detached')));
+    this.commandQueues.clear();
+    // Quem observa as filas passa a ver as novas (vazias)
+    this.queueListeners.forEach((listeners, port) => {
+      const state = this.getCommandQueueState(port);
+      listeners.forEach((listener) => listener(state));
+    });
+
+    this.guestAgent?.dispose();
+    this.guestAgent = null;
+
+    // Estados de checkpoint sao da VM desanexada (e ocupam memoria)
+    this.checkpoints.clear();
 
     // Remove todos os listeners registrados
     this.eventListeners.forEach((listeners, event) => {
@@ -188,12 +458,124 @@ export class V86Controller {
     return this.restoreState(state);
   }
 
+  /**
+   * Cria um checkpoint em memoria com o estado atual
+   * Um checkpoint com o mesmo label e sobrescrito.
+   * @param port Porta serial dona do checkpoint (padrao: 0)
+   */
+  async checkpoint(label: string, port: number = 0): Promise<void> {
+    const state = await this.saveState();
+    if (!state) {
+      throw new Error('Cannot create checkpoint: emulator not attached');
+    }
+    this.checkpoints.set(label, { state, port });
+  }
+
+  /**
+   * Restaura a VM para um checkpoint
+   * O estado restaurado vale para todas as portas: o comando em execucao em
+   * cada fila e cancelado, pois seu processo e seu marcador pertencem ao estado
+   * descartado. Na porta dona do checkpoint os pendentes tambem sao cancelados;
+   * nas outras (outros widgets) eles comecam apos a restauracao.
+   */
+  async rollback(label: string): Promise<void> {
+    const checkpoint = this.checkpoints.get(label);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${label}`);
+    }
+    const reason = new Error(`Rolled back to '${label}'`);
+    const queues = Array.from(this.commandQueues.values());
+    const releases = queues.map((queue) => queue.hold());
+    try {
+      queues.forEach((queue) => {
+        if (queue.port === checkpoint.port) {
+          queue.clear(reason);
+        } else {
+          queue.abortRunning(reason);
+        }
+      });
+      await this.restoreState(checkpoint.state);
+    } finally {
+      releases.forEach((release) => release());
+    }
+  }
+
+  /**
+   * Verifica se existe um checkpoint
+   */
+  hasCheckpoint(label: string): boolean {
+    return this.checkpoints.has(label);
+  }
+
+  /**
+   * Lista os labels dos checkpoints existentes
+   */
+  listCheckpoints(): string[] {
+    return Array.from(this.checkpoints.keys());
+  }
+
+  /**
+   * Remove um checkpoint (libera a memoria do estado)
+   */
+  deleteCheckpoint(label: string): boolean {
+    return this.checkpoints.delete(label);
+  }
+
+  /**
+   * Executa fn protegida por um checkpoint
+   * Se fn lancar erro ou a validacao falhar, a VM volta ao estado anterior.
+   *
+   * @example
+   * ```ts
+   * await controller.withCheckpoint(
+   *   () => controller.runCommand(studentCommand),
+   *   { validate: async () => controller.fileExists("/etc/passwd") }
+   * );
+   * ```
+   */
+  async withCheckpoint<T>(
+    fn: (controller: V86Controller) => Promise<T>,
+    options: WithCheckpointOptions<T> = {}
+  ): Promise<T> {
+    const {
+      label = `__checkpoint_${this.nextCheckpointId++}`,
+      validate,
+      keep = false,
+      port = 0,
+    } = options;
+
+    await this.checkpoint(label, port);
+    try {
+      let result: T;
+      try {
+        result = await fn(this);
+      } catch (error) {
+        await this.rollback(label);
+        throw error;
+      }
+
+      if (validate && !(await validate(result))) {
+        await this.rollback(label);
+        throw new CheckpointValidationError(label);
+      }
+      return result;
+    } finally {
+      if (!keep) {
+        this.checkpoints.delete(label);
+      }
+    }
+  }
+
   /**
    * Salva o estado em um arquivo para download (apenas browser)
+   * Fora do browser use saveState() e grave o ArrayBuffer retornado.
    */
   async downloadState(filename = 'v86state.bin'): Promise<void> {
+    if (typeof document === 'undefined') {
+      throw new Error('downloadState() requires a browser; use saveState() instead');
+    }
     const state = await this.saveState();
-    if (state && typeof window !== 'undefined') {
+    if (state) {
       const blob = new Blob([state]);
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -233,6 +615,7 @@ export class V86Controller {
 
     // Cria novo listener e armazena referencia para cleanup
     this.serialByteListener = (byte: number) => {
+      this.recorder?.recordOutputByte(byte);
       const char = String.fromCharCode(byte);
       this.serialBuffer += char;
       this.serialListeners.forEach((listener) => listener(char));
@@ -245,6 +628,7 @@ export class V86Controller {
    * Envia string para o terminal serial
    */
   sendSerial(data: string): void {
+    this.recorder?.recordInput(data);
     this.emulator?.serial0_send(data);
   }
 
@@ -255,6 +639,60 @@ export class V86Controller {
     this.emulator?.serial_send_bytes(serial, data);
   }
 
+  /**
+   * Envia string para uma porta serial especifica
+   */
+  sendSerialTo(port: number, data: string): void {
+    if (port === 0) {
+      this.sendSerial(data);
+    } else {
+      this.sendSerialBytes(port, new TextEncoder().encode(data));
+    }
+  }
+
+  /**
+   * Verifica se a porta serial existe na VM (uart1-3 dependem de serialPorts)
+   * NOTA: Usa API interna do v86 (cpu.devices); sem acesso a ela assume que sim.
+   */
+  hasSerialPort(port: number): boolean {
+    if (port === 0) return true;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const devices = (this.emulator as any)?.v86?.cpu?.devices;
+    return !devices || devices[`uart${port}`] !== undefined;
+  }
+
+  /**
+   * Adiciona listener para output de uma porta serial especifica (0-3)
+   * @returns Funcao para remover o listener
+   */
+  onSerialPortOutput(port: number, listener: (char: string) => void): () => void {
+    if (port === 0) {
+      return this.onSerialOutput(listener);
+    }
+
+    let listeners = this.portListeners.get(port);
+    if (!listeners) {
+      listeners = new Set();
+      this.portListeners.set(port, listeners);
+    }
+    listeners.add(listener);
+
+    this.setupPortListener(port);
+
+    return () => listeners.delete(listener);
+  }
+
+  private setupPortListener(port: number): void {
+    if (this.portByteListeners.has(port) || !this.emulator) return;
+
+    const byteListener = (byte: number) => {
+      const char = String.fromCharCode(byte);
+      this.portListeners.get(port)?.forEach((listener) => listener(char));
+    };
+    this.emulator.add_listener(`serial${port}-output-byte` as V86Event, byteListener);
+    this.portByteListeners.set(port, byteListener);
+  }
+
   /**
    * Adiciona listener para output serial
    * @returns Funcao para remover o listener
@@ -338,10 +776,67 @@ export class V86Controller {
   // ============================================
 
   /**
-   * Envia texto via teclado (assume layout US)
+   * Define o mapa de teclado do guest (padrao: "us")
+   * O guest precisa usar o mesmo mapa (ex: `loadkeys br-abnt2` no bootstrap).
+   */
+  setKeyboardLayout(layout: KeyboardLayoutName | KeyboardLayout): void {
+    this.keyboard.setLayout(layout);
+  }
+
+  /**
+   * Retorna o mapa de teclado do guest em uso
+   */
+  getKeyboardLayout(): KeyboardLayout {
+    return this.keyboard.getLayout();
+  }
+
+  /**
+   * Envia texto via teclado, de uma vez, no mapa de teclado do guest
+   * Caracteres sem tecla no mapa sao ignorados; para textos longos use typeText.
+   * @param layout Mapa desta chamada (ex: "us" antes do loadkeys no guest)
    */
-  sendKeyboardText(text: string): void {
-    this.emulator?.keyboard_send_text(text);
+  sendKeyboardText(text: string, layout?: KeyboardLayoutName | KeyboardLayout): void {
+    this.recorder?.recordInput(text);
+    const { scancodes } = textToScancodes(
+      text,
+      layout ? getKeyboardLayout(layout) : this.keyboard.getLayout()
+    );
+    this.emulator?.keyboard_send_scancodes(scancodes);
+  }
+
+  /**
+   * Digita um texto longo aos poucos (colar como digitacao)
+   * Cancelavel por options.signal; resolve quando o texto todo foi enviado.
+   *
+   * @example
+   * ```ts
+   * await controller.typeText(codigoColado, { chunkSize: 8, delay: 50 });
+   * ```
+   */
+  async typeText(text: string, options: TypeTextOptions = {}): Promise<void> {
+    const send = (scancodes: number[], chunk: string) => {
+      this.recorder?.recordInput(chunk);
+      this.emulator?.keyboard_send_scancodes(scancodes);
+    };
+    await typeTextInChunks(text, this.keyboard.getLayout(), send, options);
+  }
+
+  /**
+   * Envia um keydown do browser ao guest, traduzido para o mapa de teclado do guest
+   * Compoe teclas mortas (ex: "~" e "a" = "ã") e ignora eventos de IME em composicao.
+   * @returns true se a tecla foi tratada (o chamador deve chamar preventDefault)
+   */
+  handleKeyDown(event: KeyboardEvent): boolean {
+    const translated = this.keyboard.translateKeyDown(event);
+    if (!translated) return false;
+
+    if (translated.text) {
+      this.recorder?.recordInput(translated.text);
+    }
+    if (translated.scancodes.length) {
+      this.emulator?.keyboard_send_scancodes(translated.scancodes);
+    }
+    return true;
   }
 
   /**
@@ -378,9 +873,10 @@ export class V86Controller {
   }
 
   /**
-   * Bloqueia o cursor do mouse (apenas browser)
+   * Bloqueia o cursor do mouse (apenas browser; ignorado sem DOM)
    */
   lockMouse(): void {
+    if (typeof document === 'undefined') return;
     this.emulator?.lock_mouse();
   }
 
@@ -390,8 +886,10 @@ export class V86Controller {
 
   /**
    * Captura screenshot (apenas browser)
+   * Retorna null sem tela VGA (ex: em Node); use getScreenText() para o modo texto.
    */
   makeScreenshot(): HTMLElement | null {
+    if (typeof document === 'undefined') return null;
     return this.emulator?.screen_make_screenshot() ?? null;
   }
 
@@ -403,19 +901,29 @@ export class V86Controller {
   }
 
   /**
-   * Modo fullscreen (apenas browser)
+   * Modo fullscreen (apenas browser; ignorado sem tela VGA)
    */
   goFullscreen(): void {
     this.emulator?.screen_go_fullscreen();
   }
 
+  /**
+   * Retorna o modelo da tela em modo texto (celulas, cores, cursor e scrollback)
+   * O buffer e mantido pelos eventos screen-put-char e screen-set-size.
+   */
+  getTextScreenBuffer(): TextScreenBuffer {
+    return this.textScreen;
+  }
+
   /**
    * Obtem o conteudo da tela em modo texto (array de linhas)
-   * Nota: Esta funcionalidade requer acesso interno ao emulador.
-   * Para uso em producao, considere capturar eventos screen-put-char.
    */
   getTextScreen(): string[] {
-    // Acesso interno - nao faz parte da API publica do v86
+    if (this.textScreen.hasContent) {
+      return this.textScreen.getLines();
+    }
+
+    // Controller anexado depois da tela ser escrita: usa o adapter interno
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const adapter = (this.emulator as any)?.screen_adapter;
     if (adapter && typeof adapter.get_text_screen === 'function') {
@@ -459,46 +967,92 @@ export class V86Controller {
     const { timeout_msec = 30000 } = options;
     const patterns = Array.isArray(expected) ? expected : [expected];
 
+    const matches = () => {
+      const screenText = this.getScreenText();
+      return patterns.some((pattern) =>
+        typeof pattern === 'string' ? screenText.includes(pattern) : pattern.test(screenText)
+      );
+    };
+
+    // Verifica imediatamente
+    if (matches()) {
+      return true;
+    }
+
     return new Promise((resolve) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+      // Reavalia a cada lote de mudancas na tela (sem polling)
+      const unsubscribe = this.textScreen.onChange(() => {
+        if (matches()) {
+          cleanup();
+          resolve(true);
+        }
+      });
+
       const cleanup = () => {
+        unsubscribe();
         if (timeoutId) clearTimeout(timeoutId);
-        if (intervalId) clearInterval(intervalId);
       };
 
-      const checkScreen = () => {
-        const screenText = this.getScreenText();
-        for (const pattern of patterns) {
-          if (typeof pattern === 'string') {
-            if (screenText.includes(pattern)) {
-              cleanup();
-              resolve(true);
-              return;
-            }
-          } else {
-            if (pattern.test(screenText)) {
-              cleanup();
-              resolve(true);
-              return;
-            }
-          }
-        }
-      };
+      if (timeout_msec > 0) {
+        timeoutId = setTimeout(() => {
+          cleanup();
+          resolve(false);
+        }, timeout_msec);
+      }
+    });
+  }
+
+  private setupScreenListeners(): void {
+    this.removeScreenListeners();
+    this.textScreen.clear();
+
+    this.screenPutCharListener = ([row, col, code]: ScreenPutCharData) => {
+      const vga = this.getVga();
+      if (!vga) {
+        this.textScreen.putChar(row, col, code);
+        return;
+      }
 
-      // Verifica imediatamente
-      checkScreen();
+      // Mesmo calculo de endereco de vga_memory_write_text_mode (sem split screen)
+      const lineWidth = Math.max(vga.max_cols, 2 * vga.offset_register);
+      const cell = vga.start_address + row * lineWidth + col;
+      this.textScreen.putChar(row, col, code, vga.vga_memory[(cell << 1) | 1]);
 
-      // Polling a cada 100ms
-      const intervalId = setInterval(checkScreen, 100);
+      const cursor = vga.cursor_address - vga.start_address;
+      if (cursor >= 0) {
+        this.textScreen.setCursor(Math.floor(cursor / lineWidth), cursor % lineWidth);
+      }
+    };
 
-      // Timeout
-      const timeoutId =
-        timeout_msec > 0
-          ? setTimeout(() => {
-            cleanup();
-            resolve(false);
-          }, timeout_msec)
-          : undefined;
-    });
+    this.screenSetSizeListener = ([width, height, bpp]: ScreenSetSizeData) => {
+      // bpp 0 indica modo texto (width/height em caracteres)
+      if (bpp === 0) {
+        this.textScreen.setSize(width, height);
+      }
+    };
+
+    this.emulator?.add_listener('screen-put-char', this.screenPutCharListener);
+    this.emulator?.add_listener('screen-set-size', this.screenSetSizeListener);
+  }
+
+  private removeScreenListeners(): void {
+    if (this.screenPutCharListener) {
+      this.emulator?.remove_listener('screen-put-char', this.screenPutCharListener);
+      this.screenPutCharListener = null;
+    }
+    if (this.screenSetSizeListener) {
+      this.emulator?.remove_listener('screen-set-size', this.screenSetSizeListener);
+      this.screenSetSizeListener = null;
+    }
+  }
+
+  private getVga(): V86Vga | undefined {
+    // Acesso interno - nao faz parte da API publica do v86
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const vga = (this.emulator as any)?.v86?.cpu?.devices?.vga;
+    return vga?.vga_memory ? vga : undefined;
   }
 
   // ============================================
@@ -532,43 +1086,289 @@ export class V86Controller {
   }
 
   /**
-   * Verifica se um arquivo existe (via execução de comando)
-   * Requer que o sistema esteja pronto
+   * Retorna o filesystem 9p interno do emulador
+   * NOTA: Usa API interna do v86 (emulator.fs9p) nao documentada em v86.d.ts.
+   */
+  private getFilesystem(operation: string, path: string): V86Filesystem {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const fs = (this.emulator as any)?.fs9p as V86Filesystem | undefined;
+    if (!fs) {
+      throw new FilesystemError('ENOSYS', operation, path);
+    }
+    return fs;
+  }
+
+  /**
+   * Cria um diretorio no filesystem 9p
+   * Por padrao cria tambem os diretorios intermediarios (como `mkdir -p`).
+   */
+  async mkdir(path: string, options: { recursive?: boolean } = {}): Promise<void> {
+    const { recursive = true } = options;
+    const fs = this.getFilesystem('mkdir', path);
+    const parts = normalizePath(path).split('/').filter(Boolean);
+
+    let current = '';
+    for (let i = 0; i < parts.length; i++) {
+      current += '/' + parts[i];
+      const found = fs.SearchPath(current);
+      const isLast = i === parts.length - 1;
+
+      if (found.id === -1) {
+        if (found.parentid === -1 || (!recursive && !isLast)) {
+          throw new FilesystemError('ENOENT', 'mkdir', current);
+        }
+        fs.CreateDirectory(parts[i], found.parentid);
+      } else if (!fs.IsDirectory(found.id)) {
+        throw new FilesystemError('ENOTDIR', 'mkdir', current);
+      } else if (isLast && !recursive) {
+        throw new FilesystemError('EEXIST', 'mkdir', current);
+      }
+    }
+  }
+
+  /**
+   * Obtem metadados de um arquivo ou diretorio no filesystem 9p
+   * @returns null se o caminho nao existir
+   */
+  async stat(path: string): Promise<FileStat | null> {
+    const fs = this.getFilesystem('stat', path);
+    const normalized = normalizePath(path);
+    const found = fs.SearchPath(normalized);
+    if (found.id === -1) {
+      return null;
+    }
+
+    const inode = fs.GetInode(found.id);
+    const type = inode.mode & S_IFMT;
+    return {
+      path: normalized,
+      name: normalized.split('/').pop() ?? '',
+      size: inode.size,
+      mode: inode.mode,
+      mtime: inode.mtime * 1000,
+      isDirectory: type === S_IFDIR,
+      isFile: type === S_IFREG,
+      isSymbolicLink: type === S_IFLNK,
+    };
+  }
+
+  /**
+   * Lista as entradas de um diretorio no filesystem 9p (sem . e ..)
+   */
+  async readdir(path: string): Promise<string[]> {
+    const fs = this.getFilesystem('readdir', path);
+    const normalized = normalizePath(path);
+    const found = fs.SearchPath(normalized);
+    if (found.id === -1) {
+      throw new FilesystemError('ENOENT', 'readdir', normalized);
+    }
+    if (!fs.IsDirectory(found.id)) {
+      throw new FilesystemError('ENOTDIR', 'readdir', normalized);
+    }
+    return fs.read_dir(normalized) ?? [];
+  }
+
+  /**
+   * Move/renomeia um arquivo ou diretorio no filesystem 9p
+   */
+  async rename(from: string, to: string): Promise<void> {
+    const fs = this.getFilesystem('rename', from);
+    const source = fs.SearchPath(normalizePath(from));
+    if (source.id === -1) {
+      throw new FilesystemError('ENOENT', 'rename', from);
+    }
+    const target = fs.SearchPath(normalizePath(to));
+    if (target.parentid === -1) {
+      throw new FilesystemError('ENOENT', 'rename', to);
+    }
+
+    const result = await fs.Rename(source.parentid, source.name, target.parentid, target.name);
+    if (result < 0) {
+      throw new FilesystemError('EIO', 'rename', from);
+    }
+  }
+
+  /**
+   * Remove um arquivo do filesystem 9p
+   */
+  async unlink(path: string): Promise<void> {
+    const fs = this.getFilesystem('unlink', path);
+    const found = fs.SearchPath(normalizePath(path));
+    if (found.id === -1) {
+      throw new FilesystemError('ENOENT', 'unlink', path);
+    }
+    if (fs.IsDirectory(found.id)) {
+      throw new FilesystemError('EISDIR', 'unlink', path);
+    }
+    fs.Unlink(found.parentid, found.name);
+  }
+
+  /**
+   * Remove um diretorio do filesystem 9p
+   * Com `recursive: true` remove tambem todo o conteudo (como `rm -r`).
+   */
+  async rmdir(path: string, options: { recursive?: boolean } = {}): Promise<void> {
+    const fs = this.getFilesystem('rmdir', path);
+    const normalized = normalizePath(path);
+    const found = fs.SearchPath(normalized);
+    if (found.id === -1) {
+      throw new FilesystemError('ENOENT', 'rmdir', normalized);
+    }
+    if (!fs.IsDirectory(found.id)) {
+      throw new FilesystemError('ENOTDIR', 'rmdir', normalized);
+    }
+
+    if (options.recursive) {
+      for (const name of fs.read_dir(normalized) ?? []) {
+        const child = joinPath(normalized, name);
+        const childFound = fs.SearchPath(child);
+        if (fs.IsDirectory(childFound.id)) {
+          await this.rmdir(child, options);
+        } else {
+          fs.Unlink(childFound.parentid, childFound.name);
+        }
+      }
+    }
+
+    if (fs.Unlink(found.parentid, found.name) === FS_ENOTEMPTY) {
+      throw new FilesystemError('ENOTEMPTY', 'rmdir', normalized);
+    }
+  }
+
+  /**
+   * Envia uma pasta inteira para o filesystem 9p
+   * Aceita uma arvore JSON ou um arquivo ZIP (Uint8Array, ArrayBuffer ou Blob).
+   *
+   * @example
+   * ```ts
+   * await controller.uploadDirectory({ "main.c": code, include: { "util.h": header } }, "/projeto");
+   * await controller.uploadDirectory(await fetch("/projeto.zip").then((r) => r.blob()), "/projeto");
+   * ```
+   */
+  async uploadDirectory(
+    source: FileTree | Uint8Array | ArrayBuffer | Blob,
+    targetPath: string = '/'
+  ): Promise<void> {
+    const target = normalizePath(targetPath);
+    await this.mkdir(target);
+
+    if (source instanceof Blob || source instanceof ArrayBuffer || source instanceof Uint8Array) {
+      const bytes =
+        source instanceof Blob
+          ? new Uint8Array(await source.arrayBuffer())
+          : source instanceof ArrayBuffer
+            ? new Uint8Array(source)
+            : source;
+      for (const entry of await readZip(bytes)) {
+        const path = joinPath(target, entry.path);
+        if (entry.path.endsWith('/')) {
+          await this.mkdir(path);
+        } else {
+          await this.mkdir(path.slice(0, path.lastIndexOf('/')) || '/');
+          await this.createFile(path, entry.data);
+        }
+      }
+      return;
+    }
+
+    for (const [name, value] of Object.entries(source)) {
+      const path = joinPath(target, name);
+      if (typeof value === 'string' || value instanceof Uint8Array) {
+        await this.createFile(path, value);
+      } else {
+        await this.uploadDirectory(value, path);
+      }
+    }
+  }
+
+  /**
+   * Baixa uma pasta inteira do filesystem 9p
+   * @param format "tree" (padrao) retorna uma arvore JSON com conteudo em texto;
+   *               "zip" retorna os bytes de um arquivo ZIP
+   */
+  async downloadDirectory(path: string, options?: { format?: 'tree' }): Promise<FileTree>;
+  async downloadDirectory(path: string, options: { format: 'zip' }): Promise<Uint8Array>;
+  async downloadDirectory(
+    path: string,
+    options: { format?: 'tree' | 'zip' } = {}
+  ): Promise<FileTree | Uint8Array> {
+    const root = normalizePath(path);
+
+    if (options.format === 'zip') {
+      const entries: ZipEntry[] = [];
+      const collect = async (dir: string, prefix: string) => {
+        for (const name of await this.readdir(dir)) {
+          const child = joinPath(dir, name);
+          const info = await this.stat(child);
+          if (info?.isDirectory) {
+            entries.push({ path: `${prefix}${name}/`, data: new Uint8Array() });
+            await collect(child, `${prefix}${name}/`);
+          } else if (info?.isFile) {
+            entries.push({
+              path: `${prefix}${name}`,
+              data: (await this.readFile(child)) ?? new Uint8Array(),
+            });
+          }
+        }
+      };
+      await collect(root, '');
+      return createZip(entries);
+    }
+
+    const tree: FileTree = {};
+    for (const name of await this.readdir(root)) {
+      const child = joinPath(root, name);
+      const info = await this.stat(child);
+      if (info?.isDirectory) {
+        tree[name] = await this.downloadDirectory(child);
+      } else if (info?.isFile) {
+        tree[name] = (await this.readFileAsText(child)) ?? '';
+      }
+    }
+    return tree;
+  }
+
+  /**
+   * Verifica se um arquivo existe
+   * Usa o guest agent quando instalado; caso contrario executa comando no shell
    */
   async fileExists(path: string): Promise<boolean> {
-    try {
-      const result = await this.executeCommand(
-        `test -e "${path}" && echo "exists" || echo "not_exists"`
+    if (this.guestAgent?.isReady) {
+      return this.guestAgent.stat(path).then(
+        () => true,
+        () => false
       );
-      return result.includes('exists') && !result.includes('not_exists');
-    } catch {
-      return false;
     }
+    const result = await this.runCommand(`test -e ${shellQuote(path)}`);
+    return result.exitCode === 0;
   }
 
   /**
-   * Remove um arquivo (via execução de comando)
-   * Requer que o sistema esteja pronto
+   * Remove um arquivo
+   * Usa o guest agent quando instalado; caso contrario executa comando no shell
    */
   async deleteFile(path: string): Promise<boolean> {
-    try {
-      await this.executeCommand(`rm -f "${path}"`);
-      return true;
-    } catch {
-      return false;
+    const command = `rm -f ${shellQuote(path)}`;
+    if (this.guestAgent?.isReady) {
+      return (await this.guestAgent.exec(command)).exitCode === 0;
     }
+    const result = await this.runCommand(command);
+    return result.exitCode === 0;
   }
 
   /**
-   * Lista arquivos em um diretório (via execução de comando)
+   * Lista arquivos em um diretório
+   * Usa o guest agent quando instalado; caso contrario executa comando no shell
    */
   async listFiles(path: string = '/'): Promise<string[]> {
-    try {
-      const result = await this.executeCommand(`ls -1 "${path}"`);
-      return result.trim().split('\n').filter(Boolean);
-    } catch {
+    if (this.guestAgent?.isReady) {
+      return this.guestAgent.readdir(path).catch(() => []);
+    }
+    const result = await this.runCommand(`ls -1 ${shellQuote(path)}`);
+    if (result.exitCode !== 0) {
       return [];
     }
+    return result.stdout.trim().split('\n').filter(Boolean);
   }
 
   // ============================================
@@ -625,38 +1425,235 @@ export class V86Controller {
    * ```
    */
   async executeCommand(command: string, options: ExecuteCommandOptions = {}): Promise<string> {
-    const { timeout = 30000, endMarker = '___V86_CMD_DONE___' } = options;
+    const result = await this.runCommand(command, options);
+    if (result.timedOut) {
+      throw new Error(`Command timeout after ${options.timeout ?? 30000}ms: ${command}`);
+    }
+    return result.stdout.trim();
+  }
+
+  /**
+   * Executa um comando no shell e retorna um resultado estruturado
+   * O exit status ($?) e transportado no proprio marcador de fim, entao o
+   * resultado nao depende de heuristicas sobre o texto do output.
+   * Em caso de timeout a Promise resolve com `timedOut: true` e o output parcial.
+   *
+   * @param command Comando a executar
+   * @param options Opcoes de execucao
+   * @returns stdout limpo, exit code, duracao e flag de timeout
+   *
+   * @example
+   * ```ts
+   * const { stdout, exitCode } = await controller.runCommand("gcc main.c -o main");
+   * if (exitCode !== 0) {
+   *   console.log("Falhou:", stdout);
+   * }
+   * ```
+   */
+  async runCommand(command: string, options: ExecuteCommandOptions = {}): Promise<CommandResult> {
+    const { serialPort = 0, priority, signal } = options;
+    const { stderr: _stderr, ...result } = await this.getCommandQueue(serialPort).enqueue(
+      (queueSignal) => this.runCommandNow(command, options, queueSignal),
+      { priority, signal, label: command }
+    );
+    return result;
+  }
+
+  /**
+   * Executa um comando separando stdout e stderr
+   * O stderr e redirecionado no guest para outra porta serial (padrao: /dev/ttyS1),
+   * que o controller escuta separadamente da serial do shell.
+   *
+   * @param command Comando a executar
+   * @param options Opcoes de execucao, porta do stderr e callback de streaming
+   * @returns stdout, stderr, exit code, duracao e flag de timeout
+   *
+   * @example
+   * ```ts
+   * const result = await controller.runCommandWithStderr("gcc main.c -o main", {
+   *   onChunk: ({ stream, data }) => append(stream, data),
+   * });
+   * if (result.exitCode !== 0) showErrors(result.stderr);
+   * ```
+   */
+  async runCommandWithStderr(
+    command: string,
+    options: StreamCommandOptions = {}
+  ): Promise<StreamCommandResult> {
+    const { serialPort = 0, priority, signal } = options;
+    const stderrPort = options.stderrPort ?? 1;
+    const stderrDevice = options.stderrDevice ?? `/dev/ttyS${stderrPort}`;
+
+    // Sem a UART o redirecionamento falha no guest e o comando nem roda
+    if (!this.hasSerialPort(stderrPort)) {
+      throw new Error(
+        `Serial port ${stderrPort} is not enabled (serialPorts must be at least ${stderrPort + 1})`
+      );
+    }
+
+    return this.getCommandQueue(serialPort).enqueue(
+      (queueSignal) =>
+        this.runCommandNow(command, options, queueSignal, {
+          port: stderrPort,
+          device: stderrDevice,
+        }),
+      { priority, signal, label: command }
+    );
+  }
+
+  /**
+   * Executa o comando imediatamente, sem passar pela fila
+   * O output e processado linha a linha: a linha ecoada pelo shell e descartada,
+   * sequencias ANSI e CR sao removidas e cada trecho limpo e repassado ao onChunk.
+   * O marcador de fim leva um nonce do comando, entao o marcador atrasado de um
+   * comando anterior nao encerra este e o fim e reconhecido mesmo sem echo
+   * (stty -echo); o echo serve apenas para descartar a linha do comando.
+   * No timeout o comando recebe Ctrl-C e a fila so e liberada quando o shell
+   * volta ao prompt (ou apos TIMEOUT_RECOVERY_MS).
+   */
+  private runCommandNow(
+    command: string,
+    options: StreamCommandOptions,
+    signal: AbortSignal,
+    stderrCapture?: { port: number; device: string }
+  ): Promise<StreamCommandResult> {
+    const { timeout = 30000, endMarker = DEFAULT_END_MARKER, serialPort = 0, onChunk } = options;
+    const marker = `${endMarker}:${createCommandNonce()}`;
+    const stderrMarker = `${marker}:stderr`;
+    // O echo do comando contem `${marker}:$?` literal, que nao casa com \d+
+    const markerPattern = new RegExp(`${escapeRegExp(marker)}:(\\d+)`);
+    const echoTail = `${marker}:$?"`;
+    const startedAt = Date.now();
+
+    // Preserva o exit status do comando original apos o marcador do stderr
+    const wrapped = stderrCapture
+      ? `{ ${command}; } 2>${stderrCapture.device}; __v86_rc=$?; ` +
+        `echo "${stderrMarker}" >${stderrCapture.device}; (exit $__v86_rc)`
+      : command;
 
     return new Promise((resolve, reject) => {
-      let output = '';
+      const output = { stdout: '', stderr: '' };
+      let stdoutLine = '';
+      let stderrLine = '';
+      let exitCode: number | null = null;
+      let stderrDone = !stderrCapture;
+      let timedOut = false;
+      let graceId: ReturnType<typeof setTimeout> | undefined;
+      let recoveryId: ReturnType<typeof setTimeout> | undefined;
+
+      const emit = (stream: 'stdout' | 'stderr', data: string) => {
+        if (!data) return;
+        output[stream] += data;
+        onChunk?.({ stream, data });
+      };
+
+      const cleanLine = (line: string) => stripAnsi(line).replace(/\r/g, '');
+
+      const handleStdoutLine = (line: string) => {
+        // Linha ecoada do comando (com o prompt na frente)
+        if (line.includes(echoTail)) return;
+        const match = markerPattern.exec(line);
+        if (timedOut) {
+          // Shell de volta ao prompt apos o Ctrl-C: a fila pode seguir
+          if (match) finish();
+          return;
+        }
+        if (match) {
+          emit('stdout', line.slice(0, match.index));
+          exitCode = Number(match[1]);
+          if (stderrDone) {
+            finish();
+          } else {
+            // O stderr pode chegar um pouco depois; nao espera indefinidamente
+            graceId = setTimeout(finish, STDERR_GRACE_MS);
+          }
+          return;
+        }
+        emit('stdout', line);
+      };
+
+      const handleStderrLine = (line: string) => {
+        if (timedOut) return;
+        const index = line.indexOf(stderrMarker);
+        if (index !== -1) {
+          emit('stderr', line.slice(0, index));
+          stderrDone = true;
+          if (exitCode !== null) finish();
+          return;
+        }
+        emit('stderr', line);
+      };
 
       const cleanup = () => {
         clearTimeout(timeoutId);
-        this.serialListeners.delete(listener);
+        clearTimeout(graceId);
+        clearTimeout(recoveryId);
+        removeStdoutListener();
+        removeStderrListener();
+        signal.removeEventListener('abort', onAbort);
       };
 
-      const listener = (char: string) => {
-        output += char;
-        if (output.includes(endMarker)) {
-          cleanup();
-          // Remove o marker e o comando echo do output
-          const cleanOutput = output
-            .replace(new RegExp(`echo ${endMarker}[\\r\\n]*`), '')
-            .replace(endMarker, '')
-            .trim();
-          resolve(cleanOutput);
-        }
+      const finish = () => {
+        cleanup();
+        resolve({
+          ...output,
+          exitCode,
+          durationMs: Date.now() - startedAt,
+          timedOut,
+        });
       };
 
-      const timeoutId = setTimeout(() => {
+      const onAbort = () => {
         cleanup();
-        reject(new Error(`Command timeout after ${timeout}ms: ${command}`));
+        // Interrompe o comando em execucao no guest
+        this.sendSerialTo(serialPort, '\x03');
+        reject(signal.reason);
+      };
+
+      const removeStdoutListener = this.onSerialPortOutput(serialPort, (char: string) => {
+        stdoutLine += char;
+        if (char !== '\n') return;
+        const line = cleanLine(stdoutLine);
+        stdoutLine = '';
+        handleStdoutLine(line);
+      });
+
+      const removeStderrListener = stderrCapture
+        ? this.onSerialPortOutput(stderrCapture.port, (char: string) => {
+            stderrLine += char;
+            if (char !== '\n') return;
+            const line = cleanLine(stderrLine);
+            stderrLine = '';
+            handleStderrLine(line);
+          })
+        : () => {};
+
+      const timeoutId = setTimeout(() => {
+        // Comando ja terminou; faltava so o stderr
+        if (exitCode !== null) {
+          finish();
+          return;
+        }
+
+        // Repassa o que ficou sem quebra de linha antes de desistir
+        const pendingStdout = cleanLine(stdoutLine);
+        if (!pendingStdout.includes(echoTail)) emit('stdout', pendingStdout);
+        if (stderrCapture) emit('stderr', cleanLine(stderrLine));
+        stdoutLine = '';
+        timedOut = true;
+        exitCode = null;
+
+        // Interrompe o comando e pede o marcador de novo: ele so aparece com o
+        // shell de volta ao prompt (o proximo comando nao cai no stdin deste)
+        this.sendSerialTo(serialPort, '\x03');
+        this.sendSerialTo(serialPort, `echo "${marker}:$?"\n`);
+        recoveryId = setTimeout(finish, TIMEOUT_RECOVERY_MS);
       }, timeout);
 
-      this.serialListeners.add(listener);
+      signal.addEventListener('abort', onAbort);
 
-      // Envia comando seguido de echo do marker
-      this.sendSerial(`${command}; echo ${endMarker}\n`);
+      // Envia comando seguido de echo do marcador com o exit status
+      this.sendSerialTo(serialPort, `${wrapped}; echo "${marker}:$?"\n`);
     });
   }
 
@@ -680,8 +1677,65 @@ export class V86Controller {
     waitFor: string | RegExp,
     options: WaitForScreenOptions = {}
   ): Promise<string> {
-    this.sendSerial(command + '\n');
-    return this.waitForSerialOutput(waitFor, options);
+    return this.getCommandQueue(0).enqueue(
+      () => {
+        this.sendSerial(command + '\n');
+        return this.waitForSerialOutput(waitFor, options);
+      },
+      { label: command }
+    );
+  }
+
+  // ============================================
+  // FILA DE COMANDOS
+  // ============================================
+
+  /**
+   * Retorna a fila de comandos de uma porta serial (criada sob demanda)
+   * Todos os comandos de uma mesma porta sao executados um por vez.
+   */
+  getCommandQueue(port: number = 0): CommandQueue {
+    let queue = this.commandQueues.get(port);
+    if (!queue) {
+      const created = new CommandQueue(port);
+      // Fila descartada no detach nao notifica mais (seu ultimo estado e antigo)
+      created.onChange((state) => {
+        if (this.commandQueues.get(port) !== created) return;
+        this.queueListeners.get(port)?.forEach((listener) => listener(state));
+      });
+      this.commandQueues.set(port, created);
+      queue = created;
+    }
+    return queue;
+  }
+
+  /**
+   * Retorna o estado atual da fila de comandos de uma porta
+   */
+  getCommandQueueState(port: number = 0): CommandQueueState {
+    return this.getCommandQueue(port).getState();
+  }
+
+  /**
+   * Adiciona listener para mudancas na fila de comandos de uma porta
+   * O listener continua valendo apos detach/attach (a fila e recriada).
+   * @returns Funcao para remover o listener
+   */
+  onCommandQueueChange(listener: (state: CommandQueueState) => void, port: number = 0): () => void {
+    let listeners = this.queueListeners.get(port);
+    if (!listeners) {
+      listeners = new Set();
+      this.queueListeners.set(port, listeners);
+    }
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  /**
+   * Cancela todos os comandos pendentes e em execucao de uma porta
+   */
+  cancelCommands(port: number = 0): void {
+    this.commandQueues.get(port)?.clear();
   }
 
   // ============================================
@@ -896,6 +1950,175 @@ export class V86Controller {
   onVirtioConsoleOutput(callback: V86EventListener<Uint8Array>): () => void {
     return this.on('virtio-console0-output-bytes', callback);
   }
+
+  /**
+   * Envia dados para o virtio console (recebidos pelo guest em /dev/hvc0)
+   * NOTA: Este metodo usa API interna do v86 (bus.send) nao documentada.
+   */
+  sendVirtioConsole(data: Uint8Array | string): void {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (this.emulator as any)?.bus?.send?.('virtio-console0-input-bytes', bytes);
+  }
+
+  // ============================================
+  // GUEST AGENT
+  // ============================================
+
+  /**
+   * Instala (se necessario) e retorna o agente de guest sobre virtio console
+   * Requer `virtioConsole: true` e um shell pronto na serial0 para a instalacao.
+   *
+   * @example
+   * ```ts
+   * const agent = await controller.installGuestAgent();
+   * const entries = await agent.readdir("/root");
+   * ```
+   */
+  async installGuestAgent(
+    options: GuestAgentInstallOptions & GuestAgentOptions = {}
+  ): Promise<GuestAgent> {
+    const agent = this.getGuestAgent(options);
+    await agent.install(options);
+    return agent;
+  }
+
+  /**
+   * Retorna o cliente do agente de guest (sem instalar)
+   * Util quando o agente ja e iniciado pela propria imagem.
+   */
+  getGuestAgent(options: GuestAgentOptions = {}): GuestAgent {
+    if (!this.guestAgent) {
+      this.guestAgent = new GuestAgent(this, options);
+    }
+    return this.guestAgent;
+  }
+
+  /**
+   * Ajusta o tamanho do tty de uma porta serial (`stty -F /dev/ttyS<porta>`)
+   * Vai pelo guest agent, fora da banda: nada e digitado no shell da porta.
+   * @returns false se o agente nao estiver pronto ou o stty falhar
+   */
+  async resizeSerialTty(port: number, cols: number, rows: number): Promise<boolean> {
+    if (!this.guestAgent?.isReady) {
+      return false;
+    }
+    const result = await this.guestAgent.exec(
+      `stty -F /dev/ttyS${port} rows ${Math.floor(rows)} cols ${Math.floor(cols)}`
+    );
+    return result.exitCode === 0;
+  }
+
+  // ============================================
+  // EVENTOS DO GUEST
+  // ============================================
+
+  /**
+   * Define o canal dos eventos do guest (padrao: serial3)
+   * Vale para os proximos onGuestEvent e para sendGuestEvent.
+   */
+  setGuestEventChannel(channel: GuestEventChannel): void {
+    this.guestEventChannel = channel;
+  }
+
+  /**
+   * Retorna o canal dos eventos do guest
+   */
+  getGuestEventChannel(): GuestEventChannel {
+    return this.guestEventChannel;
+  }
+
+  /**
+   * Adiciona listener para eventos que o guest escreve no canal
+   * Cada evento e uma linha `@v86-event:{"type":...,"data":...}`; o guest pode
+   * usar as funcoes de getGuestEventScript (`v86_emit tipo json`).
+   * Como os demais listeners, e removido no detach.
+   * @returns Funcao para remover o listener
+   *
+   * @example
+   * ```ts
+   * controller.onGuestEvent((event) => {
+   *   if (event.type === "exercise-passed") console.log(event.data);
+   * });
+   * ```
+   */
+  onGuestEvent<M extends GuestEventMap = GuestEventMap>(
+    listener: (event: GuestEvent<M>) => void
+  ): () => void {
+    return watchGuestEvents(this, this.guestEventChannel, listener as (event: GuestEvent) => void);
+  }
+
+  /**
+   * Envia um evento da pagina para o guest (lido com `v86_next_event`)
+   */
+  sendGuestEvent(type: string, data?: unknown): void {
+    sendGuestEvent(this, this.guestEventChannel, type, data);
+  }
+
+  // ============================================
+  // SNAPSHOTS
+  // ============================================
+
+  /**
+   * Retorna o gerenciador de snapshots nomeados (IndexedDB)
+   * O manager sobrevive a detach/attach, entao snapshots salvos em uma
+   * instancia podem ser restaurados na proxima. Chamadas com as mesmas
+   * opcoes retornam o mesmo manager.
+   *
+   * @example
+   * ```ts
+   * await controller.getSnapshotManager().create("antes-do-exercicio");
+   * ```
+   */
+  getSnapshotManager(options: SnapshotManagerOptions = {}): SnapshotManager {
+    const key = JSON.stringify([options.dbName, options.preset, options.thumbnailWidth]);
+    let manager = this.snapshotManagers.get(key);
+    if (!manager) {
+      manager = new SnapshotManager(this, options);
+      this.snapshotManagers.set(key, manager);
+    }
+    return manager;
+  }
+
+  // ============================================
+  // GRAVACAO DE SESSAO
+  // ============================================
+
+  /**
+   * Inicia a gravacao da sessao serial (output da serial0 e input enviado)
+   * Uma gravacao anterior em andamento e substituida.
+   *
+   * @example
+   * ```ts
+   * controller.startRecording({ title: "Demo" });
+   * await controller.runCommand("ls -la");
+   * controller.stopRecording()?.download("demo.cast");
+   * ```
+   */
+  startRecording(options: SessionRecorderOptions = {}): SessionRecorder {
+    this.recorder?.stop();
+    this.recorder = new SessionRecorder(options);
+    this.recorder.start();
+    return this.recorder;
+  }
+
+  /**
+   * Encerra a gravacao atual
+   * @returns O recorder com a gravacao, ou null se nao havia gravacao
+   */
+  stopRecording(): SessionRecorder | null {
+    const recorder = this.recorder;
+    recorder?.stop();
+    this.recorder = null;
+    return recorder;
+  }
+
+  /**
+   * Retorna o recorder em andamento, se houver
+   */
+  getRecorder(): SessionRecorder | null {
+    return this.recorder;
+  }
 }
 
 /**
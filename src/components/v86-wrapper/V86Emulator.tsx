@@ -1,21 +1,55 @@
-import { useEffect, useLayoutEffect, useRef, useCallback } from 'react';
-import type { V86 as V86Type, V86Options, V86Image } from '../../types/v86';
-// Import the wasm file path from the v86 package for proper bundler resolution
-import v86WasmUrl from 'v86/build/v86.wasm?url';
+import { useEffect, useLayoutEffect, useRef, useCallback, type CSSProperties } from 'react';
+import type { V86 as V86Type } from '../../types/v86';
+import {
+  resolveEmulatorConfig,
+  getEmulatorConfigKey,
+  createV86Options,
+  loadV86,
+  preflightEmulator,
+  watchEmulatorFailures,
+  applyPrebuiltState,
+  type ResolvedEmulatorConfig,
+} from './emulatorOptions';
+import { createDownloadError, toV86Error, type V86Error } from './errors';
+import type { BootstrapConfig } from './bootstrap';
+import { attachNetwork, type V86NetworkMode } from './network';
 
 // ============================================
 // TIPOS E INTERFACES
 // ============================================
 
-export type V86ImagePreset = 'alpine' | 'buildroot' | 'linux4';
+/**
+ * Nome de um preset de imagem
+ * Alem dos embutidos, aceita qualquer nome registrado com registerPreset().
+ */
+export type V86ImagePreset = 'alpine' | 'buildroot' | 'linux4' | (string & {});
 
 /**
  * Configuracao de rede para o emulador
+ *
+ * @example
+ * ```tsx
+ * // Duas VMs da pagina na mesma rede (IPs definidos no bootstrap)
+ * <Terminal preset="buildroot" network={{ mode: "loopback" }}
+ *   bootstrap={{ commands: ["ifconfig eth0 10.5.0.2 netmask 255.255.255.0 up"] }} />
+ * <Terminal preset="buildroot" network={{ mode: "loopback" }}
+ *   bootstrap={{ commands: ["ifconfig eth0 10.5.0.3 netmask 255.255.255.0 up"] }} />
+ * ```
  */
 export interface V86NetworkConfig {
+  /**
+   * Modo de conexao (padrao: "relay" se houver relay_url, senao "none")
+   * Em "loopback" e "relay" nao ha DHCP: configure o IP do guest (ex: no bootstrap).
+   */
+  mode?: V86NetworkMode;
+  /**
+   * Rede compartilhada pelas VMs nos modos "loopback" e "relay" local (padrao: "default")
+   * VMs com segmentos diferentes nao se enxergam.
+   */
+  segment?: string;
   /** Tipo de dispositivo de rede */
   type?: 'ne2k' | 'virtio';
-  /** URL do relay websocket */
+  /** URL do relay websocket (modo "relay"; padrao: relay local em /v86-relay) */
   relay_url?: string;
   /** ID do dispositivo */
   id?: number;
@@ -88,6 +122,23 @@ export interface V86EmulatorConfig {
   disableJit?: boolean;
   /** Buscar bzimage e initrd do filesystem */
   bzimageInitrdFromFilesystem?: boolean;
+  /** Renderizar a tela VGA (padrao: true; false para usar apenas a serial) */
+  screen?: boolean;
+  /**
+   * Numero de portas seriais, 1-4 (padrao: 4)
+   * serial1 recebe o stderr dos comandos e serial3 os eventos do guest.
+   */
+  serialPorts?: number;
+  /**
+   * Login e preparacao do ambiente apos o boot
+   * Executado pelo Terminal e pelo VMPool (o V86Emulator apenas repassa a config).
+   */
+  bootstrap?: BootstrapConfig;
+  /**
+   * Usar o estado pre-gerado do preset (scripts/build-v86-states.mjs) como
+   * initialStateUrl quando a configuracao for compativel (padrao: true)
+   */
+  prebuiltState?: boolean;
 }
 
 /**
@@ -95,8 +146,11 @@ export interface V86EmulatorConfig {
  */
 export interface V86EmulatorProps {
   config: V86EmulatorConfig;
-  /** Chamado quando o emulador esta pronto para uso */
-  onReady?: (emulator: V86Type) => void;
+  /**
+   * Chamado quando o emulador esta pronto para uso
+   * config e a configuracao efetiva (inclui o initialStateUrl pre-gerado, se usado).
+   */
+  onReady?: (emulator: V86Type, config: ResolvedEmulatorConfig) => void;
   /** Chamado quando o emulador comeca a executar */
   onStarted?: () => void;
   /** Chamado quando o emulador para */
@@ -113,70 +167,14 @@ export interface V86EmulatorProps {
   onDownloadProgress?: (progress: { file_name: string; loaded: number; total: number }) => void;
   /** Chamado em erro de download */
   onDownloadError?: (error: { file_name: string; error: Error }) => void;
-}
-
-// ============================================
-// PRESETS
-// ============================================
-
-const IMAGE_PRESETS: Record<V86ImagePreset, Partial<V86EmulatorConfig>> = {
-  alpine: {
-    cdromUrl: '/v86/images/alpine-virt-3.19.9-x86.iso',
-    bzimageUrl: '',
-    cmdline: '',
-  },
-  buildroot: {
-    cdromUrl: '',
-    bzimageUrl: '/v86/images/buildroot-bzimage68.bin',
-    cmdline: 'tsc=reliable mitigations=off random.trust_cpu=on',
-  },
-  linux4: {
-    cdromUrl: '/v86/images/linux4.iso',
-    bzimageUrl: '',
-    cmdline: '',
-  },
-};
-
-const DEFAULT_CONFIG: Omit<Required<V86EmulatorConfig>, 'preset' | 'network' | 'filesystem'> & {
-  network?: V86NetworkConfig;
-  filesystem?: V86FilesystemConfig;
-} = {
-  biosUrl: '/v86/bios/seabios.bin',
-  vgaBiosUrl: '/v86/bios/vgabios.bin',
-  cdromUrl: '/v86/images/alpine-virt-3.19.9-x86.iso',
-  hdaUrl: '',
-  hdbUrl: '',
-  fdaUrl: '',
-  fdbUrl: '',
-  bzimageUrl: '',
-  initrdUrl: '',
-  cmdline: '',
-  memorySize: 128 * 1024 * 1024,
-  vgaMemorySize: 8 * 1024 * 1024,
-  autostart: true,
-  disableSpeaker: true,
-  acpi: false,
-  virtioConsole: false,
-  virtioBalloon: false,
-  initialStateUrl: '',
-  preserveMacFromState: false,
-  bootOrder: 0,
-  disableJit: false,
-  bzimageInitrdFromFilesystem: false,
-};
-
-// Lazy load V86 from npm package (only in browser)
-let V86Constructor: typeof V86Type | null = null;
-
-async function loadV86(): Promise<typeof V86Type> {
-  if (V86Constructor) {
-    return V86Constructor;
-  }
-
-  // Dynamic import of the ESM module from v86 npm package
-  const v86Module = await import('v86');
-  V86Constructor = v86Module.V86;
-  return v86Module.V86;
+  /**
+   * Chamado quando o emulador nao consegue iniciar (ou o JIT falha depois)
+   * Recebe um erro tipado: AssetNotFoundError, WasmUnsupportedError,
+   * OutOfMemoryError, JitFailedError, DownloadFailedError ou V86Error (InitFailed).
+   */
+  onError?: (error: V86Error) => void;
+  /** Estilos extras do container da tela (ex: filter) */
+  style?: CSSProperties;
 }
 
 // ============================================
@@ -207,6 +205,8 @@ export function V86Emulator({
   onMouseEnable,
   onDownloadProgress,
   onDownloadError,
+  onError,
+  style,
 }: V86EmulatorProps) {
   const emulatorRef = useRef<V86Type | null>(null);
   const screenContainerRef = useRef<HTMLDivElement>(null);
@@ -215,6 +215,8 @@ export function V86Emulator({
 
   // Refs para armazenar listeners (para remocao no cleanup)
   const listenersRef = useRef<Map<string, (...args: unknown[]) => void>>(new Map());
+  // Para a observacao das falhas do emulador (WASM, memoria, JIT)
+  const stopFailureWatchRef = useRef<(() => void) | null>(null);
 
   // Refs para callbacks (evita stale closures)
   const onReadyRef = useRef(onReady);
@@ -226,6 +228,7 @@ export function V86Emulator({
   const onMouseEnableRef = useRef(onMouseEnable);
   const onDownloadProgressRef = useRef(onDownloadProgress);
   const onDownloadErrorRef = useRef(onDownloadError);
+  const onErrorRef = useRef(onError);
 
   // Atualiza refs ANTES de qualquer render (useLayoutEffect)
   // Isso garante que as refs estejam atualizadas antes dos effects filhos rodarem
@@ -239,16 +242,17 @@ export function V86Emulator({
     onMouseEnableRef.current = onMouseEnable;
     onDownloadProgressRef.current = onDownloadProgress;
     onDownloadErrorRef.current = onDownloadError;
+    onErrorRef.current = onError;
   });
 
-  const presetConfig = config.preset ? IMAGE_PRESETS[config.preset] : {};
+  const mergedConfig = resolveEmulatorConfig(config);
+  // O emulador so e recriado quando a configuracao muda de fato
+  const configKey = getEmulatorConfigKey(mergedConfig);
+  const configRef = useRef(mergedConfig);
 
-  // Filtra propriedades undefined para evitar sobrescrever defaults
-  const filteredConfig = Object.fromEntries(
-    Object.entries(config).filter(([_, v]) => v !== undefined)
-  ) as Partial<V86EmulatorConfig>;
-
-  const mergedConfig = { ...DEFAULT_CONFIG, ...presetConfig, ...filteredConfig };
+  useLayoutEffect(() => {
+    configRef.current = mergedConfig;
+  });
 
   const initializeEmulator = useCallback(async () => {
     if (isInitializedRef.current || !screenContainerRef.current) {
@@ -257,102 +261,38 @@ export function V86Emulator({
 
     isInitializedRef.current = true;
 
+    let config = configRef.current;
+    const requestedBytes = config.memorySize + config.vgaMemorySize;
+    let failed = false;
+    const fail = (error: unknown) => {
+      if (failed || !isMountedRef.current) return;
+      failed = true;
+      const v86Error = toV86Error(error, requestedBytes);
+      console.error('Failed to initialize V86 emulator:', v86Error);
+      onErrorRef.current?.(v86Error);
+    };
+
     try {
+      config = await applyPrebuiltState(config);
+      await preflightEmulator(config);
       const V86 = await loadV86();
 
-      const options: V86Options = {
-        wasm_path: v86WasmUrl,
-        memory_size: mergedConfig.memorySize,
-        vga_memory_size: mergedConfig.vgaMemorySize,
-        screen_container: screenContainerRef.current,
-        bios: { url: mergedConfig.biosUrl } as V86Image,
-        vga_bios: { url: mergedConfig.vgaBiosUrl } as V86Image,
-        autostart: mergedConfig.autostart,
-        disable_speaker: mergedConfig.disableSpeaker,
-        acpi: mergedConfig.acpi,
-        virtio_console: mergedConfig.virtioConsole,
-        virtio_balloon: mergedConfig.virtioBalloon,
-        disable_jit: mergedConfig.disableJit,
-        bzimage_initrd_from_filesystem: mergedConfig.bzimageInitrdFromFilesystem,
-      };
+      const options = createV86Options(config, screenContainerRef.current);
 
-      // Boot order
-      if (mergedConfig.bootOrder) {
-        options.boot_order = mergedConfig.bootOrder;
-      }
-
-      // Bzimage boot
-      if (mergedConfig.bzimageUrl) {
-        options.bzimage = { url: mergedConfig.bzimageUrl } as V86Image;
-        if (mergedConfig.cmdline) {
-          options.cmdline = mergedConfig.cmdline;
-        }
-        // Filesystem vazio para 9p funcionar com bzimage
-        if (!mergedConfig.filesystem) {
-          options.filesystem = {};
-        }
-      } else if (mergedConfig.cdromUrl) {
-        options.cdrom = { url: mergedConfig.cdromUrl } as V86Image;
-      }
-
-      // Initrd
-      if (mergedConfig.initrdUrl) {
-        options.initrd = { url: mergedConfig.initrdUrl } as V86Image;
-      }
-
-      // Hard disks
-      if (mergedConfig.hdaUrl) {
-        options.hda = { url: mergedConfig.hdaUrl } as V86Image;
-      }
-      if (mergedConfig.hdbUrl) {
-        options.hdb = { url: mergedConfig.hdbUrl } as V86Image;
-      }
-
-      // Floppies
-      if (mergedConfig.fdaUrl) {
-        options.fda = { url: mergedConfig.fdaUrl } as V86Image;
-      }
-      if (mergedConfig.fdbUrl) {
-        options.fdb = { url: mergedConfig.fdbUrl } as V86Image;
-      }
-
-      // Initial state
-      if (mergedConfig.initialStateUrl) {
-        options.initial_state = { url: mergedConfig.initialStateUrl } as V86Image;
-        options.preserve_mac_from_state_image = mergedConfig.preserveMacFromState;
-      }
-
-      // Filesystem
-      if (mergedConfig.filesystem) {
-        options.filesystem = {
-          baseurl: mergedConfig.filesystem.baseurl,
-          basefs: mergedConfig.filesystem.basefs,
-          handle9p: mergedConfig.filesystem.handle9p,
-          proxy_url: mergedConfig.filesystem.proxy_url,
-        };
-      }
-
-      // Network
-      if (mergedConfig.network) {
-        options.net_device = {
-          type: mergedConfig.network.type,
-          relay_url: mergedConfig.network.relay_url,
-          id: mergedConfig.network.id,
-          router_mac: mergedConfig.network.router_mac,
-          router_ip: mergedConfig.network.router_ip,
-          vm_ip: mergedConfig.network.vm_ip,
-          masquerade: mergedConfig.network.masquerade,
-          dns_method: mergedConfig.network.dns_method,
-          doh_server: mergedConfig.network.doh_server,
-          cors_proxy: mergedConfig.network.cors_proxy,
-          mtu: mergedConfig.network.mtu,
-        };
-      }
+      // Falhas de WASM/memoria/JIT do proprio emulador (ate ele ser destruido)
+      const failureWatch = watchEmulatorFailures(fail, requestedBytes);
+      stopFailureWatchRef.current = () => {
+        failureWatch.stop();
+        stopFailureWatchRef.current = null;
+      };
 
-      const emulator = new V86(options);
+      const emulator = new V86({ ...options, wasm_fn: failureWatch.loadWasm });
+      failureWatch.attach(emulator);
+      attachNetwork(emulator, config.network);
 
       // Verificar se o componente ainda esta montado (React Strict Mode pode desmontar durante init)
       if (!isMountedRef.current) {
+        stopFailureWatchRef.current?.();
         emulator.destroy().catch(() => { });
         return;
       }
@@ -371,7 +311,7 @@ export function V86Emulator({
       // Event: emulator-ready
       addTrackedListener('emulator-ready', () => {
         if (isMountedRef.current) {
-          onReadyRef.current?.(emulator);
+          onReadyRef.current?.(emulator, config);
         }
       });
 
@@ -429,41 +369,24 @@ export function V86Emulator({
       );
 
       // Event: download-error (conforme v86.d.ts)
-      addTrackedListener('download-error', ((data: { file_name: string; error: Error }) => {
+      // O v86 envia o XMLHttpRequest com falha (status HTTP) em "request"
+      addTrackedListener('download-error', ((data: {
+        file_name: string;
+        error?: Error;
+        request?: XMLHttpRequest;
+      }) => {
         if (isMountedRef.current) {
-          onDownloadErrorRef.current?.(data);
+          const error = createDownloadError(data.file_name, data.request?.status ?? 0, data.error);
+          onDownloadErrorRef.current?.({ file_name: data.file_name, error: data.error ?? error });
+          fail(error);
         }
       }) as (...args: unknown[]) => void);
     } catch (error) {
-      console.error('Failed to initialize V86 emulator:', error);
+      stopFailureWatchRef.current?.();
+      fail(error);
       isInitializedRef.current = false;
     }
-  }, [
-    mergedConfig.biosUrl,
-    mergedConfig.vgaBiosUrl,
-    mergedConfig.cdromUrl,
-    mergedConfig.hdaUrl,
-    mergedConfig.hdbUrl,
-    mergedConfig.fdaUrl,
-    mergedConfig.fdbUrl,
-    mergedConfig.bzimageUrl,
-    mergedConfig.initrdUrl,
-    mergedConfig.cmdline,
-    mergedConfig.memorySize,
-    mergedConfig.vgaMemorySize,
-    mergedConfig.autostart,
-    mergedConfig.acpi,
-    mergedConfig.virtioConsole,
-    mergedConfig.virtioBalloon,
-    mergedConfig.disableJit,
-    mergedConfig.initialStateUrl,
-    mergedConfig.preserveMacFromState,
-    mergedConfig.bootOrder,
-    mergedConfig.bzimageInitrdFromFilesystem,
-    mergedConfig.disableSpeaker,
-    mergedConfig.filesystem,
-    mergedConfig.network,
-  ]);
+  }, []);
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -474,6 +397,7 @@ export function V86Emulator({
 
     return () => {
       isMountedRef.current = false;
+      stopFailureWatchRef.current?.();
       const emulator = emulatorRef.current;
       if (emulator) {
         // Remove todos os listeners rastreados antes de destruir
@@ -499,7 +423,8 @@ export function V86Emulator({
         }
       }
     };
-  }, [initializeEmulator]);
+    // configKey: recria o emulador quando a configuracao muda
+  }, [initializeEmulator, configKey]);
 
   return (
     <div
@@ -507,13 +432,17 @@ export function V86Emulator({
       style={{
         width: '100%',
         height: '100%',
-        display: 'flex',
+        display: mergedConfig.screen ? 'flex' : 'none',
         alignItems: 'center',
         justifyContent: 'center',
         backgroundColor: '#000',
+        ...style,
       }}
     >
-      <div style={{ whiteSpace: 'pre', font: '14px monospace', lineHeight: '14px' }}></div>
+      <div
+        data-v86-text-screen
+        style={{ whiteSpace: 'pre', font: '14px monospace', lineHeight: '14px' }}
+      ></div>
       <canvas style={{ display: 'block' }}></canvas>
     </div>
   );
@@ -0,0 +1,462 @@
+import type { V86 } from '../../types/v86';
+import type { V86EmulatorConfig } from './V86Emulator';
+import {
+  V86Controller,
+  type ExecuteCommandOptions,
+  type StreamCommandOptions,
+  type WithCheckpointOptions,
+} from './V86Controller';
+import {
+  resolveEmulatorConfig,
+  createV86Options,
+  loadV86,
+  preflightEmulator,
+  applyPrebuiltState,
+  watchEmulatorFailures,
+} from './emulatorOptions';
+import { createDownloadError, toV86Error, type V86Error } from './errors';
+import { getPreset } from './presets';
+import { BootstrapError, runBootstrap } from './bootstrap';
+import { attachNetwork } from './network';
+import { escapeRegExp } from './shell';
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Opcoes do pool de VMs
+ */
+export interface VMPoolOptions {
+  /**
+   * Portas seriais distribuidas entre as sessoes, em ordem (padrao: [0, 2])
+   * A serial1 fica livre para a captura de stderr e a serial3 para os eventos
+   * do guest (veja guestEvents).
+   * Quando todas estao em uso, novas sessoes compartilham a primeira porta.
+   */
+  sessionPorts?: number[];
+  /**
+   * Prompt aguardado na serial0 antes de abrir shells nas outras portas
+   * (padrao: prompt do bootstrap, prompt do preset ou /[#$] $/m)
+   * O bootstrap da config (login, arquivos, env e comandos) roda na serial0
+   * antes das sessoes; os shells das outras portas sao abertos logo depois,
+   * ainda antes de qualquer sessao ficar pronta, e herdam as variaveis exportadas.
+   */
+  shellPrompt?: string | RegExp;
+  /** Tempo maximo para o boot chegar ao prompt em ms (padrao: 120000) */
+  bootTimeout?: number;
+  /** Espera antes de destruir uma VM sem sessoes em ms (padrao: 1000) */
+  destroyDelay?: number;
+}
+
+/**
+ * Sessao de shell em uma VM compartilhada
+ */
+export interface VMSession {
+  /** Chave da VM no pool */
+  key: string;
+  /** Porta serial da sessao */
+  port: number;
+  /** Indica se a porta e compartilhada com outra sessao (multiplexada) */
+  shared: boolean;
+  /**
+   * Resolve com o controller quando a sessao esta pronta
+   * Rejeita com V86Error se a VM nao iniciar, inclusive quando o bootstrap ou os
+   * shells das portas falham (a VM e removida do pool).
+   */
+  ready: Promise<V86Controller>;
+  /**
+   * Adiciona listener para falhas da VM depois de pronta (ex: JitFailedError)
+   * A VM que falhou sai do pool: a proxima sessao cria outra.
+   * @returns Funcao para remover o listener
+   */
+  onFailure: (listener: (error: V86Error) => void) => () => void;
+  /** Libera a sessao (a VM e destruida quando a ultima sessao sai) */
+  release: () => void;
+}
+
+interface PooledVM {
+  controller: V86Controller;
+  /** Instancia criada (pode ainda nao estar pronta) */
+  emulator: V86 | null;
+  destroyed: boolean;
+  /** Sessoes por porta (contagem de referencias) */
+  ports: Map<number, number>;
+  refCount: number;
+  attached: Promise<V86Controller>;
+  /** Resolve quando o bootstrap terminou e os shells das portas estao abertos */
+  booted: Promise<void>;
+  destroyTimer: ReturnType<typeof setTimeout> | null;
+  /** Listeners das sessoes para falhas depois do emulator-ready */
+  failureListeners: Set<(error: V86Error) => void>;
+  stopFailureWatch: () => void;
+}
+
+// ============================================
+// CONTROLLER DA SESSAO
+// ============================================
+
+/**
+ * Controller com a porta da sessao como padrao
+ * Comandos, fila, checkpoints e output serial sem porta explicita vao para a
+ * porta informada (e nao para a serial0, que pertence a outra sessao).
+ * Os demais metodos sao os do controller original (executeAndWait e
+ * waitForSerialOutput continuam lendo a serial0).
+ *
+ * @example
+ * ```ts
+ * const session = pool.acquire("capitulo-3", { preset: "buildroot" });
+ * const controller = bindControllerToPort(await session.ready, session.port);
+ * await controller.runCommand("ls"); // no shell da sessao
+ * ```
+ */
+export function bindControllerToPort(controller: V86Controller, port: number): V86Controller {
+  if (port === 0) return controller;
+
+  const withPort = <T extends ExecuteCommandOptions>(options?: T): T =>
+    ({ ...options, serialPort: options?.serialPort ?? port }) as T;
+
+  const overrides: Partial<V86Controller> = {
+    sendSerial: (data) => controller.sendSerialTo(port, data),
+    onSerialOutput: (listener) => controller.onSerialPortOutput(port, listener),
+    executeCommand: (command, options) => controller.executeCommand(command, withPort(options)),
+    runCommand: (command, options) => controller.runCommand(command, withPort(options)),
+    runCommandWithStderr: (command, options) =>
+      controller.runCommandWithStderr(command, withPort<StreamCommandOptions>(options)),
+    executeCommands: (commands, options) => controller.executeCommands(commands, withPort(options)),
+    getCommandQueue: (queuePort = port) => controller.getCommandQueue(queuePort),
+    getCommandQueueState: (queuePort = port) => controller.getCommandQueueState(queuePort),
+    onCommandQueueChange: (listener, queuePort = port) =>
+      controller.onCommandQueueChange(listener, queuePort),
+    cancelCommands: (queuePort = port) => controller.cancelCommands(queuePort),
+    checkpoint: (label, checkpointPort = port) => controller.checkpoint(label, checkpointPort),
+    withCheckpoint: <T>(
+      fn: (controller: V86Controller) => Promise<T>,
+      options: WithCheckpointOptions<T> = {}
+    ) => controller.withCheckpoint(() => fn(bound), { ...options, port: options.port ?? port }),
+  };
+
+  const bound = new Proxy(controller, {
+    get(target, property) {
+      if (Object.hasOwn(overrides, property)) {
+        return overrides[property as keyof typeof overrides];
+      }
+      const value: unknown = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+  return bound;
+}
+
+// ============================================
+// POOL
+// ============================================
+
+/**
+ * Pool de VMs compartilhadas entre varias views de terminal
+ * Cada VM e identificada por uma chave e contada por referencia:
+ * e criada na primeira sessao e destruida quando a ultima e liberada.
+ *
+ * @example
+ * ```ts
+ * const pool = new VMPool();
+ * const session = pool.acquire("capitulo-3", { preset: "buildroot" });
+ * const controller = await session.ready;
+ * controller.sendSerialTo(session.port, "ls\n");
+ * session.release();
+ * ```
+ */
+export class VMPool {
+  private vms: Map<string, PooledVM> = new Map();
+  private sessionPorts: number[];
+  private shellPrompt: string | RegExp;
+  private bootTimeout: number;
+  private destroyDelay: number;
+
+  constructor(options: VMPoolOptions = {}) {
+    this.sessionPorts = options.sessionPorts ?? [0, 2];
+    this.shellPrompt = options.shellPrompt ?? /[#$] $/m;
+    this.bootTimeout = options.bootTimeout ?? 120000;
+    this.destroyDelay = options.destroyDelay ?? 1000;
+  }
+
+  /**
+   * Abre uma sessao na VM identificada pela chave
+   * A configuracao so e usada quando a VM ainda nao existe.
+   */
+  acquire(key: string, config: V86EmulatorConfig): VMSession {
+    const vm = this.vms.get(key) ?? this.createVM(key, config);
+    if (vm.destroyTimer) {
+      clearTimeout(vm.destroyTimer);
+      vm.destroyTimer = null;
+    }
+
+    const free = this.sessionPorts.find((candidate) => !vm.ports.get(candidate));
+    const port = free ?? this.sessionPorts[0];
+    const shared = free === undefined;
+    vm.ports.set(port, (vm.ports.get(port) ?? 0) + 1);
+    vm.refCount++;
+
+    // Nenhuma sessao fica pronta antes do bootstrap e dos shells das portas:
+    // ninguem digita na serial0 enquanto eles rodam
+    const ready = vm.attached.then(async (controller) => {
+      await vm.booted;
+      return controller;
+    });
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      this.release(key, vm, port);
+    };
+
+    const onFailure = (listener: (error: V86Error) => void) => {
+      vm.failureListeners.add(listener);
+      return () => vm.failureListeners.delete(listener);
+    };
+
+    return { key, port, shared, ready, onFailure, release };
+  }
+
+  /**
+   * Retorna o controller de uma VM do pool (se existir)
+   */
+  getController(key: string): V86Controller | undefined {
+    return this.vms.get(key)?.controller;
+  }
+
+  /**
+   * Numero de sessoes abertas em uma VM
+   */
+  getSessionCount(key: string): number {
+    return this.vms.get(key)?.refCount ?? 0;
+  }
+
+  /**
+   * Destroi todas as VMs imediatamente
+   */
+  async destroyAll(): Promise<void> {
+    const vms = Array.from(this.vms.values());
+    this.vms.clear();
+    await Promise.all(
+      vms.map((vm) => {
+        if (vm.destroyTimer) clearTimeout(vm.destroyTimer);
+        return this.destroyVM(vm);
+      })
+    );
+  }
+
+  private createVM(key: string, config: V86EmulatorConfig): PooledVM {
+    const controller = new V86Controller();
+    // Sem tela VGA: as views usam as portas seriais (o padrao ja liga as 4)
+    const base = resolveEmulatorConfig({ ...config, screen: false });
+    const resolved = {
+      ...base,
+      serialPorts: Math.max(base.serialPorts, ...this.sessionPorts.map((p) => p + 1)),
+    };
+
+    const preset = config.preset ? getPreset(config.preset) : undefined;
+    const requestedBytes = resolved.memorySize + resolved.vgaMemorySize;
+    let booted: Promise<void> = Promise.resolve();
+    // Estado pre-gerado do preset so e usado se as portas seriais coincidirem
+    const attached = applyPrebuiltState(resolved)
+      .then(async (effective) => {
+        await preflightEmulator(effective);
+        return { effective, V86: await loadV86() };
+      })
+      .then(
+        ({ effective, V86 }) =>
+          new Promise<V86Controller>((resolve, reject) => {
+            if (vm.destroyed) {
+              reject(new Error('VM destroyed before it was ready'));
+              return;
+            }
+            // Antes do emulator-ready a falha rejeita o attach; depois, derruba a VM
+            let emulatorReady = false;
+            const failureWatch = watchEmulatorFailures((error) => {
+              if (emulatorReady) {
+                this.failVM(key, vm, error);
+              } else {
+                reject(error);
+              }
+            }, requestedBytes);
+            vm.stopFailureWatch = failureWatch.stop;
+            const emulator = new V86({
+              ...createV86Options(effective),
+              wasm_fn: failureWatch.loadWasm,
+            });
+            failureWatch.attach(emulator);
+            attachNetwork(emulator, effective.network);
+            vm.emulator = emulator;
+            emulator.add_listener('download-error', (data: unknown) => {
+              const { file_name, request } = data as {
+                file_name: string;
+                request?: XMLHttpRequest;
+              };
+              reject(createDownloadError(file_name, request?.status ?? 0));
+            });
+            emulator.add_listener('emulator-ready', () => {
+              emulatorReady = true;
+              if (vm.destroyed) {
+                reject(new Error('VM destroyed before it was ready'));
+                return;
+              }
+              controller.attach(emulator);
+              // Estado salvo ja esta no shell; no boot o prompt precisa ser observado desde o inicio
+              if (!effective.initialStateUrl) {
+                const bootstrap = effective.bootstrap ?? {};
+                booted = runBootstrap(
+                  controller,
+                  {
+                    ...bootstrap,
+                    login: bootstrap.login ?? preset?.login,
+                    prompt: bootstrap.prompt ?? preset?.prompt ?? this.getShellPattern(),
+                    timeout: bootstrap.timeout ?? this.bootTimeout,
+                  },
+                  'serial'
+                );
+              }
+              // Bootstrap ou shells que falham tambem tiram a VM do pool
+              booted = booted
+                .then(() => this.startSessionShells(controller))
+                .catch((error: unknown) => {
+                  this.discardVM(key, vm);
+                  throw toV86Error(error, requestedBytes);
+                });
+              booted.catch(() => {});
+              vm.booted = booted;
+              resolve(controller);
+            });
+          })
+      )
+      .catch((error: unknown) => {
+        this.discardVM(key, vm);
+        throw toV86Error(error, requestedBytes);
+      });
+
+    const vm: PooledVM = {
+      controller,
+      emulator: null,
+      destroyed: false,
+      ports: new Map(),
+      refCount: 0,
+      attached,
+      booted,
+      destroyTimer: null,
+      failureListeners: new Set(),
+      stopFailureWatch: () => {},
+    };
+    this.vms.set(key, vm);
+    return vm;
+  }
+
+  private getShellPattern(): RegExp {
+    return typeof this.shellPrompt === 'string'
+      ? new RegExp(escapeRegExp(this.shellPrompt))
+      : this.shellPrompt;
+  }
+
+  /**
+   * Abre um shell interativo em cada porta das sessoes (exceto a serial0)
+   * Roda uma vez, logo apos o bootstrap e antes de qualquer sessao ficar pronta.
+   * Cada porta ganha um laco que reabre o shell quando ele termina: o shell
+   * morto no release de uma sessao e substituido para a proxima.
+   * @throws BootstrapError
+   */
+  private async startSessionShells(controller: V86Controller): Promise<void> {
+    const ports = this.sessionPorts.filter((port) => port !== 0);
+    if (!ports.length) return;
+
+    const command = ports
+      .map((port) => {
+        const tty = `/dev/ttyS${port}`;
+        // setsid por shell: cada um vira lider de sessao com o tty como terminal de controle
+        const shell = `setsid sh -c "exec sh -i <${tty} >${tty} 2>&1"`;
+        return `(sh -c 'while :; do ${shell}; sleep 1; done' </dev/null >/dev/null 2>&1 &)`;
+      })
+      .join('; ');
+
+    const result = await controller.runCommand(command, { timeout: this.bootTimeout });
+    if (result.exitCode !== 0) {
+      throw new BootstrapError(
+        `command:${command}`,
+        `Failed to start the session shells (status ${result.exitCode})`
+      );
+    }
+  }
+
+  /**
+   * Encerra o shell de uma porta liberada (o laco abre outro)
+   * Com o guest agent pronto, mata pelo tty (`fuser -k`), inclusive programas
+   * em primeiro plano; sem ele, so resta Ctrl-C e `exit` na propria porta.
+   */
+  private resetSessionShell(vm: PooledVM, port: number): void {
+    const tty = `/dev/ttyS${port}`;
+    const agent = vm.controller.getGuestAgent();
+    if (agent.isReady) {
+      agent.exec(`fuser -k ${tty}`).catch((error) => {
+        console.warn(`Failed to reset the shell on ${tty}:`, error);
+      });
+    } else {
+      vm.controller.sendSerialTo(port, '\x03exit\n');
+    }
+  }
+
+  private release(key: string, vm: PooledVM, port: number): void {
+    const count = (vm.ports.get(port) ?? 1) - 1;
+    if (count > 0) {
+      vm.ports.set(port, count);
+    } else {
+      vm.ports.delete(port);
+      // Encerra o shell da porta (a serial0 pertence ao boot)
+      if (port !== 0 && vm.controller.isAttached()) {
+        this.resetSessionShell(vm, port);
+      }
+    }
+
+    vm.refCount--;
+    if (vm.refCount > 0) return;
+
+    // Atraso permite que uma view remontada (ex: Strict Mode) reaproveite a VM
+    vm.destroyTimer = setTimeout(() => {
+      if (this.vms.get(key) === vm) {
+        this.vms.delete(key);
+      }
+      void this.destroyVM(vm);
+    }, this.destroyDelay);
+  }
+
+  /**
+   * VM falhou depois de pronta: sai do pool e as sessoes sao avisadas
+   */
+  private failVM(key: string, vm: PooledVM, error: V86Error): void {
+    if (vm.destroyed) return;
+    vm.failureListeners.forEach((listener) => listener(error));
+    this.discardVM(key, vm);
+  }
+
+  /**
+   * VM que falhou sai do pool e e destruida: a proxima sessao cria outra
+   */
+  private discardVM(key: string, vm: PooledVM): void {
+    if (this.vms.get(key) === vm) {
+      this.vms.delete(key);
+    }
+    if (!vm.destroyed) void this.destroyVM(vm);
+  }
+
+  private async destroyVM(vm: PooledVM): Promise<void> {
+    vm.destroyed = true;
+    vm.stopFailureWatch();
+    try {
+      await vm.emulator?.destroy();
+    } catch (error) {
+      console.error('Failed to destroy pooled VM:', error);
+    }
+    vm.controller.detach();
+    vm.emulator = null;
+  }
+}
+
+export default VMPool;
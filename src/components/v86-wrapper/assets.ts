@@ -0,0 +1,65 @@
+import manifest from './v86-assets.json';
+
+// ============================================
+// MANIFESTO DE ASSETS
+// ============================================
+
+/**
+ * Assets baixados por scripts/download-v86-assets.mjs (v86-assets.json)
+ */
+export type V86AssetName = keyof typeof manifest.assets;
+
+/**
+ * Preset embutido descrito no manifesto
+ * Lido tambem por scripts/build-v86-states.mjs, por isso so contem dados JSON.
+ */
+export interface ManifestPreset {
+  label?: string;
+  /** Nomes de assets do manifesto */
+  cdrom?: string;
+  bzimage?: string;
+  initrd?: string;
+  cmdline?: string;
+  memoryMB?: number;
+  /** Prompt do shell (fonte de RegExp) */
+  prompt?: string;
+  login?: { username: string; password?: string };
+  bootstrap?: {
+    env?: Record<string, string>;
+    commands?: string[];
+    files?: { path: string; content: string }[];
+  };
+  /** Gerar estado pre-bootado com scripts/build-v86-states.mjs */
+  state?: boolean;
+}
+
+/**
+ * URL publica de um asset do manifesto (ex: "/v86/bios/seabios.bin")
+ */
+export function getAssetUrl(name: V86AssetName): string {
+  return `${manifest.baseUrl}/${manifest.assets[name].path}`;
+}
+
+/**
+ * Presets embutidos descritos no manifesto
+ */
+export function getManifestPresets(): Record<string, ManifestPreset> {
+  return manifest.presets;
+}
+
+/**
+ * URL publica de um arquivo de estado pre-gerado (public/v86/states)
+ */
+export function getStateUrl(file: string): string {
+  return `${manifest.baseUrl}/states/${file}`;
+}
+
+/**
+ * Caminho local de uma URL publica de asset (ex: "/v86/bios/seabios.bin" ->
+ * "public/v86/bios/seabios.bin"); URLs fora do baseUrl sao mantidas
+ * @param dir Diretorio local equivalente ao baseUrl (ex: "public/v86")
+ */
+export function getLocalAssetPath(url: string, dir: string): string {
+  const prefix = `${manifest.baseUrl}/`;
+  return url.startsWith(prefix) ? `${dir.replace(/\/+$/, '')}/${url.slice(prefix.length)}` : url;
+}
@@ -0,0 +1,295 @@
+import type { V86Controller } from './V86Controller';
+import type { KeyboardLayoutName } from './keyboard';
+import { performLogin, type LoginChannel, type PresetLogin } from './presets';
+import { isEnvName, shellQuote, stripAnsi } from './shell';
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Arquivo criado no guest antes dos comandos (filesystem 9p)
+ */
+export interface BootstrapFile {
+  path: string;
+  content: string | Uint8Array;
+}
+
+/**
+ * Preparacao do ambiente executada uma vez apos o boot
+ */
+export interface BootstrapConfig {
+  /** Login automatico (padrao: login do preset) */
+  login?: PresetLogin;
+  /**
+   * Prompt do shell, aguardado apos o login e apos cada comando
+   * Deve casar tambem com o prompt definido pelos comandos (ex: PS1).
+   * Padrao: prompt do preset ou /[#$] ?$/
+   */
+  prompt?: RegExp;
+  /** Variaveis exportadas antes dos comandos (nome invalido: BootstrapError "env:<nome>") */
+  env?: Record<string, string>;
+  /**
+   * Comandos de preparacao (ex: "stty cols 120", "cd /root")
+   * Exit status diferente de zero interrompe o bootstrap com BootstrapError.
+   * Na tela, sao digitados no mapa US ate um `loadkeys` (ex: "loadkeys br-abnt2").
+   */
+  commands?: string[];
+  /** Arquivos criados com createFile antes dos comandos */
+  files?: BootstrapFile[];
+  /** Canal do shell quando nao ha login (padrao: serial sem tela VGA, tela com VGA) */
+  channel?: LoginChannel;
+  /**
+   * Salvar o estado apos o bootstrap como snapshot e restaura-lo nos proximos
+   * carregamentos, pulando boot e bootstrap (apenas no Terminal)
+   * true usa uma chave derivada da configuracao; uma string define a chave.
+   */
+  cache?: boolean | string;
+  /** Tempo maximo de cada etapa em ms (padrao: 120000) */
+  timeout?: number;
+}
+
+/**
+ * Falha em uma etapa do bootstrap
+ */
+export class BootstrapError extends Error {
+  /** Etapa que falhou: "login", "prompt", "file:<path>", "env:<nome>" ou "command:<comando>" */
+  readonly step: string;
+  readonly cause?: unknown;
+
+  constructor(step: string, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'BootstrapError';
+    this.step = step;
+    this.cause = cause;
+  }
+}
+
+const DEFAULT_PROMPT = /[#$] ?$/;
+const DEFAULT_TIMEOUT = 120000;
+
+// Comando que troca o mapa de teclado do console do guest
+const LOADKEYS_PATTERN = /^\s*(?:loadkeys|loadkmap)\b/;
+
+// Exit status de cada comando: `echo "<marcador>:$?"` depois do prompt
+const STATUS_MARKER = '@v86-bootstrap-status';
+
+// Silencio no output antes de testar o prompt (mesmo criterio do BootLifecycle)
+const PROMPT_SETTLE_MS = 250;
+const TAIL_LENGTH = 256;
+
+// ============================================
+// PROMPT
+// ============================================
+
+/**
+ * Aguarda o prompt no output produzido a partir de agora
+ * Na serial testa o fim do output; na tela, a linha do cursor.
+ */
+function waitForPrompt(
+  controller: V86Controller,
+  channel: LoginChannel,
+  prompt: RegExp,
+  timeout: number
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let tail = '';
+    let settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const check = () => {
+      const screen = controller.getTextScreenBuffer();
+      const text =
+        channel === 'serial' ? stripAnsi(tail) : screen.getLine(screen.getCursor().row).trimEnd();
+      if (prompt.test(text)) {
+        cleanup();
+        resolve();
+      }
+    };
+
+    const scheduleCheck = () => {
+      clearTimeout(settleTimer);
+      settleTimer = setTimeout(check, PROMPT_SETTLE_MS);
+    };
+
+    const unsubscribe =
+      channel === 'serial'
+        ? controller.onSerialOutput((char) => {
+            tail = (tail + char).slice(-TAIL_LENGTH);
+            scheduleCheck();
+          })
+        : controller.getTextScreenBuffer().onChange(scheduleCheck);
+
+    const timeoutId = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timeout waiting for prompt: ${prompt}`));
+    }, timeout);
+
+    const cleanup = () => {
+      unsubscribe();
+      clearTimeout(timeoutId);
+      clearTimeout(settleTimer);
+    };
+  });
+}
+
+/**
+ * Aguarda a linha de status (`<marcador>:<exit status>`) no output
+ * O eco do proprio comando tem `$?` no lugar do numero e nao casa.
+ */
+function waitForStatus(
+  controller: V86Controller,
+  channel: LoginChannel,
+  marker: string,
+  timeout: number
+): Promise<number> {
+  const pattern = new RegExp(`${marker}:(\\d+)`);
+
+  return new Promise((resolve, reject) => {
+    let tail = '';
+
+    const check = (text: string) => {
+      const match = pattern.exec(stripAnsi(text));
+      if (match) {
+        cleanup();
+        resolve(Number(match[1]));
+      }
+    };
+
+    const unsubscribe =
+      channel === 'serial'
+        ? controller.onSerialOutput((char) => {
+            tail = (tail + char).slice(-TAIL_LENGTH);
+            check(tail);
+          })
+        : controller.getTextScreenBuffer().onChange(() => check(controller.getScreenText()));
+
+    const timeoutId = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timeout waiting for exit status: ${marker}`));
+    }, timeout);
+
+    const cleanup = () => {
+      unsubscribe();
+      clearTimeout(timeoutId);
+    };
+  });
+}
+
+// ============================================
+// EXECUCAO
+// ============================================
+
+/**
+ * Executa o bootstrap: login, prompt, arquivos, variaveis e comandos
+ * Deve ser chamado antes do boot chegar ao prompt (ex: no emulator-ready).
+ *
+ * @param defaultChannel Canal do shell quando nao ha login
+ * @throws BootstrapError
+ *
+ * @example
+ * ```ts
+ * await runBootstrap(controller, {
+ *   login: { username: "root" },
+ *   env: { LANG: "C.UTF-8" },
+ *   commands: ["stty cols 120 rows 40", "cd /root"],
+ *   files: [{ path: "/main.c", content: "int main() { return 0; }" }],
+ * }, "screen");
+ * ```
+ */
+export async function runBootstrap(
+  controller: V86Controller,
+  config: BootstrapConfig,
+  defaultChannel: LoginChannel
+): Promise<void> {
+  const timeout = config.timeout ?? DEFAULT_TIMEOUT;
+  const prompt = config.prompt ?? DEFAULT_PROMPT;
+  let channel = config.channel ?? defaultChannel;
+
+  // Sem login o shell ja vem no fim do boot: observa desde agora
+  let promptReady = config.login ? null : waitForPrompt(controller, channel, prompt, timeout);
+
+  if (config.login) {
+    const loginChannel = await performLogin(controller, config.login, { timeout_msec: timeout });
+    if (!loginChannel) {
+      throw new BootstrapError('login', 'Timed out waiting for the login or password prompt');
+    }
+    channel = loginChannel;
+    promptReady = waitForPrompt(controller, channel, prompt, timeout);
+  }
+
+  try {
+    await promptReady;
+  } catch (error) {
+    throw new BootstrapError('prompt', 'Timed out waiting for the shell prompt', error);
+  }
+
+  for (const file of config.files ?? []) {
+    try {
+      await controller.createFile(file.path, file.content);
+    } catch (error) {
+      throw new BootstrapError(`file:${file.path}`, `Failed to create ${file.path}`, error);
+    }
+  }
+
+  const env = Object.entries(config.env ?? {}).map(([name, value]) => {
+    if (!isEnvName(name)) {
+      throw new BootstrapError(`env:${name}`, `Invalid environment variable name: ${name}`);
+    }
+    return `export ${name}=${shellQuote(value)}`;
+  });
+  // Na tela o guest usa o mapa US ate um loadkeys; depois dele, o mapa do
+  // controller (setKeyboardLayout / prop keyboardLayout do Terminal)
+  let keyboardLayout: KeyboardLayoutName | undefined = 'us';
+  const send = (text: string) =>
+    channel === 'serial'
+      ? controller.sendSerial(text)
+      : controller.sendKeyboardText(text, keyboardLayout);
+
+  for (const command of [...env, ...(config.commands ?? [])]) {
+    let status: number;
+    try {
+      const done = waitForPrompt(controller, channel, prompt, timeout);
+      send(`${command}\n`);
+      await done;
+
+      // Marcador proprio de cada comando: um status antigo na tela nao casa
+      const marker = `${STATUS_MARKER}:${Math.random().toString(36).slice(2, 10)}`;
+      const statusReady = waitForStatus(controller, channel, marker, timeout);
+      const promptReady = waitForPrompt(controller, channel, prompt, timeout);
+      send(`echo "${marker}:$?"\n`);
+      [status] = await Promise.all([statusReady, promptReady]);
+    } catch (error) {
+      throw new BootstrapError(`command:${command}`, `Command did not finish: ${command}`, error);
+    }
+
+    if (status !== 0) {
+      throw new BootstrapError(
+        `command:${command}`,
+        `Command exited with status ${status}: ${command}`
+      );
+    }
+    if (LOADKEYS_PATTERN.test(command)) keyboardLayout = undefined;
+  }
+}
+
+/**
+ * Chave do snapshot que guarda o estado apos o bootstrap
+ * @param configKey Chave da configuracao do emulador (getEmulatorConfigKey)
+ * @returns null quando o cache esta desligado
+ */
+export function getBootstrapCacheKey(
+  config: BootstrapConfig,
+  configKey: string,
+  preset?: string
+): string | null {
+  if (!config.cache) return null;
+  if (typeof config.cache === 'string') return config.cache;
+
+  // FNV-1a: estavel entre carregamentos, muda com qualquer alteracao da config
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < configKey.length; i++) {
+    hash ^= configKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `bootstrap:${preset ?? 'custom'}:${(hash >>> 0).toString(16)}`;
+}
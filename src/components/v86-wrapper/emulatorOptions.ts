@@ -0,0 +1,439 @@
+import type { V86 as V86Type, V86Options, V86Image } from '../../types/v86';
+import type {
+  V86EmulatorConfig,
+  V86ImagePreset,
+  V86NetworkConfig,
+  V86FilesystemConfig,
+} from './V86Emulator';
+import {
+  assertWasmSupported,
+  createDownloadError,
+  toV86Error,
+  watchJitFailures,
+  DownloadFailedError,
+  OutOfMemoryError,
+  V86Error,
+} from './errors';
+import { getPreset, getPresetEmulatorConfig } from './presets';
+import { getAssetUrl, getStateUrl } from './assets';
+import type { BootstrapConfig } from './bootstrap';
+import { getRelayUrl } from './network';
+// Import the wasm file path from the v86 package for proper bundler resolution
+import v86WasmUrl from 'v86/build/v86.wasm?url';
+import v86FallbackWasmUrl from 'v86/build/v86-fallback.wasm?url';
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+/**
+ * Configuracao com todos os defaults aplicados
+ */
+export type ResolvedEmulatorConfig = Omit<
+  Required<V86EmulatorConfig>,
+  'preset' | 'network' | 'filesystem' | 'bootstrap'
+> & {
+  preset?: V86ImagePreset;
+  network?: V86NetworkConfig;
+  filesystem?: V86FilesystemConfig;
+  bootstrap?: BootstrapConfig;
+};
+
+const DEFAULT_CONFIG: ResolvedEmulatorConfig = {
+  biosUrl: getAssetUrl('seabios'),
+  vgaBiosUrl: getAssetUrl('vgabios'),
+  cdromUrl: getAssetUrl('alpine'),
+  hdaUrl: '',
+  hdbUrl: '',
+  fdaUrl: '',
+  fdbUrl: '',
+  bzimageUrl: '',
+  initrdUrl: '',
+  cmdline: '',
+  memorySize: 128 * 1024 * 1024,
+  vgaMemorySize: 8 * 1024 * 1024,
+  autostart: true,
+  disableSpeaker: true,
+  acpi: false,
+  virtioConsole: false,
+  virtioBalloon: false,
+  initialStateUrl: '',
+  preserveMacFromState: false,
+  bootOrder: 0,
+  disableJit: false,
+  bzimageInitrdFromFilesystem: false,
+  screen: true,
+  serialPorts: 4,
+  prebuiltState: true,
+};
+
+// ============================================
+// CONFIGURACAO
+// ============================================
+
+/**
+ * Configuracao do emulador definida por um preset registrado
+ */
+function getPresetConfig(name: V86ImagePreset): Partial<V86EmulatorConfig> {
+  const preset = getPreset(name);
+  if (!preset) {
+    console.warn(`Unknown V86 preset "${name}" (use registerPreset to add it)`);
+    return {};
+  }
+  return getPresetEmulatorConfig(preset);
+}
+
+/**
+ * Aplica defaults e preset sobre a configuracao (valores undefined sao ignorados)
+ */
+export function resolveEmulatorConfig(config: V86EmulatorConfig): ResolvedEmulatorConfig {
+  const presetConfig = config.preset ? getPresetConfig(config.preset) : {};
+
+  // Filtra propriedades undefined para evitar sobrescrever defaults
+  const withoutUndefined = (values: Partial<V86EmulatorConfig>) =>
+    Object.fromEntries(
+      Object.entries(values).filter(([_, v]) => v !== undefined)
+    ) as Partial<V86EmulatorConfig>;
+
+  return { ...DEFAULT_CONFIG, ...withoutUndefined(presetConfig), ...withoutUndefined(config) };
+}
+
+/**
+ * Chave estavel da configuracao (detecta mudancas que exigem novo emulador)
+ * Funcoes (ex: handle9p) nao fazem parte da chave.
+ */
+export function getEmulatorConfigKey(config: ResolvedEmulatorConfig): string {
+  return JSON.stringify(config, (_, value) => (typeof value === 'function' ? undefined : value));
+}
+
+/**
+ * Converte a configuracao do wrapper para as opcoes do construtor V86
+ * @param screenContainer Container da tela VGA (omitido = emulador sem tela)
+ */
+export function createV86Options(
+  config: ResolvedEmulatorConfig,
+  screenContainer?: HTMLElement | null
+): V86Options {
+  const options: V86Options = {
+    wasm_path: v86WasmUrl,
+    memory_size: config.memorySize,
+    vga_memory_size: config.vgaMemorySize,
+    screen_container: config.screen ? screenContainer : undefined,
+    bios: { url: config.biosUrl } as V86Image,
+    vga_bios: { url: config.vgaBiosUrl } as V86Image,
+    autostart: config.autostart,
+    disable_speaker: config.disableSpeaker,
+    acpi: config.acpi,
+    virtio_console: config.virtioConsole,
+    virtio_balloon: config.virtioBalloon,
+    disable_jit: config.disableJit,
+    bzimage_initrd_from_filesystem: config.bzimageInitrdFromFilesystem,
+    // serial0 sempre existe; as demais UARTs sao opcionais no v86
+    uart1: config.serialPorts > 1,
+    uart2: config.serialPorts > 2,
+    uart3: config.serialPorts > 3,
+  };
+
+  // Boot order
+  if (config.bootOrder) {
+    options.boot_order = config.bootOrder;
+  }
+
+  // Bzimage boot
+  if (config.bzimageUrl) {
+    options.bzimage = { url: config.bzimageUrl } as V86Image;
+    if (config.cmdline) {
+      options.cmdline = config.cmdline;
+    }
+    // Filesystem vazio para 9p funcionar com bzimage
+    if (!config.filesystem) {
+      options.filesystem = {};
+    }
+  } else if (config.cdromUrl) {
+    options.cdrom = { url: config.cdromUrl } as V86Image;
+  }
+
+  // Initrd
+  if (config.initrdUrl) {
+    options.initrd = { url: config.initrdUrl } as V86Image;
+  }
+
+  // Hard disks
+  if (config.hdaUrl) {
+    options.hda = { url: config.hdaUrl } as V86Image;
+  }
+  if (config.hdbUrl) {
+    options.hdb = { url: config.hdbUrl } as V86Image;
+  }
+
+  // Floppies
+  if (config.fdaUrl) {
+    options.fda = { url: config.fdaUrl } as V86Image;
+  }
+  if (config.fdbUrl) {
+    options.fdb = { url: config.fdbUrl } as V86Image;
+  }
+
+  // Initial state
+  if (config.initialStateUrl) {
+    options.initial_state = { url: config.initialStateUrl } as V86Image;
+    options.preserve_mac_from_state_image = config.preserveMacFromState;
+  }
+
+  // Filesystem
+  if (config.filesystem) {
+    options.filesystem = {
+      baseurl: config.filesystem.baseurl,
+      basefs: config.filesystem.basefs,
+      handle9p: config.filesystem.handle9p,
+      proxy_url: config.filesystem.proxy_url,
+    };
+  }
+
+  // Network
+  if (config.network) {
+    options.net_device = {
+      type: config.network.type,
+      relay_url: getRelayUrl(config.network),
+      id: config.network.id,
+      router_mac: config.network.router_mac,
+      router_ip: config.network.router_ip,
+      vm_ip: config.network.vm_ip,
+      masquerade: config.network.masquerade,
+      dns_method: config.network.dns_method,
+      doh_server: config.network.doh_server,
+      cors_proxy: config.network.cors_proxy,
+      mtu: config.network.mtu,
+    };
+  }
+
+  return options;
+}
+
+/**
+ * URLs de BIOS, imagens e estado baixadas pelo v86 para esta configuracao
+ * (o v86.wasm nao entra: vem do bundle)
+ */
+export function getAssetUrls(config: ResolvedEmulatorConfig): string[] {
+  const urls = [
+    config.biosUrl,
+    config.vgaBiosUrl,
+    config.bzimageUrl || config.cdromUrl,
+    config.initrdUrl,
+    config.hdaUrl,
+    config.hdbUrl,
+    config.fdaUrl,
+    config.fdbUrl,
+    config.initialStateUrl,
+  ];
+  return urls.filter((url): url is string => Boolean(url));
+}
+
+/**
+ * Verifica WebAssembly e a existencia dos arquivos antes de criar o emulador
+ * O v86 apenas loga arquivos inexistentes e nunca fica pronto; aqui a falha
+ * vira um erro tipado. Servidores sem suporte a HEAD (405) sao ignorados.
+ * @throws WasmUnsupportedError, AssetNotFoundError ou DownloadFailedError
+ */
+export async function preflightEmulator(config: ResolvedEmulatorConfig): Promise<void> {
+  assertWasmSupported();
+  if (typeof window === 'undefined' || typeof fetch === 'undefined') {
+    return;
+  }
+
+  await Promise.all(
+    [v86WasmUrl, ...getAssetUrls(config)].map(async (url) => {
+      let response: Response;
+      try {
+        response = await fetch(url, { method: 'HEAD' });
+      } catch (error) {
+        throw new DownloadFailedError(url, 0, error);
+      }
+      if (response.status === 404 || response.status === 403 || response.status === 410) {
+        throw createDownloadError(url, response.status);
+      }
+    })
+  );
+}
+
+// ============================================
+// FALHAS DO EMULADOR
+// ============================================
+
+// Funcoes do WASM que alocam a memoria da VM (RAM e VGA)
+const ALLOCATION_EXPORTS = ['allocate_memory', 'svga_allocate_memory'];
+
+/**
+ * Observacao das falhas de um emulador (sem listener global de rejeicoes)
+ */
+export interface EmulatorFailureWatch {
+  /** Carregador do WASM do v86 (opcao wasm_fn) */
+  loadWasm: (imports: WebAssembly.Imports) => Promise<WebAssembly.Exports>;
+  /** Liga ao emulador criado; no emulator-ready passa a observar o JIT */
+  attach: (emulator: V86Type) => void;
+  /** Para de reportar falhas (emulador destruido) */
+  stop: () => void;
+}
+
+async function instantiateWasm(url: string, imports: WebAssembly.Imports) {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new DownloadFailedError(url, 0, error);
+  }
+  if (!response.ok) {
+    throw createDownloadError(url, response.status);
+  }
+  const bytes = await response.arrayBuffer();
+  const { instance } = await WebAssembly.instantiate(bytes, imports);
+  return { bytes, exports: instance.exports };
+}
+
+/**
+ * Reporta as falhas que o v86 deixaria como rejeicoes nao tratadas
+ * - WASM principal: carregado por loadWasm (com o mesmo fallback do v86)
+ * - Memoria da VM: as alocacoes do WASM viram OutOfMemoryError
+ * - JIT: modulos gerados que nao compilam viram JitFailedError
+ *
+ * @example
+ * ```ts
+ * const watch = watchEmulatorFailures(onError, requestedBytes);
+ * const emulator = new V86({ ...createV86Options(config), wasm_fn: watch.loadWasm });
+ * watch.attach(emulator);
+ * // ao destruir: watch.stop()
+ * ```
+ */
+export function watchEmulatorFailures(
+  onFailure: (error: V86Error) => void,
+  requestedBytes?: number
+): EmulatorFailureWatch {
+  let emulator: V86Type | null = null;
+  let stopped = false;
+  let stopJit = () => {};
+
+  const report = (error: V86Error) => {
+    if (!stopped) onFailure(error);
+  };
+
+  const guardAllocations = (exports: WebAssembly.Exports): WebAssembly.Exports => {
+    const guarded: WebAssembly.Exports = { ...exports };
+    ALLOCATION_EXPORTS.forEach((name) => {
+      const allocate = exports[name];
+      if (typeof allocate !== 'function') return;
+      guarded[name] = (...args: unknown[]) => {
+        try {
+          return allocate(...args);
+        } catch (error) {
+          report(new OutOfMemoryError(requestedBytes, error));
+          throw error;
+        }
+      };
+    });
+    return guarded;
+  };
+
+  const loadWasm = async (imports: WebAssembly.Imports): Promise<WebAssembly.Exports> => {
+    try {
+      // Navegadores sem algumas extensoes do WASM usam o binario de fallback
+      const { bytes, exports } = await instantiateWasm(v86WasmUrl, imports).catch((error) => {
+        if (error instanceof V86Error) throw error;
+        return instantiateWasm(v86FallbackWasmUrl, imports);
+      });
+      // O worker de zstd do v86 reaproveita o binario
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      if (emulator) (emulator as any).wasm_source = bytes;
+      return guardAllocations(exports);
+    } catch (error) {
+      report(toV86Error(error, requestedBytes));
+      // O v86 nao trata a rejeicao: a inicializacao so nao continua
+      return new Promise<WebAssembly.Exports>(() => {});
+    }
+  };
+
+  return {
+    loadWasm,
+    attach(instance) {
+      emulator = instance;
+      instance.add_listener('emulator-ready', () => {
+        if (!stopped) stopJit = watchJitFailures(instance, report);
+      });
+    },
+    stop() {
+      stopped = true;
+      stopJit();
+    },
+  };
+}
+
+// ============================================
+// ESTADOS PRE-GERADOS
+// ============================================
+
+/**
+ * Estado gerado por scripts/build-v86-states.mjs (public/v86/states/manifest.json)
+ */
+interface PrebuiltState {
+  file: string;
+  /** Configuracao usada no boot; o estado so e usado se ela for igual */
+  config: Partial<Record<keyof ResolvedEmulatorConfig, unknown>>;
+}
+
+let prebuiltStates: Promise<Record<string, PrebuiltState>> | null = null;
+
+function loadPrebuiltStates(): Promise<Record<string, PrebuiltState>> {
+  // Sem manifesto (estados nao gerados) nao ha nada a aplicar
+  prebuiltStates ??= fetch(getStateUrl('manifest.json'))
+    .then((response) => (response.ok ? response.json() : {}))
+    .catch(() => ({}));
+  return prebuiltStates;
+}
+
+/**
+ * Usa o estado pre-gerado do preset como initialStateUrl, quando existir
+ * O estado so vale para a mesma configuracao de hardware, imagens e bootstrap
+ * com que foi gerado; qualquer diferenca faz o boot normal.
+ */
+export async function applyPrebuiltState(
+  config: ResolvedEmulatorConfig
+): Promise<ResolvedEmulatorConfig> {
+  if (!config.prebuiltState || !config.preset || config.initialStateUrl) {
+    return config;
+  }
+  if (typeof window === 'undefined' || typeof fetch === 'undefined') {
+    return config;
+  }
+
+  const state = (await loadPrebuiltStates())[config.preset];
+  if (!state) {
+    return config;
+  }
+
+  const matches = Object.entries(state.config).every(
+    ([key, value]) =>
+      JSON.stringify(config[key as keyof ResolvedEmulatorConfig] ?? null) ===
+      JSON.stringify(value ?? null)
+  );
+  return matches ? { ...config, initialStateUrl: getStateUrl(state.file) } : config;
+}
+
+// ============================================
+// CARREGAMENTO
+// ============================================
+
+// Lazy load V86 from npm package (only in browser)
+let V86Constructor: typeof V86Type | null = null;
+
+/**
+ * Carrega o construtor V86 sob demanda (import dinamico, apenas browser)
+ */
+export async function loadV86(): Promise<typeof V86Type> {
+  if (V86Constructor) {
+    return V86Constructor;
+  }
+
+  // Dynamic import of the ESM module from v86 npm package
+  const v86Module = await import('v86');
+  V86Constructor = v86Module.V86;
+  return v86Module.V86;
+}
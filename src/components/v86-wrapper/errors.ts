@@ -0,0 +1,213 @@
+import type { V86 } from '../../types/v86';
+
+// ============================================
+// ERROS TIPADOS
+// ============================================
+
+/**
+ * Codigo de falha na inicializacao do emulador
+ * - AssetNotFound: BIOS/imagem/estado inexistente (404, 403, 410)
+ * - WasmUnsupported: WebAssembly ausente ou bloqueado (CSP, politica da escola)
+ * - OutOfMemory: navegador nao conseguiu alocar a memoria da VM
+ * - JitFailed: o navegador recusou um modulo gerado pelo JIT (nova tentativa sem JIT)
+ * - DownloadFailed: falha de rede ou erro do servidor ao baixar um arquivo
+ * - InitFailed: qualquer outra falha ao criar o emulador
+ */
+export type V86ErrorCode =
+  | 'AssetNotFound'
+  | 'WasmUnsupported'
+  | 'OutOfMemory'
+  | 'JitFailed'
+  | 'DownloadFailed'
+  | 'InitFailed';
+
+/**
+ * Erro base da inicializacao do emulador
+ */
+export class V86Error extends Error {
+  readonly code: V86ErrorCode;
+  /** Indica se tentar de novo pode resolver (rede instavel, memoria temporaria) */
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(
+    code: V86ErrorCode,
+    message: string,
+    options: { retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'V86Error';
+    this.code = code;
+    this.retryable = options.retryable ?? true;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Arquivo necessario para o boot nao existe no servidor
+ */
+export class AssetNotFoundError extends V86Error {
+  readonly url: string;
+  readonly status: number;
+
+  constructor(url: string, status: number) {
+    super('AssetNotFound', `Asset not found: ${url} (HTTP ${status})`, { retryable: false });
+    this.name = 'AssetNotFoundError';
+    this.url = url;
+    this.status = status;
+  }
+}
+
+/**
+ * WebAssembly indisponivel ou bloqueado
+ */
+export class WasmUnsupportedError extends V86Error {
+  constructor(cause?: unknown) {
+    super(
+      'WasmUnsupported',
+      'WebAssembly is not available in this browser (missing or blocked by policy)',
+      { retryable: false, cause }
+    );
+    this.name = 'WasmUnsupportedError';
+  }
+}
+
+/**
+ * Memoria da VM nao pode ser alocada
+ */
+export class OutOfMemoryError extends V86Error {
+  /** Memoria solicitada em bytes (RAM + VGA), se conhecida */
+  readonly requestedBytes?: number;
+
+  constructor(requestedBytes?: number, cause?: unknown) {
+    const requested = requestedBytes ? ` (${Math.round(requestedBytes / 1024 / 1024)} MB)` : '';
+    super('OutOfMemory', `Not enough memory to start the emulator${requested}`, { cause });
+    this.name = 'OutOfMemoryError';
+    this.requestedBytes = requestedBytes;
+  }
+}
+
+/**
+ * Modulo WebAssembly gerado pelo JIT nao compilou (limite ou bug do navegador)
+ * O WebAssembly em si funciona: a VM roda com disableJit.
+ */
+export class JitFailedError extends V86Error {
+  constructor(cause?: unknown) {
+    super('JitFailed', 'The emulator JIT failed to compile guest code', { cause });
+    this.name = 'JitFailedError';
+  }
+}
+
+/**
+ * Download de um arquivo falhou (rede ou servidor)
+ */
+export class DownloadFailedError extends V86Error {
+  readonly url: string;
+  /** Status HTTP (0 = falha de rede) */
+  readonly status: number;
+
+  constructor(url: string, status: number, cause?: unknown) {
+    const reason = status ? `HTTP ${status}` : 'network error';
+    super('DownloadFailed', `Failed to download ${url} (${reason})`, { cause });
+    this.name = 'DownloadFailedError';
+    this.url = url;
+    this.status = status;
+  }
+}
+
+// ============================================
+// CLASSIFICACAO
+// ============================================
+
+/**
+ * Converte o status de um download em erro tipado
+ */
+export function createDownloadError(url: string, status: number, cause?: unknown): V86Error {
+  if (status === 404 || status === 403 || status === 410) {
+    return new AssetNotFoundError(url, status);
+  }
+  return new DownloadFailedError(url, status, cause);
+}
+
+/**
+ * Converte qualquer falha de inicializacao em V86Error
+ * @param requestedBytes Memoria solicitada (para OutOfMemoryError)
+ */
+export function toV86Error(error: unknown, requestedBytes?: number): V86Error {
+  if (error instanceof V86Error) {
+    return error;
+  }
+
+  if (typeof WebAssembly !== 'undefined') {
+    if (error instanceof WebAssembly.CompileError || error instanceof WebAssembly.LinkError) {
+      return new WasmUnsupportedError(error);
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof RangeError && /memory|allocat/i.test(message)) {
+    return new OutOfMemoryError(requestedBytes, error);
+  }
+  if (/WebAssembly is not defined/.test(message)) {
+    return new WasmUnsupportedError(error);
+  }
+
+  return new V86Error('InitFailed', `Failed to initialize emulator: ${message}`, { cause: error });
+}
+
+/**
+ * Verifica se o WebAssembly pode ser compilado (ausente ou bloqueado por CSP)
+ * @throws WasmUnsupportedError
+ */
+export function assertWasmSupported(): void {
+  if (typeof WebAssembly === 'undefined') {
+    throw new WasmUnsupportedError();
+  }
+  try {
+    // Modulo vazio: apenas magic number e versao
+    new WebAssembly.Module(new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]));
+  } catch (error) {
+    throw new WasmUnsupportedError(error);
+  }
+}
+
+/**
+ * Observa a compilacao do JIT de um emulador pronto
+ * O v86 compila cada bloco com WebAssembly.instantiate e nao trata a
+ * rejeicao; aqui a chamada do proprio emulador (cpu.codegen_finalize) e
+ * embrulhada e a primeira falha vira JitFailedError.
+ * NOTA: Usa API interna do v86 (cpu.codegen_finalize).
+ * @returns Funcao para parar a observacao
+ */
+export function watchJitFailures(emulator: V86, onFailure: (error: V86Error) => void): () => void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const cpu = (emulator as any).v86?.cpu;
+  if (typeof WebAssembly === 'undefined' || typeof cpu?.codegen_finalize !== 'function') {
+    return () => {};
+  }
+
+  const codegenFinalize = cpu.codegen_finalize;
+  let reported = false;
+  cpu.codegen_finalize = function (this: unknown, ...args: unknown[]) {
+    // Troca sincrona: so a chamada do JIT deste emulador passa pelo wrapper
+    const instantiate = WebAssembly.instantiate;
+    WebAssembly.instantiate = ((...instantiateArgs: Parameters<typeof instantiate>) => {
+      const result = instantiate(...instantiateArgs);
+      result.catch((error: unknown) => {
+        if (reported) return;
+        reported = true;
+        onFailure(new JitFailedError(error));
+      });
+      return result;
+    }) as typeof WebAssembly.instantiate;
+    try {
+      return codegenFinalize.apply(this, args);
+    } finally {
+      WebAssembly.instantiate = instantiate;
+    }
+  };
+
+  return () => {
+    cpu.codegen_finalize = codegenFinalize;
+  };
+}
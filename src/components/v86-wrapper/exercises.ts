@@ -0,0 +1,286 @@
+import type { V86Controller } from './V86Controller';
+import { shellQuote } from './shell';
+
+// ============================================
+// TIPOS
+// ============================================
+
+interface ExerciseCheckBase {
+  /**
+   * Texto exibido ao aluno e chave do progresso salvo
+   * Deve ser unico no exercicio (veja assertUniqueCheckLabels).
+   */
+  label: string;
+  /** Dica exibida quando a verificacao falha */
+  hint?: string;
+  /** Timeout do comando em ms (padrao: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Arquivo existe (e, opcionalmente, tem o conteudo esperado)
+ */
+export interface ExerciseFileCheck extends ExerciseCheckBase {
+  type: 'file';
+  /** Caminho no namespace de `source` */
+  path: string;
+  /**
+   * Onde o arquivo e lido (padrao: "guest")
+   * - guest: `cat` no shell, com os caminhos que o aluno ve no terminal
+   * - 9p: filesystem 9p da pagina (readFile), com caminhos relativos a raiz dele
+   */
+  source?: '9p' | 'guest';
+  /** Texto contido no arquivo ou padrao que deve casar com ele */
+  content?: string | RegExp;
+}
+
+/**
+ * Output de um comando contem o texto ou casa com o padrao
+ */
+export interface ExerciseOutputCheck extends ExerciseCheckBase {
+  type: 'output';
+  command: string;
+  stdout: string | RegExp;
+}
+
+/**
+ * Processo rodando (linha de comando contem o texto ou casa com o padrao)
+ */
+export interface ExerciseProcessCheck extends ExerciseCheckBase {
+  type: 'process';
+  command: string | RegExp;
+}
+
+/**
+ * Comando termina com o exit status esperado
+ */
+export interface ExerciseExitCodeCheck extends ExerciseCheckBase {
+  type: 'exitCode';
+  command: string;
+  /** Exit status esperado (padrao: 0) */
+  exitCode?: number;
+}
+
+/**
+ * Verificacao de um exercicio
+ */
+export type ExerciseCheck =
+  | ExerciseFileCheck
+  | ExerciseOutputCheck
+  | ExerciseProcessCheck
+  | ExerciseExitCodeCheck;
+
+/**
+ * Resultado de uma verificacao
+ */
+export interface ExerciseCheckResult {
+  check: ExerciseCheck;
+  passed: boolean;
+  /** Motivo da falha (vazio quando passou) */
+  message: string;
+}
+
+/**
+ * Progresso salvo de um exercicio
+ */
+export interface ExerciseProgress {
+  /** Labels das verificacoes que ja passaram */
+  passed: string[];
+  /** Todas as verificacoes passaram em alguma tentativa */
+  completed: boolean;
+  /** Ultima tentativa (ms desde epoch) */
+  updatedAt: number;
+}
+
+// Chave no localStorage: prefixo + id do exercicio
+const PROGRESS_KEY_PREFIX = 'livebook-exercise:';
+
+// Lista os processos pelo /proc (nao depende das opcoes do ps do guest)
+const LIST_PROCESSES_COMMAND =
+  "for p in /proc/[0-9]*; do tr '\\0' ' ' <\"$p/cmdline\" 2>/dev/null; echo; done";
+
+// ============================================
+// VERIFICACAO
+// ============================================
+
+/**
+ * Garante que cada verificacao tem um label proprio
+ * O progresso salvo guarda labels: repetidos marcariam uma verificacao pela outra.
+ * @throws Error com o primeiro label repetido
+ */
+export function assertUniqueCheckLabels(checks: ExerciseCheck[]): void {
+  const seen = new Set<string>();
+  for (const { label } of checks) {
+    if (seen.has(label)) {
+      throw new Error(`Duplicate exercise check label: ${label}`);
+    }
+    seen.add(label);
+  }
+}
+
+function matches(text: string, expected: string | RegExp): boolean {
+  return typeof expected === 'string' ? text.includes(expected) : expected.test(text);
+}
+
+/**
+ * Le o arquivo de uma verificacao no namespace escolhido (sem misturar os dois:
+ * o mesmo caminho pode ser outro arquivo no 9p e no guest)
+ * @returns O conteudo, ou undefined se o arquivo nao existe
+ */
+async function readCheckFile(
+  controller: V86Controller,
+  check: ExerciseFileCheck
+): Promise<string | undefined> {
+  if (check.source === '9p') {
+    try {
+      return await controller.readFileAsText(check.path);
+    } catch {
+      return undefined;
+    }
+  }
+
+  const result = await controller.runCommand(`cat ${shellQuote(check.path)}`, {
+    timeout: check.timeout,
+  });
+  return result.exitCode === 0 ? result.stdout : undefined;
+}
+
+/**
+ * Executa uma verificacao
+ * @returns Motivo da falha, ou string vazia quando passou
+ */
+async function runCheck(controller: V86Controller, check: ExerciseCheck): Promise<string> {
+  const { timeout } = check;
+
+  switch (check.type) {
+    case 'file': {
+      const content = await readCheckFile(controller, check);
+      if (content === undefined) return `Arquivo ${check.path} nao encontrado`;
+      if (check.content !== undefined && !matches(content, check.content)) {
+        return `Conteudo de ${check.path} diferente do esperado`;
+      }
+      return '';
+    }
+
+    case 'output': {
+      const stdout = await controller.executeCommand(check.command, { timeout });
+      return matches(stdout, check.stdout) ? '' : 'Output diferente do esperado';
+    }
+
+    case 'process': {
+      const result = await controller.runCommand(LIST_PROCESSES_COMMAND, { timeout });
+      const running = result.stdout
+        .split('\n')
+        .some((line) => line.trim() && matches(line.trim(), check.command));
+      return running ? '' : 'Processo nao esta rodando';
+    }
+
+    case 'exitCode': {
+      const expected = check.exitCode ?? 0;
+      const result = await controller.runCommand(check.command, { timeout });
+      if (result.timedOut) return `Comando excedeu ${timeout ?? 30000}ms`;
+      return result.exitCode === expected
+        ? ''
+        : `Exit status ${result.exitCode}, esperado ${expected}`;
+    }
+  }
+}
+
+/**
+ * Executa as verificacoes de um exercicio em ordem
+ * Todas rodam (mesmo apos uma falha), para o aluno ver o que falta.
+ * Erros do controller (ex: timeout do executeCommand) contam como falha.
+ * @throws Error se dois labels se repetem
+ *
+ * @example
+ * ```ts
+ * const results = await runExerciseChecks(controller, [
+ *   { type: "file", label: "Crie notas.txt", path: "/root/notas.txt", content: "ola" },
+ *   { type: "exitCode", label: "O script roda", command: "sh /root/script.sh" },
+ * ]);
+ * ```
+ */
+export async function runExerciseChecks(
+  controller: V86Controller,
+  checks: ExerciseCheck[]
+): Promise<ExerciseCheckResult[]> {
+  assertUniqueCheckLabels(checks);
+  const results: ExerciseCheckResult[] = [];
+
+  for (const check of checks) {
+    let message: string;
+    try {
+      message = await runCheck(controller, check);
+    } catch (err) {
+      message = err instanceof Error ? err.message : String(err);
+    }
+    results.push({ check, passed: message === '', message });
+  }
+
+  return results;
+}
+
+// ============================================
+// PROGRESSO
+// ============================================
+
+// localStorage pode nao existir (SSR) ou lancar (modo privado, cota)
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Le o progresso salvo de um exercicio
+ * @returns O progresso, ou null se nao houver (ou estiver corrompido)
+ */
+export function loadExerciseProgress(id: string): ExerciseProgress | null {
+  try {
+    const raw = getStorage()?.getItem(PROGRESS_KEY_PREFIX + id);
+    if (!raw) return null;
+    const progress = JSON.parse(raw) as ExerciseProgress;
+    return Array.isArray(progress.passed) ? progress : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Registra uma tentativa no progresso salvo
+ * Verificacoes que ja passaram continuam contando (o aluno pode ter
+ * desfeito o trabalho depois, mas o progresso nao regride).
+ */
+export function saveExerciseProgress(id: string, results: ExerciseCheckResult[]): ExerciseProgress {
+  const previous = loadExerciseProgress(id);
+  const passed = new Set(previous?.passed);
+  results.forEach((result) => {
+    if (result.passed) passed.add(result.check.label);
+  });
+
+  const progress: ExerciseProgress = {
+    passed: [...passed],
+    completed:
+      previous?.completed === true || results.every((result) => passed.has(result.check.label)),
+    updatedAt: Date.now(),
+  };
+  try {
+    getStorage()?.setItem(PROGRESS_KEY_PREFIX + id, JSON.stringify(progress));
+  } catch {
+    // Sem espaco ou sem permissao: o progresso vale so nesta pagina
+  }
+  return progress;
+}
+
+/**
+ * Apaga o progresso salvo de um exercicio
+ */
+export function clearExerciseProgress(id: string): void {
+  try {
+    getStorage()?.removeItem(PROGRESS_KEY_PREFIX + id);
+  } catch {
+    // Ignora: nada a apagar
+  }
+}
@@ -0,0 +1,230 @@
+import type { V86Controller } from './V86Controller';
+
+// ============================================
+// PROTOCOLO
+// ============================================
+
+/**
+ * Protocolo: uma linha JSON por evento, nos dois sentidos
+ *
+ * - Cada evento e uma linha `@v86-event:{"type":"...","data":...}\n`
+ * - Linhas sem o prefixo sao ignoradas (o canal pode ter outro output)
+ * - O canal e uma porta serial dedicada (padrao: serial3, /dev/ttyS3) ou o
+ *   virtio-console (/dev/hvc0, compartilhado com o GuestAgent)
+ * - No virtio-console o GuestAgent e o unico leitor do hvc0 no guest: ele separa
+ *   os eventos (prefixo proprio) dos frames `@v86:` e os repassa ao FIFO
+ *   GUEST_EVENT_FIFO, de onde `v86_next_event` le
+ */
+export const GUEST_EVENT_PREFIX = '@v86-event:';
+
+/** FIFO do guest com os eventos da pagina no canal virtio (alimentado pelo GuestAgent) */
+export const GUEST_EVENT_FIFO = '/tmp/v86-events';
+
+// serial0 e o shell, serial1 recebe o stderr dos comandos e serial2 e a
+// segunda sessao do VMPool (a VM tem 4 portas por padrao, as mesmas dos
+// estados pre-gerados)
+const DEFAULT_GUEST_EVENT_PORT = 3;
+
+// Linha sem quebra e descartada acima disso (evita crescer sem limite)
+const MAX_EVENT_LINE_LENGTH = 65536;
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Canal dos eventos entre guest e pagina
+ */
+export type GuestEventChannel =
+  | {
+      channel: 'serial';
+      /** Porta serial, 1-3 (padrao: 3) */
+      port?: number;
+    }
+  | { channel: 'virtio' };
+
+/**
+ * Mapa tipo do evento -> formato de data
+ */
+export type GuestEventMap = Record<string, unknown>;
+
+/**
+ * Evento recebido do guest
+ * Com um mapa proprio, `type` discrimina o formato de `data`. O JSON nao e
+ * validado: o mapa so descreve o que o guest promete enviar.
+ *
+ * @example
+ * ```ts
+ * type LessonEvents = { "exercise-passed": { id: number }; "file-saved": { path: string } };
+ * controller.onGuestEvent<LessonEvents>((event) => {
+ *   if (event.type === "exercise-passed") markDone(event.data.id);
+ * });
+ * ```
+ */
+export type GuestEvent<M extends GuestEventMap = GuestEventMap> = {
+  [K in keyof M & string]: {
+    type: K;
+    data: M[K];
+    /** Momento em que a linha chegou (Date.now()) */
+    timestamp: number;
+  };
+}[keyof M & string];
+
+export const DEFAULT_GUEST_EVENT_CHANNEL: GuestEventChannel = {
+  channel: 'serial',
+  port: DEFAULT_GUEST_EVENT_PORT,
+};
+
+// ============================================
+// CODIFICACAO
+// ============================================
+
+/**
+ * Monta a linha de um evento (com o prefixo e a quebra de linha)
+ */
+export function encodeGuestEvent(type: string, data: unknown = null): string {
+  return `${GUEST_EVENT_PREFIX}${JSON.stringify({ type, data })}\n`;
+}
+
+/**
+ * Interpreta uma linha do canal
+ * @returns O evento, ou null para linhas sem o prefixo ou com JSON invalido
+ */
+export function parseGuestEvent(line: string): GuestEvent | null {
+  const start = line.indexOf(GUEST_EVENT_PREFIX);
+  if (start === -1) return null;
+
+  let message: unknown;
+  try {
+    message = JSON.parse(line.slice(start + GUEST_EVENT_PREFIX.length));
+  } catch {
+    return null;
+  }
+
+  if (typeof message !== 'object' || message === null) return null;
+  const { type, data } = message as { type?: unknown; data?: unknown };
+  if (typeof type !== 'string' || !type) return null;
+
+  return { type, data: data ?? null, timestamp: Date.now() };
+}
+
+// ============================================
+// GUEST
+// ============================================
+
+/**
+ * Dispositivo do guest correspondente ao canal
+ */
+export function getGuestEventDevice(
+  channel: GuestEventChannel = DEFAULT_GUEST_EVENT_CHANNEL
+): string {
+  return channel.channel === 'virtio'
+    ? '/dev/hvc0'
+    : `/dev/ttyS${channel.port ?? DEFAULT_GUEST_EVENT_PORT}`;
+}
+
+/**
+ * Funcoes de shell (sh/busybox) para usar os eventos dentro do guest
+ * - `v86_emit <tipo> [json]` envia um evento para a pagina
+ * - `v86_next_event` espera o proximo evento da pagina e imprime o JSON
+ * O script desliga o eco do tty (senao os eventos da pagina voltariam para ela).
+ * No canal virtio, `v86_next_event` le o FIFO alimentado pelo GuestAgent
+ * (controller.installGuestAgent), que e quem le o hvc0.
+ *
+ * @example
+ * ```ts
+ * await controller.createFile("/etc/profile.d/v86-events.sh", getGuestEventScript());
+ * // No guest:
+ * //   v86_emit exercise-passed '{"id":3}'
+ * //   v86_emit file-saved "{\"path\":\"$PWD/notas.txt\"}"
+ * ```
+ */
+export function getGuestEventScript(
+  channel: GuestEventChannel = DEFAULT_GUEST_EVENT_CHANNEL
+): string {
+  const prefix = GUEST_EVENT_PREFIX;
+  // virtio: o hvc0 e lido pelo GuestAgent, que repassa os eventos ao FIFO
+  const source =
+    channel.channel === 'virtio'
+      ? [
+          `V86_EVENT_SOURCE=${GUEST_EVENT_FIFO}`,
+          '[ -p "$V86_EVENT_SOURCE" ] || mkfifo "$V86_EVENT_SOURCE"',
+        ]
+      : ['V86_EVENT_SOURCE=$V86_EVENT_DEVICE'];
+  return [
+    `# v86 guest events - uma linha JSON por evento (prefixo ${prefix})`,
+    `V86_EVENT_DEVICE=${getGuestEventDevice(channel)}`,
+    ...source,
+    'stty -F "$V86_EVENT_DEVICE" raw -echo 2>/dev/null',
+    `v86_emit() { printf '${prefix}{"type":"%s","data":%s}\\n' "$1" "\${2:-null}" >"$V86_EVENT_DEVICE"; }`,
+    'v86_next_event() {',
+    '  while IFS= read -r line <"$V86_EVENT_SOURCE"; do',
+    `    case "$line" in ${prefix}*) printf '%s\\n' "\${line#${prefix}}"; return 0 ;; esac`,
+    '  done',
+    '  return 1',
+    '}',
+    '',
+  ].join('\n');
+}
+
+// ============================================
+// PAGINA
+// ============================================
+
+/**
+ * Chama listener para cada evento que o guest escrever no canal
+ * Equivale a controller.onGuestEvent, com o canal explicito.
+ *
+ * @returns Funcao para parar de observar
+ */
+export function watchGuestEvents(
+  controller: V86Controller,
+  channel: GuestEventChannel,
+  listener: (event: GuestEvent) => void
+): () => void {
+  const decoder = new TextDecoder();
+  let lineBuffer = '';
+
+  const handleText = (text: string) => {
+    lineBuffer += text;
+
+    let newline = lineBuffer.indexOf('\n');
+    while (newline !== -1) {
+      const event = parseGuestEvent(lineBuffer.slice(0, newline).replace(/\r$/, ''));
+      lineBuffer = lineBuffer.slice(newline + 1);
+      if (event) listener(event);
+      newline = lineBuffer.indexOf('\n');
+    }
+
+    if (lineBuffer.length > MAX_EVENT_LINE_LENGTH) lineBuffer = '';
+  };
+
+  if (channel.channel === 'virtio') {
+    return controller.onVirtioConsoleOutput((bytes) =>
+      handleText(decoder.decode(bytes, { stream: true }))
+    );
+  }
+
+  // A serial entrega um byte por caractere: o JSON em UTF-8 e decodificado aqui
+  return controller.onSerialPortOutput(channel.port ?? DEFAULT_GUEST_EVENT_PORT, (char) =>
+    handleText(decoder.decode(Uint8Array.of(char.charCodeAt(0)), { stream: true }))
+  );
+}
+
+/**
+ * Envia um evento da pagina para o guest pelo canal
+ * Equivale a controller.sendGuestEvent, com o canal explicito.
+ */
+export function sendGuestEvent(
+  controller: V86Controller,
+  channel: GuestEventChannel,
+  type: string,
+  data?: unknown
+): void {
+  const line = encodeGuestEvent(type, data);
+  if (channel.channel === 'virtio') {
+    controller.sendVirtioConsole(line);
+  } else {
+    controller.sendSerialTo(channel.port ?? DEFAULT_GUEST_EVENT_PORT, line);
+  }
+}
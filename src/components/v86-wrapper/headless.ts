@@ -0,0 +1,154 @@
+import type { V86EmulatorConfig } from './V86Emulator';
+import { V86Controller } from './V86Controller';
+import {
+  resolveEmulatorConfig,
+  createV86Options,
+  getAssetUrls,
+  loadV86,
+  type ResolvedEmulatorConfig,
+} from './emulatorOptions';
+import { getLocalAssetPath } from './assets';
+import { V86Error } from './errors';
+import { getPreset } from './presets';
+import { runBootstrap } from './bootstrap';
+import { attachNetwork } from './network';
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Opcoes de uma VM sem tela criada em Node (testes, CI, scripts)
+ */
+export interface HeadlessEmulatorOptions extends Omit<V86EmulatorConfig, 'screen'> {
+  /** Diretorio local dos assets do manifesto (padrao: "public/v86") */
+  assetsDir?: string;
+  /** Caminho do v86.wasm (padrao: "node_modules/v86/build/v86.wasm") */
+  wasmPath?: string;
+  /** Tempo maximo de cada etapa do boot e do bootstrap em ms (padrao: 300000) */
+  bootTimeout?: number;
+}
+
+const DEFAULT_ASSETS_DIR = 'public/v86';
+const DEFAULT_WASM_PATH = 'node_modules/v86/build/v86.wasm';
+const DEFAULT_BOOT_TIMEOUT = 300000;
+
+// Campos com URLs de assets servidos em /v86 (lidos do disco em Node)
+const ASSET_URL_FIELDS = [
+  'biosUrl',
+  'vgaBiosUrl',
+  'cdromUrl',
+  'bzimageUrl',
+  'initrdUrl',
+  'hdaUrl',
+  'hdbUrl',
+  'fdaUrl',
+  'fdbUrl',
+  'initialStateUrl',
+] as const;
+
+// ============================================
+// CRIACAO
+// ============================================
+
+/**
+ * Verifica os arquivos locais antes do boot
+ * Em Node o v86 le os arquivos com fs e nunca fica pronto se um deles faltar.
+ */
+async function assertAssetsExist(config: ResolvedEmulatorConfig, wasmPath: string): Promise<void> {
+  const { access } = await import('node:fs/promises');
+
+  for (const path of [wasmPath, ...getAssetUrls(config)]) {
+    try {
+      await access(path);
+    } catch (error) {
+      throw new V86Error('AssetNotFound', `Asset not found: ${path} (run "npm run download-v86")`, {
+        retryable: false,
+        cause: error,
+      });
+    }
+  }
+}
+
+/**
+ * Cria uma VM v86 em Node, sem tela, e executa o bootstrap do preset
+ * Resolve quando o shell esta pronto na serial0 (login, prompt e comandos do
+ * bootstrap concluidos). Apenas Node: nao e exportado pelo index do wrapper.
+ *
+ * O modulo depende da resolucao de imports do Vite (v86.wasm?url), entao deve
+ * ser carregado por ele (scripts/test-lessons.mjs ou um runner como o Vitest).
+ *
+ * @throws V86Error quando um asset nao existe; BootstrapError quando o boot nao chega ao shell
+ *
+ * @example
+ * ```ts
+ * const controller = await createHeadlessEmulator({ preset: "buildroot" });
+ * const { stdout } = await controller.runCommand("uname -a");
+ * await controller.destroy();
+ * ```
+ */
+export async function createHeadlessEmulator(
+  options: HeadlessEmulatorOptions = {}
+): Promise<V86Controller> {
+  const {
+    assetsDir = DEFAULT_ASSETS_DIR,
+    wasmPath = DEFAULT_WASM_PATH,
+    bootTimeout = DEFAULT_BOOT_TIMEOUT,
+    ...emulatorConfig
+  } = options;
+
+  // Estados pre-gerados sao buscados por URL, o que so funciona no browser
+  const resolved = resolveEmulatorConfig({
+    ...emulatorConfig,
+    screen: false,
+    prebuiltState: false,
+  });
+  const config: ResolvedEmulatorConfig = { ...resolved };
+  for (const field of ASSET_URL_FIELDS) {
+    config[field] = getLocalAssetPath(resolved[field], assetsDir);
+  }
+  await assertAssetsExist(config, wasmPath);
+
+  const V86 = await loadV86();
+  const emulator = new V86({ ...createV86Options(config), wasm_path: wasmPath });
+  attachNetwork(emulator, config.network);
+  const controller = new V86Controller();
+
+  try {
+    // Sem o emulator-ready (ex: WASM ou memoria) o v86 so para, sem erro
+    await new Promise<void>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        reject(
+          new V86Error('InitFailed', `Emulator was not ready after ${bootTimeout}ms`, {
+            retryable: false,
+          })
+        );
+      }, bootTimeout);
+      emulator.add_listener('emulator-ready', () => {
+        clearTimeout(timeoutId);
+        resolve();
+      });
+    });
+    controller.attach(emulator);
+
+    // Estado salvo ja esta no shell; no boot o prompt e observado desde o inicio
+    if (!config.initialStateUrl) {
+      const preset = config.preset ? getPreset(config.preset) : undefined;
+      const bootstrap = config.bootstrap ?? {};
+      await runBootstrap(
+        controller,
+        {
+          ...bootstrap,
+          login: bootstrap.login ?? preset?.login,
+          prompt: bootstrap.prompt ?? preset?.prompt,
+          timeout: bootstrap.timeout ?? bootTimeout,
+        },
+        'serial'
+      );
+    }
+    return controller;
+  } catch (error) {
+    await emulator.destroy();
+    throw error;
+  }
+}
@@ -1,9 +1,150 @@
 export { V86Emulator } from './V86Emulator';
-export type { V86EmulatorProps, V86EmulatorConfig, V86ImagePreset } from './V86Emulator';
+export type {
+  V86EmulatorProps,
+  V86EmulatorConfig,
+  V86ImagePreset,
+  V86NetworkConfig,
+} from './V86Emulator';
 
 export { useV86 } from './useV86';
 
-export { V86Controller, useV86Controller } from './V86Controller';
+export {
+  V86Controller,
+  useV86Controller,
+  FilesystemError,
+  CheckpointValidationError,
+} from './V86Controller';
+export type {
+  CommandResult,
+  ExecuteCommandOptions,
+  StreamCommandOptions,
+  StreamCommandResult,
+  CommandOutputChunk,
+  FileStat,
+  FileTree,
+  WithCheckpointOptions,
+} from './V86Controller';
+
+export { createZip, readZip } from './zip';
+export type { ZipEntry } from './zip';
+
+export { stripAnsi, shellQuote, escapeRegExp } from './shell';
+
+export { GuestAgent, GuestAgentError, GUEST_AGENT_SCRIPT } from './GuestAgent';
+export type {
+  GuestAgentMethod,
+  GuestAgentOptions,
+  GuestAgentInstallOptions,
+  GuestExecOptions,
+  GuestExecResult,
+  GuestStat,
+} from './GuestAgent';
+
+export { CommandQueue } from './CommandQueue';
+export type {
+  CommandQueueOptions,
+  CommandQueueState,
+  QueuedCommandInfo,
+  CommandTask,
+} from './CommandQueue';
+
+export { SnapshotManager } from './SnapshotManager';
+export type {
+  SnapshotMetadata,
+  SnapshotManagerOptions,
+  CreateSnapshotOptions,
+  SnapshotDiff,
+} from './SnapshotManager';
+
+export { TextScreenBuffer } from './TextScreenBuffer';
+export type { TextScreenCell, TextScreenCursor, TextScreenBufferOptions } from './TextScreenBuffer';
+
+export {
+  SessionRecorder,
+  serializeAsciicast,
+  parseAsciicast,
+  getRecordingDuration,
+} from './SessionRecorder';
+export type {
+  AsciicastHeader,
+  AsciicastEvent,
+  AsciicastRecording,
+  SessionRecorderOptions,
+} from './SessionRecorder';
+
+export { VMPool, bindControllerToPort } from './VMPool';
+export type { VMPoolOptions, VMSession } from './VMPool';
+
+export { getNetworkMode, RELAY_PATH } from './network';
+export type { V86NetworkMode } from './network';
+
+export { KeyboardTranslator, getKeyboardLayout, textToScancodes } from './keyboard';
+export type { KeyboardLayout, KeyboardLayoutName, KeyStroke, TypeTextOptions } from './keyboard';
+
+export { watchScreenLines, watchSerialLines } from './transcript';
+
+export {
+  GUEST_EVENT_PREFIX,
+  encodeGuestEvent,
+  parseGuestEvent,
+  getGuestEventDevice,
+  getGuestEventScript,
+  watchGuestEvents,
+  sendGuestEvent,
+} from './guestEvents';
+export type { GuestEvent, GuestEventChannel, GuestEventMap } from './guestEvents';
+
+export {
+  runExerciseChecks,
+  assertUniqueCheckLabels,
+  loadExerciseProgress,
+  saveExerciseProgress,
+  clearExerciseProgress,
+} from './exercises';
+export type {
+  ExerciseCheck,
+  ExerciseFileCheck,
+  ExerciseOutputCheck,
+  ExerciseProcessCheck,
+  ExerciseExitCodeCheck,
+  ExerciseCheckResult,
+  ExerciseProgress,
+} from './exercises';
+
+export { getAssetUrl, getStateUrl } from './assets';
+export type { V86AssetName } from './assets';
+
+export {
+  registerPreset,
+  unregisterPreset,
+  getPreset,
+  listPresets,
+  getPresetEmulatorConfig,
+  performLogin,
+} from './presets';
+export type { PresetDefinition, PresetLogin, LoginChannel } from './presets';
+
+export { runBootstrap, getBootstrapCacheKey, BootstrapError } from './bootstrap';
+export type { BootstrapConfig, BootstrapFile } from './bootstrap';
+
+export { BootLifecycle, IDLE_LIFECYCLE } from './BootLifecycle';
+export type {
+  LifecycleState,
+  LifecycleSnapshot,
+  BootProgress,
+  BootLifecycleOptions,
+} from './BootLifecycle';
+
+export {
+  V86Error,
+  AssetNotFoundError,
+  WasmUnsupportedError,
+  JitFailedError,
+  OutOfMemoryError,
+  DownloadFailedError,
+  toV86Error,
+} from './errors';
+export type { V86ErrorCode } from './errors';
 
 // Re-export v86 types for convenience
 export type { V86, V86Options, V86Image, Event as V86Event } from '../../types/v86';
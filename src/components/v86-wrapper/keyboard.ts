@@ -0,0 +1,441 @@
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Tecla fisica pressionada no guest (scancode set 1)
+ * Scancodes estendidos usam o prefixo no byte alto (ex: 0xe048 = seta para cima).
+ */
+export interface KeyStroke {
+  scancode: number;
+  shift?: boolean;
+  altGr?: boolean;
+}
+
+/**
+ * Mapa de teclado do guest: quais teclas produzem cada caractere
+ * O guest precisa usar o mesmo mapa (ex: `loadkeys br-abnt2` no bootstrap).
+ */
+export interface KeyboardLayout {
+  name: string;
+  /** Caractere -> sequencia de teclas (ex: "~" no ABNT2 = tecla morta + espaco) */
+  keys: Record<string, KeyStroke[]>;
+  /**
+   * Marca combinante (forma NFD, ex: "̃") -> tecla morta
+   * Usada para digitar acentos no guest e para compor as teclas mortas do host.
+   */
+  deadKeys: Record<string, KeyStroke>;
+}
+
+/** Mapas embutidos */
+export type KeyboardLayoutName = 'us' | 'br-abnt2';
+
+/**
+ * Opcoes de digitacao de textos longos (colar como digitacao)
+ */
+export interface TypeTextOptions {
+  /** Caracteres enviados por vez (padrao: 16) */
+  chunkSize?: number;
+  /** Pausa entre os blocos em ms (padrao: 30) */
+  delay?: number;
+  /** Cancela o restante do texto */
+  signal?: AbortSignal;
+}
+
+const SHIFT = 0x2a;
+const ALT_GR = 0xe038;
+const CTRL = 0x1d;
+const ALT = 0x38;
+const META = 0xe05b;
+const SPACE = 0x39;
+
+const DEFAULT_CHUNK_SIZE = 16;
+const DEFAULT_TYPING_DELAY = 30;
+
+// ============================================
+// TECLAS FISICAS
+// ============================================
+
+/**
+ * KeyboardEvent.code -> scancode (posicao fisica, independente do layout)
+ */
+const CODE_TO_SCANCODE: Record<string, number> = {
+  Escape: 0x01,
+  Minus: 0x0c,
+  Equal: 0x0d,
+  Backspace: 0x0e,
+  Tab: 0x0f,
+  BracketLeft: 0x1a,
+  BracketRight: 0x1b,
+  Enter: 0x1c,
+  ControlLeft: 0x1d,
+  Semicolon: 0x27,
+  Quote: 0x28,
+  Backquote: 0x29,
+  ShiftLeft: 0x2a,
+  Backslash: 0x2b,
+  Comma: 0x33,
+  Period: 0x34,
+  Slash: 0x35,
+  ShiftRight: 0x36,
+  NumpadMultiply: 0x37,
+  AltLeft: 0x38,
+  Space: 0x39,
+  CapsLock: 0x3a,
+  NumLock: 0x45,
+  ScrollLock: 0x46,
+  Numpad7: 0x47,
+  Numpad8: 0x48,
+  Numpad9: 0x49,
+  NumpadSubtract: 0x4a,
+  Numpad4: 0x4b,
+  Numpad5: 0x4c,
+  Numpad6: 0x4d,
+  NumpadAdd: 0x4e,
+  Numpad1: 0x4f,
+  Numpad2: 0x50,
+  Numpad3: 0x51,
+  Numpad0: 0x52,
+  NumpadDecimal: 0x53,
+  IntlBackslash: 0x56,
+  F11: 0x57,
+  F12: 0x58,
+  IntlRo: 0x73,
+  NumpadComma: 0x7e,
+  NumpadEnter: 0xe01c,
+  ControlRight: 0xe01d,
+  NumpadDivide: 0xe035,
+  AltRight: 0xe038,
+  Home: 0xe047,
+  ArrowUp: 0xe048,
+  PageUp: 0xe049,
+  ArrowLeft: 0xe04b,
+  ArrowRight: 0xe04d,
+  End: 0xe04f,
+  ArrowDown: 0xe050,
+  PageDown: 0xe051,
+  Insert: 0xe052,
+  Delete: 0xe053,
+  MetaLeft: 0xe05b,
+  MetaRight: 0xe05c,
+  ContextMenu: 0xe05d,
+};
+
+const LETTER_ROWS: [string, number][] = [
+  ['qwertyuiop', 0x10],
+  ['asdfghjkl', 0x1e],
+  ['zxcvbnm', 0x2c],
+];
+
+for (const [row, first] of LETTER_ROWS) {
+  [...row].forEach((letter, i) => {
+    CODE_TO_SCANCODE[`Key${letter.toUpperCase()}`] = first + i;
+  });
+}
+for (let i = 0; i < 10; i++) {
+  CODE_TO_SCANCODE[`Digit${(i + 1) % 10}`] = 0x02 + i;
+  CODE_TO_SCANCODE[`F${i + 1}`] = 0x3b + i;
+}
+
+// ============================================
+// LAYOUTS
+// ============================================
+
+// Acento isolado (tecla morta + espaco) para cada marca combinante
+const SPACING_ACCENTS: Record<string, string> = {
+  '̀': '`',
+  '́': '´',
+  '̂': '^',
+  '̃': '~',
+  '̈': '¨',
+};
+
+/**
+ * Monta um layout a partir de [scancode, normal, shift, altGr] por tecla
+ * Letras ASCII, espaco, Enter e Tab ficam na mesma posicao em todos os layouts.
+ */
+function createLayout(
+  name: string,
+  rows: [number, string?, string?, string?][],
+  deadKeys: Record<string, KeyStroke> = {}
+): KeyboardLayout {
+  const keys: Record<string, KeyStroke[]> = {
+    ' ': [{ scancode: SPACE }],
+    '\n': [{ scancode: 0x1c }],
+    '\t': [{ scancode: 0x0f }],
+  };
+
+  for (const [row, first] of LETTER_ROWS) {
+    [...row].forEach((letter, i) => {
+      keys[letter] = [{ scancode: first + i }];
+      keys[letter.toUpperCase()] = [{ scancode: first + i, shift: true }];
+    });
+  }
+  for (const [scancode, normal, shifted, altGr] of rows) {
+    if (normal) keys[normal] = [{ scancode }];
+    if (shifted) keys[shifted] = [{ scancode, shift: true }];
+    if (altGr) keys[altGr] = [{ scancode, altGr: true }];
+  }
+  for (const [mark, stroke] of Object.entries(deadKeys)) {
+    keys[SPACING_ACCENTS[mark]] ??= [stroke, { scancode: SPACE }];
+  }
+
+  return { name, keys, deadKeys };
+}
+
+const DIGIT_ROW: [number, string, string][] = [
+  [0x02, '1', '!'],
+  [0x03, '2', '@'],
+  [0x04, '3', '#'],
+  [0x05, '4', '$'],
+  [0x06, '5', '%'],
+  [0x08, '7', '&'],
+  [0x09, '8', '*'],
+  [0x0a, '9', '('],
+  [0x0b, '0', ')'],
+  [0x0c, '-', '_'],
+  [0x0d, '=', '+'],
+];
+
+const LAYOUTS: Record<KeyboardLayoutName, KeyboardLayout> = {
+  us: createLayout('us', [
+    ...DIGIT_ROW,
+    [0x07, '6', '^'],
+    [0x1a, '[', '{'],
+    [0x1b, ']', '}'],
+    [0x27, ';', ':'],
+    [0x28, "'", '"'],
+    [0x29, '`', '~'],
+    [0x2b, '\\', '|'],
+    [0x33, ',', '<'],
+    [0x34, '.', '>'],
+    [0x35, '/', '?'],
+  ]),
+  'br-abnt2': createLayout(
+    'br-abnt2',
+    [
+      ...DIGIT_ROW,
+      [0x02, undefined, undefined, '¹'],
+      [0x03, undefined, undefined, '²'],
+      [0x04, undefined, undefined, '³'],
+      [0x05, undefined, undefined, '£'],
+      [0x06, undefined, undefined, '¢'],
+      [0x07, '6', undefined, '¬'],
+      [0x0d, undefined, undefined, '§'],
+      [0x1b, '[', '{', 'ª'],
+      [0x27, 'ç', 'Ç'],
+      [0x29, "'", '"'],
+      [0x2b, ']', '}', 'º'],
+      [0x33, ',', '<'],
+      [0x34, '.', '>'],
+      [0x35, ';', ':'],
+      [0x56, '\\', '|'],
+      [0x73, '/', '?'],
+    ],
+    {
+      '́': { scancode: 0x1a },
+      '̀': { scancode: 0x1a, shift: true },
+      '̃': { scancode: 0x28 },
+      '̂': { scancode: 0x28, shift: true },
+      '̈': { scancode: 0x07, shift: true },
+    }
+  ),
+};
+
+/**
+ * Retorna um layout embutido (objetos KeyboardLayout sao retornados como estao)
+ */
+export function getKeyboardLayout(layout: KeyboardLayoutName | KeyboardLayout): KeyboardLayout {
+  return typeof layout === 'string' ? LAYOUTS[layout] : layout;
+}
+
+// ============================================
+// SCANCODES
+// ============================================
+
+function pressCodes(scancode: number): number[] {
+  return scancode > 0xff ? [scancode >> 8, scancode & 0xff] : [scancode];
+}
+
+function releaseCodes(scancode: number): number[] {
+  return scancode > 0xff ? [scancode >> 8, (scancode & 0xff) | 0x80] : [scancode | 0x80];
+}
+
+/**
+ * Pressiona os modificadores, a tecla, e solta tudo na ordem inversa
+ */
+function tapCodes(scancode: number, modifiers: number[]): number[] {
+  return [
+    ...modifiers.flatMap(pressCodes),
+    ...pressCodes(scancode),
+    ...releaseCodes(scancode),
+    ...[...modifiers].reverse().flatMap(releaseCodes),
+  ];
+}
+
+function strokeCodes(stroke: KeyStroke): number[] {
+  const modifiers = [...(stroke.shift ? [SHIFT] : []), ...(stroke.altGr ? [ALT_GR] : [])];
+  return tapCodes(stroke.scancode, modifiers);
+}
+
+/**
+ * Teclas para digitar um caractere no guest
+ * Acentuados sem tecla propria viram tecla morta + letra (ex: "ã" -> "~" e "a").
+ * @returns null quando o layout nao consegue produzir o caractere
+ */
+function charStrokes(char: string, layout: KeyboardLayout): KeyStroke[] | null {
+  const direct = layout.keys[char];
+  if (direct) return direct;
+
+  const [base, mark, ...rest] = [...char.normalize('NFD')];
+  const deadKey = mark && !rest.length ? layout.deadKeys[mark] : undefined;
+  const baseStrokes = layout.keys[base];
+  return deadKey && baseStrokes ? [deadKey, ...baseStrokes] : null;
+}
+
+/**
+ * Converte texto em scancodes para o layout do guest
+ * "\r\n" conta como uma quebra de linha; caracteres sem tecla sao ignorados.
+ */
+export function textToScancodes(
+  text: string,
+  layout: KeyboardLayout
+): { scancodes: number[]; unsupported: string[] } {
+  const scancodes: number[] = [];
+  const unsupported: string[] = [];
+
+  for (const char of text.replace(/\r\n?/g, '\n').normalize('NFC')) {
+    const strokes = charStrokes(char, layout);
+    if (strokes) {
+      scancodes.push(...strokes.flatMap(strokeCodes));
+    } else {
+      unsupported.push(char);
+    }
+  }
+  return { scancodes, unsupported };
+}
+
+// ============================================
+// EVENTOS DO BROWSER
+// ============================================
+
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'AltGraph', 'Meta', 'CapsLock', 'OS']);
+
+/**
+ * Traduz KeyboardEvents do browser em scancodes para o layout do guest
+ * Teclas de caractere usam `event.key` (o que o aluno ve no proprio teclado);
+ * atalhos e teclas de controle usam a posicao fisica (`event.code`).
+ * Teclas mortas do host sao compostas aqui quando o browser nao compoe.
+ */
+export class KeyboardTranslator {
+  private layout: KeyboardLayout;
+  // Marca combinante da ultima tecla morta, aguardando a proxima tecla
+  private pendingMark: string | null = null;
+
+  constructor(layout: KeyboardLayoutName | KeyboardLayout = 'us') {
+    this.layout = getKeyboardLayout(layout);
+  }
+
+  setLayout(layout: KeyboardLayoutName | KeyboardLayout): void {
+    this.layout = getKeyboardLayout(layout);
+    this.pendingMark = null;
+  }
+
+  getLayout(): KeyboardLayout {
+    return this.layout;
+  }
+
+  /**
+   * Traduz um keydown
+   * @returns scancodes e o texto digitado, ou null se a tecla nao e tratada
+   */
+  translateKeyDown(event: KeyboardEvent): { scancodes: number[]; text: string } | null {
+    // IME em andamento: o texto chega no compositionend
+    if (event.isComposing || event.key === 'Process') return null;
+    // Modificadores sao enviados junto com cada tecla
+    if (MODIFIER_KEYS.has(event.key)) return { scancodes: [], text: '' };
+
+    const altGr = event.getModifierState('AltGraph');
+    if (event.key === 'Dead') {
+      this.handleDeadKey(event, altGr);
+      return { scancodes: [], text: '' };
+    }
+
+    const isShortcut = !altGr && (event.ctrlKey || event.altKey || event.metaKey);
+    if (!isShortcut && [...event.key].length === 1) {
+      const text = this.compose(event.key);
+      return { scancodes: textToScancodes(text, this.layout).scancodes, text };
+    }
+
+    const scancode = CODE_TO_SCANCODE[event.code];
+    if (scancode === undefined) return null;
+    this.pendingMark = null;
+
+    const modifiers = [
+      ...(event.ctrlKey && !altGr ? [CTRL] : []),
+      ...(event.altKey && !altGr ? [ALT] : []),
+      ...(event.metaKey ? [META] : []),
+      ...(event.shiftKey ? [SHIFT] : []),
+    ];
+    return { scancodes: tapCodes(scancode, modifiers), text: '' };
+  }
+
+  /**
+   * Guarda a marca da tecla morta (procurada na mesma posicao do layout do guest)
+   */
+  private handleDeadKey(event: KeyboardEvent, altGr: boolean): void {
+    const scancode = CODE_TO_SCANCODE[event.code];
+    const entry = Object.entries(this.layout.deadKeys).find(
+      ([, stroke]) =>
+        stroke.scancode === scancode &&
+        Boolean(stroke.shift) === event.shiftKey &&
+        Boolean(stroke.altGr) === altGr
+    );
+    this.pendingMark = entry ? entry[0] : null;
+  }
+
+  /**
+   * Combina a tecla morta pendente com o caractere (ex: "~" + "a" = "ã")
+   * Sem composicao possivel, digita o acento isolado seguido do caractere.
+   */
+  private compose(char: string): string {
+    const mark = this.pendingMark;
+    this.pendingMark = null;
+    if (!mark) return char;
+
+    const accent = SPACING_ACCENTS[mark] ?? '';
+    if (char === ' ') return accent;
+    // O browser ja compos (ex: keydown com key "ã")
+    if ([...char.normalize('NFD')].length > 1) return char;
+
+    const composed = (char + mark).normalize('NFC');
+    return [...composed].length === 1 ? composed : accent + char;
+  }
+}
+
+// ============================================
+// DIGITACAO
+// ============================================
+
+/**
+ * Digita um texto longo em blocos, para nao estourar o buffer de teclado do guest
+ * @param send Envia os scancodes de um bloco (recebe tambem o trecho de texto correspondente)
+ */
+export async function typeTextInChunks(
+  text: string,
+  layout: KeyboardLayout,
+  send: (scancodes: number[], text: string) => void,
+  options: TypeTextOptions = {}
+): Promise<void> {
+  const { chunkSize = DEFAULT_CHUNK_SIZE, delay = DEFAULT_TYPING_DELAY, signal } = options;
+  const chars = [...text.replace(/\r\n?/g, '\n').normalize('NFC')];
+
+  for (let i = 0; i < chars.length; i += chunkSize) {
+    if (signal?.aborted) return;
+    if (i > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+    const chunk = chars.slice(i, i + chunkSize).join('');
+    send(textToScancodes(chunk, layout).scancodes, chunk);
+  }
+}
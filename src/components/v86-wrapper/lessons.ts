@@ -0,0 +1,171 @@
+import type { V86Controller, StreamCommandResult } from './V86Controller';
+import { createHeadlessEmulator, type HeadlessEmulatorOptions } from './headless';
+import type { V86EmulatorConfig } from './V86Emulator';
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Comando de uma licao e o resultado esperado
+ */
+export interface LessonStep {
+  /** Comando exatamente como aparece no capitulo */
+  command: string;
+  /** Texto contido no stdout ou padrao que deve casar com ele */
+  stdout?: string | RegExp;
+  /** Texto contido no stderr ou padrao que deve casar com ele */
+  stderr?: string | RegExp;
+  /** Exit status esperado (padrao: 0; null aceita qualquer um) */
+  exitCode?: number | null;
+  /** Timeout do comando em ms (padrao: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Roteiro de comandos de uma licao, verificado contra a imagem publicada
+ */
+export interface LessonScript {
+  /** Nome exibido nos resultados (ex: "cap03 - permissoes") */
+  name: string;
+  /** VM usada pela licao (mesmas opcoes do Terminal: preset, bootstrap, ...) */
+  config?: V86EmulatorConfig;
+  /** Comandos em ordem; uma string espera apenas exit status 0 */
+  steps: (string | LessonStep)[];
+}
+
+/**
+ * Resultado de um comando da licao
+ */
+export interface LessonStepResult {
+  step: LessonStep;
+  result: StreamCommandResult;
+  /** Descricao de cada expectativa que falhou (vazio quando passou) */
+  failures: string[];
+  passed: boolean;
+}
+
+/**
+ * Resultado de uma licao
+ */
+export interface LessonResult {
+  name: string;
+  passed: boolean;
+  /** Comandos executados (a execucao para no primeiro que falha) */
+  steps: LessonStepResult[];
+  durationMs: number;
+}
+
+/**
+ * Opcoes de runLesson
+ */
+export interface RunLessonOptions extends Omit<HeadlessEmulatorOptions, keyof V86EmulatorConfig> {
+  /** Chamado ao fim de cada comando (progresso no terminal do CI) */
+  onStep?: (result: LessonStepResult) => void;
+}
+
+// ============================================
+// EXECUCAO
+// ============================================
+
+/**
+ * Tipagem para arquivos de licao (*.lesson.ts)
+ *
+ * @example
+ * ```ts
+ * export default defineLesson({
+ *   name: "cap02 - arquivos",
+ *   config: { preset: "buildroot" },
+ *   steps: [
+ *     "mkdir -p /tmp/aula && cd /tmp/aula",
+ *     { command: "echo ola > a.txt && cat a.txt", stdout: "ola" },
+ *     { command: "cat nao-existe", exitCode: 1, stderr: /No such file/ },
+ *   ],
+ * });
+ * ```
+ */
+export function defineLesson(script: LessonScript): LessonScript {
+  return script;
+}
+
+function matches(output: string, expected: string | RegExp): boolean {
+  return typeof expected === 'string' ? output.includes(expected) : expected.test(output);
+}
+
+/**
+ * Compara o resultado de um comando com o esperado pelo passo
+ */
+function checkStep(step: LessonStep, result: StreamCommandResult): string[] {
+  const failures: string[] = [];
+  const expectedExitCode = step.exitCode === undefined ? 0 : step.exitCode;
+
+  if (result.timedOut) {
+    failures.push(`timed out after ${step.timeout ?? 30000}ms`);
+  } else if (expectedExitCode !== null && result.exitCode !== expectedExitCode) {
+    failures.push(`exit code ${result.exitCode}, expected ${expectedExitCode}`);
+  }
+  if (step.stdout !== undefined && !matches(result.stdout, step.stdout)) {
+    failures.push(`stdout does not match ${JSON.stringify(String(step.stdout))}`);
+  }
+  if (step.stderr !== undefined && !matches(result.stderr, step.stderr)) {
+    failures.push(`stderr does not match ${JSON.stringify(String(step.stderr))}`);
+  }
+  return failures;
+}
+
+/**
+ * Executa os comandos de uma licao em uma VM ja pronta
+ * O stderr vai para a serial1, entao a VM precisa de serialPorts >= 2 (padrao).
+ */
+export async function runLessonSteps(
+  controller: V86Controller,
+  script: LessonScript,
+  options: Pick<RunLessonOptions, 'onStep'> = {}
+): Promise<LessonResult> {
+  const startedAt = Date.now();
+  const steps: LessonStepResult[] = [];
+
+  for (const entry of script.steps) {
+    const step = typeof entry === 'string' ? { command: entry } : entry;
+    const result = await controller.runCommandWithStderr(step.command, { timeout: step.timeout });
+    const failures = checkStep(step, result);
+    const stepResult = { step, result, failures, passed: failures.length === 0 };
+    steps.push(stepResult);
+    options.onStep?.(stepResult);
+
+    // Os comandos seguintes dependem do estado deixado pelos anteriores
+    if (!stepResult.passed) break;
+  }
+
+  return {
+    name: script.name,
+    passed: steps.length === script.steps.length && steps.every((step) => step.passed),
+    steps,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Inicia a VM da licao em Node, executa os comandos e destroi a VM
+ * Cada licao comeca de um boot limpo. Apenas Node (veja createHeadlessEmulator).
+ *
+ * @throws V86Error ou BootstrapError quando a VM nao chega ao shell
+ *
+ * @example
+ * ```ts
+ * const result = await runLesson(lesson, { assetsDir: "public/v86" });
+ * if (!result.passed) process.exitCode = 1;
+ * ```
+ */
+export async function runLesson(
+  script: LessonScript,
+  options: RunLessonOptions = {}
+): Promise<LessonResult> {
+  const { onStep, ...emulatorOptions } = options;
+  const controller = await createHeadlessEmulator({ ...script.config, ...emulatorOptions });
+  try {
+    return await runLessonSteps(controller, script, { onStep });
+  } finally {
+    await controller.destroy();
+  }
+}
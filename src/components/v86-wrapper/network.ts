@@ -0,0 +1,171 @@
+import type { V86 } from '../../types/v86';
+import type { V86NetworkConfig } from './V86Emulator';
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Como a placa de rede da VM se conecta
+ * - none: placa sem conexao (padrao)
+ * - fetch: HTTP(S) via fetch() do browser, com DHCP e DNS simulados pelo v86
+ *   (sem ping; sites sem CORS precisam de cors_proxy)
+ * - relay: relay WebSocket (padrao: relay local do `astro dev`, veja scripts/v86-relay.mjs)
+ * - loopback: switch em memoria entre as VMs da mesma pagina
+ */
+export type V86NetworkMode = 'none' | 'fetch' | 'relay' | 'loopback';
+
+/**
+ * Subconjunto do barramento interno do v86 (src/bus.js)
+ */
+interface V86Bus {
+  register(name: string, fn: (data: Uint8Array) => void, thisValue: object): void;
+  unregister(name: string, fn: (data: Uint8Array) => void): void;
+  send(name: string, data: Uint8Array): void;
+}
+
+/**
+ * Campos internos do V86 usados para instalar o adaptador de rede
+ */
+interface V86Internals {
+  bus: V86Bus;
+  network_adapter?: { destroy(): void };
+}
+
+/** Caminho do relay WebSocket servido pelo `astro dev` */
+export const RELAY_PATH = '/v86-relay';
+
+const DEFAULT_SEGMENT = 'default';
+
+// ============================================
+// MODOS
+// ============================================
+
+/**
+ * Modo efetivo: sem `mode`, um relay_url mantem o comportamento antigo (repasse ao v86)
+ */
+export function getNetworkMode(network?: V86NetworkConfig): V86NetworkMode {
+  if (!network) return 'none';
+  return network.mode ?? (network.relay_url ? 'relay' : 'none');
+}
+
+/**
+ * URL passada ao v86 como net_device.relay_url (undefined = sem adaptador do v86)
+ */
+export function getRelayUrl(network?: V86NetworkConfig): string | undefined {
+  const mode = getNetworkMode(network);
+  if (mode === 'fetch') return 'fetch';
+  if (mode !== 'relay') return undefined;
+  if (network?.relay_url) return network.relay_url;
+
+  // Relay local do servidor que serve a pagina (astro dev ou scripts/v86-relay.mjs)
+  if (typeof location === 'undefined') return undefined;
+  const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const segment = encodeURIComponent(network?.segment ?? DEFAULT_SEGMENT);
+  return `${protocol}//${location.host}${RELAY_PATH}/${segment}`;
+}
+
+// ============================================
+// LOOPBACK
+// ============================================
+
+// Segmentos loopback ativos por nome (existem enquanto houver VMs conectadas)
+const segments = new Map<string, LoopbackSegment>();
+
+function macKey(frame: Uint8Array, offset: number): string {
+  return Array.from(frame.subarray(offset, offset + 6)).join(':');
+}
+
+/**
+ * Segmento de rede em memoria: entrega quadros ethernet entre as VMs conectadas
+ */
+class LoopbackSegment {
+  private name: string;
+  private ports: Set<LoopbackNetworkAdapter> = new Set();
+  // MAC de origem -> porta, aprendido como em um switch ethernet
+  private macTable: Map<string, LoopbackNetworkAdapter> = new Map();
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  join(port: LoopbackNetworkAdapter): void {
+    this.ports.add(port);
+  }
+
+  leave(port: LoopbackNetworkAdapter): void {
+    this.ports.delete(port);
+    for (const [mac, owner] of this.macTable) {
+      if (owner === port) this.macTable.delete(mac);
+    }
+    if (this.ports.size === 0) {
+      segments.delete(this.name);
+    }
+  }
+
+  forward(from: LoopbackNetworkAdapter, frame: Uint8Array): void {
+    if (frame.length < 14) return;
+    this.macTable.set(macKey(frame, 6), from);
+
+    // Destino conhecido vai direto; broadcast, multicast e desconhecidos vao para todos
+    const target = frame[0] & 1 ? undefined : this.macTable.get(macKey(frame, 0));
+    const targets = target ? [target] : [...this.ports];
+    for (const port of targets) {
+      if (port !== from) port.receive(frame);
+    }
+  }
+}
+
+/**
+ * Adaptador de rede do v86 ligado a um LoopbackSegment
+ * Segue a interface dos adaptadores do v86 (destroy e chamado pelo V86.destroy).
+ */
+class LoopbackNetworkAdapter {
+  private bus: V86Bus;
+  private segment: LoopbackSegment;
+  private sendEvent: string;
+  private receiveEvent: string;
+
+  constructor(bus: V86Bus, segment: LoopbackSegment, id: number) {
+    this.bus = bus;
+    this.segment = segment;
+    this.sendEvent = `net${id}-send`;
+    this.receiveEvent = `net${id}-receive`;
+    this.bus.register(this.sendEvent, this.handleSend, this);
+    this.segment.join(this);
+  }
+
+  private handleSend = (frame: Uint8Array): void => {
+    // O quadro pode ser uma view da memoria do guest: copia antes de entregar
+    this.segment.forward(this, frame.slice());
+  };
+
+  receive(frame: Uint8Array): void {
+    // Assincrono, como um adaptador de rede real (evita reentrada na placa)
+    queueMicrotask(() => this.bus.send(this.receiveEvent, frame));
+  }
+
+  destroy(): void {
+    this.bus.unregister(this.sendEvent, this.handleSend);
+    this.segment.leave(this);
+  }
+}
+
+/**
+ * Conecta a VM recem-criada a rede do modo loopback (nos outros modos nao faz nada)
+ * Deve ser chamado logo apos `new V86()`; a conexao termina no emulator.destroy().
+ * NOTA: Usa API interna do v86 (bus e network_adapter) nao documentada em v86.d.ts.
+ */
+export function attachNetwork(emulator: V86, network?: V86NetworkConfig): void {
+  if (getNetworkMode(network) !== 'loopback') return;
+
+  const name = network?.segment ?? DEFAULT_SEGMENT;
+  let segment = segments.get(name);
+  if (!segment) {
+    segment = new LoopbackSegment(name);
+    segments.set(name, segment);
+  }
+
+  const internals = emulator as unknown as V86Internals;
+  internals.network_adapter = new LoopbackNetworkAdapter(internals.bus, segment, network?.id ?? 0);
+}
@@ -0,0 +1,177 @@
+import type { V86EmulatorConfig } from './V86Emulator';
+import type { V86Controller } from './V86Controller';
+import { getAssetUrl, getManifestPresets, type ManifestPreset, type V86AssetName } from './assets';
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Canal do shell: serial0 ou tela VGA (teclado)
+ */
+export type LoginChannel = 'serial' | 'screen';
+
+/**
+ * Credenciais para login automatico apos o boot
+ */
+export interface PresetLogin {
+  username: string;
+  /** Senha (omitida = usuario sem senha) */
+  password?: string;
+  /** Prompt de login (padrao: /login: ?$/m) */
+  loginPrompt?: RegExp;
+  /** Prompt de senha (padrao: /assword: ?$/m) */
+  passwordPrompt?: RegExp;
+}
+
+/**
+ * Definicao de um preset de imagem
+ * Campos de configuracao do emulador sao aplicados sobre os defaults e podem
+ * ser sobrescritos pelas props do componente.
+ */
+export interface PresetDefinition extends Omit<
+  V86EmulatorConfig,
+  'preset' | 'screen' | 'serialPorts'
+> {
+  /** Nome legivel (ex: "Buildroot com gcc") */
+  label?: string;
+  /** Prompt do shell (usado pelo pool de VMs e como readyPattern padrao) */
+  prompt?: RegExp;
+  /** Detector de boot concluido (padrao: prompt) */
+  readyPattern?: string | RegExp;
+  /** Login automatico quando a imagem pede usuario/senha */
+  login?: PresetLogin;
+}
+
+// ============================================
+// REGISTRO
+// ============================================
+
+const registry: Map<string, PresetDefinition> = new Map();
+
+/**
+ * Registra (ou substitui) um preset de imagem
+ *
+ * @example
+ * ```ts
+ * registerPreset("buildroot-gcc", {
+ *   label: "Buildroot com gcc",
+ *   bzimageUrl: "/images/buildroot-gcc.bin",
+ *   cmdline: "tsc=reliable mitigations=off random.trust_cpu=on",
+ *   memorySize: 256 * 1024 * 1024,
+ *   prompt: /[#$] $/,
+ *   login: { username: "root" },
+ * });
+ *
+ * <Terminal preset="buildroot-gcc" />
+ * ```
+ */
+export function registerPreset(name: string, definition: PresetDefinition): void {
+  registry.set(name, definition);
+}
+
+/**
+ * Remove um preset do registro
+ */
+export function unregisterPreset(name: string): boolean {
+  return registry.delete(name);
+}
+
+/**
+ * Retorna a definicao de um preset
+ */
+export function getPreset(name: string): PresetDefinition | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Lista os nomes dos presets registrados
+ */
+export function listPresets(): string[] {
+  return Array.from(registry.keys());
+}
+
+/**
+ * Separa os campos de configuracao do emulador da definicao do preset
+ */
+export function getPresetEmulatorConfig(definition: PresetDefinition): Partial<V86EmulatorConfig> {
+  const {
+    label: _label,
+    prompt: _prompt,
+    readyPattern: _readyPattern,
+    login: _login,
+    ...config
+  } = definition;
+  return config;
+}
+
+// ============================================
+// LOGIN
+// ============================================
+
+/**
+ * Faz login automatico pela serial ou pela tela (o que mostrar o prompt primeiro)
+ * @returns Canal usado no login, ou null se o prompt de login ou de senha nao apareceu
+ * dentro do timeout
+ */
+export async function performLogin(
+  controller: V86Controller,
+  login: PresetLogin,
+  options: { timeout_msec?: number } = {}
+): Promise<LoginChannel | null> {
+  const waitForPrompt = (prompt: RegExp) =>
+    Promise.race([
+      controller.waitForSerialOutput(prompt, options).then(
+        () => 'serial' as const,
+        () => null
+      ),
+      controller
+        .waitForScreenText(prompt, options)
+        .then((found) => (found ? ('screen' as const) : null)),
+    ]);
+
+  const channel = await waitForPrompt(login.loginPrompt ?? /login: ?$/m);
+  if (!channel) {
+    return null;
+  }
+
+  // O login vem antes de qualquer loadkeys: o guest ainda usa o mapa US
+  const send = (text: string) =>
+    channel === 'serial' ? controller.sendSerial(text) : controller.sendKeyboardText(text, 'us');
+
+  send(`${login.username}\n`);
+  if (login.password !== undefined) {
+    if (!(await waitForPrompt(login.passwordPrompt ?? /assword: ?$/m))) {
+      return null;
+    }
+    send(`${login.password}\n`);
+  }
+  return channel;
+}
+
+// ============================================
+// PRESETS EMBUTIDOS
+// ============================================
+
+/**
+ * Converte um preset do manifesto (dados JSON) em definicao
+ */
+function fromManifest(preset: ManifestPreset): PresetDefinition {
+  const assetUrl = (name?: string) => (name ? getAssetUrl(name as V86AssetName) : '');
+  return {
+    label: preset.label,
+    cdromUrl: assetUrl(preset.cdrom),
+    bzimageUrl: assetUrl(preset.bzimage),
+    initrdUrl: assetUrl(preset.initrd),
+    cmdline: preset.cmdline ?? '',
+    memorySize: preset.memoryMB ? preset.memoryMB * 1024 * 1024 : undefined,
+    prompt: preset.prompt ? new RegExp(preset.prompt) : undefined,
+    login: preset.login,
+    bootstrap: preset.bootstrap,
+  };
+}
+
+// Presets de v86-assets.json (imagens baixadas e verificadas no postinstall)
+for (const [name, preset] of Object.entries(getManifestPresets())) {
+  registerPreset(name, fromManifest(preset));
+}
@@ -0,0 +1,38 @@
+/**
+ * Utilitarios para lidar com texto de shell e terminal
+ */
+
+// CSI (ESC [ ... letra), OSC (ESC ] ... BEL/ST) e escapes de 2 caracteres
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+/**
+ * Remove sequencias de escape ANSI de um texto
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+// Nomes de variavel aceitos pelo shell (qualquer outro vira codigo no `export`)
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Verifica se o nome pode ser usado em `export NOME=...` sem virar codigo
+ */
+export function isEnvName(name: string): boolean {
+  return ENV_NAME_PATTERN.test(name);
+}
+
+/**
+ * Escapa um argumento para uso seguro em comandos sh
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Escapa caracteres especiais para uso literal em RegExp
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,100 @@
+import type { V86Controller } from './V86Controller';
+import type { TextScreenBuffer } from './TextScreenBuffer';
+import { stripAnsi } from './shell';
+
+// Linha serial sem quebra e descartada acima disso (ex: barra de progresso sem \n)
+const MAX_SERIAL_LINE_LENGTH = 4096;
+
+// ============================================
+// TELA
+// ============================================
+
+/**
+ * Chama onLine para cada linha concluida da tela em modo texto
+ * Uma linha conclui quando o cursor desce para a seguinte (Enter, output) ou
+ * quando ela rola para fora da tela. A linha do cursor (prompt sendo editado)
+ * so e entregue depois; redesenhos com o cursor subindo (clear, editores)
+ * nao geram linhas. Linhas vazias sao ignoradas.
+ *
+ * @returns Funcao para parar de observar
+ *
+ * @example
+ * ```ts
+ * const stop = watchScreenLines(controller.getTextScreenBuffer(), (line) => console.log(line));
+ * ```
+ */
+export function watchScreenLines(
+  buffer: TextScreenBuffer,
+  onLine: (line: string) => void
+): () => void {
+  let lines = buffer.getText().split('\n');
+  let cursorRow = buffer.getCursor().row;
+  let scrolled = buffer.scrolledLines;
+
+  const emit = (line: string) => {
+    if (line.trim()) onLine(line);
+  };
+
+  return buffer.onChange(() => {
+    const current = buffer.getText().split('\n');
+    const cursor = buffer.getCursor();
+    const shift = buffer.scrolledLines - scrolled;
+
+    // shift < 0: a tela foi limpa (clear() zera o contador)
+    if (shift >= 0) {
+      // Primeira linha ainda nao entregue, nas coordenadas da tela atual
+      const first = cursorRow - shift;
+      // Linhas que rolaram para fora antes de o cursor sair delas
+      if (first < 0) lines.slice(cursorRow, shift).forEach(emit);
+      for (let row = Math.max(first, 0); row < cursor.row; row++) {
+        emit(current[row] ?? '');
+      }
+    }
+
+    lines = current;
+    cursorRow = cursor.row;
+    scrolled = buffer.scrolledLines;
+  });
+}
+
+// ============================================
+// SERIAL
+// ============================================
+
+/**
+ * Aplica \r e backspace como um terminal faria em uma unica linha
+ */
+function renderSerialLine(raw: string): string {
+  let line = '';
+  for (const char of stripAnsi(raw)) {
+    if (char === '\r') line = '';
+    else if (char === '\b') line = line.slice(0, -1);
+    else if (char >= ' ' || char === '\t') line += char;
+  }
+  return line.trimEnd();
+}
+
+/**
+ * Chama onLine para cada linha completa (terminada em \n) de uma porta serial
+ * Sequencias ANSI sao removidas; linhas vazias sao ignoradas.
+ *
+ * @returns Funcao para parar de observar
+ */
+export function watchSerialLines(
+  controller: V86Controller,
+  port: number,
+  onLine: (line: string) => void
+): () => void {
+  let raw = '';
+
+  return controller.onSerialPortOutput(port, (char) => {
+    if (char !== '\n') {
+      raw = raw.length < MAX_SERIAL_LINE_LENGTH ? raw + char : '';
+      return;
+    }
+    // "\r\n": o \r final nao apaga a linha
+    const line = renderSerialLine(raw.replace(/\r+$/, ''));
+    raw = '';
+    if (line.trim()) onLine(line);
+  });
+}
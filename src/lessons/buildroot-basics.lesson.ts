@@ -0,0 +1,19 @@
+import { defineLesson } from '../components/v86-wrapper/lessons';
+
+/**
+ * Comandos basicos de shell na imagem buildroot (busybox)
+ * Verificado por `npm run test-lessons` contra a imagem publicada.
+ */
+export default defineLesson({
+  name: 'buildroot - primeiros comandos',
+  config: { preset: 'buildroot' },
+  steps: [
+    { command: 'uname -s', stdout: 'Linux' },
+    'mkdir -p /tmp/aula && cd /tmp/aula',
+    { command: 'pwd', stdout: '/tmp/aula' },
+    { command: 'echo ola > notas.txt && cat notas.txt', stdout: 'ola' },
+    { command: 'ls', stdout: 'notas.txt' },
+    { command: 'cat nao-existe.txt', exitCode: 1, stderr: /No such file/ },
+    { command: 'printf "a\\nb\\nc\\n" | wc -l', stdout: /^\s*3\s*$/ },
+  ],
+});
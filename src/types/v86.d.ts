@@ -94,6 +94,9 @@ export type Event =
   | 'screen-put-char'
   | 'screen-set-size'
   | 'serial0-output-byte'
+  | 'serial1-output-byte'
+  | 'serial2-output-byte'
+  | 'serial3-output-byte'
   | 'virtio-console0-output-bytes';
 
 /**
@@ -265,6 +268,14 @@ export interface V86Options {
    */
   screen_container?: HTMLElement | null;
 
+  /**
+   * Enable the second, third and fourth serial ports (ttyS1-ttyS3). serial0 is always present.
+   * @default false
+   */
+  uart1?: boolean;
+  uart2?: boolean;
+  uart3?: boolean;
+
   /**
    * Enable ACPI (also enables APIC). Experimental and only partially implemented.
    * @default false
@@ -445,7 +456,7 @@ export class V86 {
   /**
    * Download a screenshot (returns an <img> element, only works in browsers)
    */
-  screen_make_screenshot(): HTMLElement;
+  screen_make_screenshot(): HTMLElement | null;
 
   /**
    * Set the scaling level of the emulated screen.